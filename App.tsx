@@ -1,29 +1,130 @@
 
-import React, { useState, useCallback, useRef, useEffect } from 'react';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import { v4 as uuidv4 } from 'uuid';
-import { AudioBlock, GlobalSettings, VOICES } from './types';
-import { generateTTS } from './services/geminiService';
-import { createWavBlob, generateZip, concatenateToSingleWav, decodeAudioToBuffer } from './utils/audioUtils';
+import { AudioBlock, AudioTake, ChunkingSettings, DEFAULT_SETTINGS, ExportSettings, GlobalSettings, LexiconEntry, MixSettings, ModelPrice, MusicBed, ProcessingSettings, Project, ProjectMeta, ProjectSummary, SettingsOverrides, Speaker, UsageBudget, UsageRecord, VoicePreset } from './types';
+import { DEFAULT_PROVIDER_ID, getProvider, listProviders } from './services/providers';
+import { blockFileName, generateZip, decodeAudioToBuffer, encodeAudio, exportExtension, DEFAULT_PROCESSING_SETTINGS, getProcessedPcm, processBlocks } from './utils/audioUtils';
+import { DEFAULT_MIX_SETTINGS, decodeMusicFile, renderSingleTrack, singleTrackLayout } from './utils/mixdown';
+import { buildTimelineFiles } from './utils/timeline';
+import { buildSubtitleCues, formatSrt, formatVtt } from './utils/subtitles';
+import { DEFAULT_EXPORT_SETTINGS, EXPORT_FORMATS, resolveOutputFormat } from './utils/encoders';
+import { createSpeaker, findSpeaker, hasOverrides, resolveBlockSettings } from './utils/speakerUtils';
+import { ScriptSegment } from './utils/scriptImport';
+import { buildProject, createProject, deleteProject, fromStoredBlock, listProjects, loadProject, saveProject } from './services/projectStore';
+import { PROJECT_FILE_EXTENSION, exportProjectFile, importProjectFile } from './utils/projectFile';
+import { exportPresetsFile, loadPresets, parsePresetsFile, savePresets } from './utils/presets';
+import { applyLexicon, exportLexiconFile, loadGlobalLexicon, parseLexiconFile, saveGlobalLexicon } from './utils/lexicon';
+import { audioCacheKey, getCachedAudio, synthesizeWithCache } from './services/audioCache';
+import { synthesizeText } from './services/blockSynthesis';
+import { hasMarkup, parseMarkup } from './utils/markup';
+import { DEFAULT_CHUNKING_SETTINGS } from './utils/chunking';
+import { TakeChange, addTake, blockObjectUrls, chooseTake, createTake, findMatchingTake, pruneTakes, removeTake, restoreTakes, revokeTakes } from './utils/takes';
+import { HistoryStatus, UndoHistory, createUndoHistory } from './utils/history';
+import { EditorSnapshot, detachBlocks, duplicateBlock, mergeBlocks, moveBlock, restoreDrafts, splitBlock, takeSnapshot } from './utils/blockEditing';
+import { IDLE_PLAYER_STATE, PlayerState, ProjectPlayer, createProjectPlayer } from './services/projectPlayer';
+import { DEFAULT_QUEUE_CONFIG, GenerationQueue, QueueConfig, QueueSnapshot, createGenerationQueue } from './services/generationQueue';
+import { errorKind, isTTSError } from './services/ttsErrors';
+import { RequestUsage, appendUsage, clearUsage, listUsage } from './services/usageLog';
+import { checkBudget, estimateTextCost, formatUsageCsv, formatUsd, loadPriceTable, localDay, savePriceTable, summarizeUsage, usageByBlock } from './utils/usage';
+import SpeakerPanel from './components/SpeakerPanel';
+import SettingsOverrideEditor from './components/SettingsOverrideEditor';
+import ScriptImportModal from './components/ScriptImportModal';
+import ProjectPanel from './components/ProjectPanel';
+import QueueProgressBar from './components/QueueProgressBar';
+import CachePanel from './components/CachePanel';
+import ExportSettingsPanel from './components/ExportSettingsPanel';
+import ProcessingPanel from './components/ProcessingPanel';
+import MixPanel from './components/MixPanel';
+import ChunkingPanel from './components/ChunkingPanel';
+import Waveform, { WaveformRegion } from './components/Waveform';
+import TransportBar from './components/TransportBar';
+import PresetPanel from './components/PresetPanel';
+import AuditionModal from './components/AuditionModal';
+import LexiconPanel from './components/LexiconPanel';
+import TakeList from './components/TakeList';
+import BlockErrorNotice from './components/BlockErrorNotice';
+import UsagePanel from './components/UsagePanel';
+
+function revokeBlockUrls(blocks: AudioBlock[]) {
+  blocks.forEach(b => blockObjectUrls(b).forEach(url => URL.revokeObjectURL(url)));
+}
+
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+}
 
 export default function App() {
   const [blocks, setBlocks] = useState<AudioBlock[]>([{ id: uuidv4(), text: '', isGenerating: false, isPlaying: false }]);
-  const [settings, setSettings] = useState<GlobalSettings>({
-    voice: 'Kore',
-    speed: 1.0,
-    temperature: 1.0,
-    style: '',
-    accent: '',
-    seed: 42
-  });
-  const [isPlayingAll, setIsPlayingAll] = useState(false);
+  const [settings, setSettings] = useState<GlobalSettings>(DEFAULT_SETTINGS);
+  const [projectMeta, setProjectMeta] = useState<ProjectMeta | null>(null);
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [queueConfig, setQueueConfig] = useState<QueueConfig>(() => ({ ...DEFAULT_QUEUE_CONFIG, ...JSON.parse(localStorage.getItem('tts_queue_config') || '{}') }));
+  const [queueSnapshot, setQueueSnapshot] = useState<QueueSnapshot | null>(null);
+  const [cacheRevision, setCacheRevision] = useState(0);
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(() => ({ ...DEFAULT_EXPORT_SETTINGS, ...JSON.parse(localStorage.getItem('tts_export_settings') || '{}') }));
+  const [isExporting, setIsExporting] = useState(false);
+  const [processing, setProcessing] = useState<ProcessingSettings>(() => ({ ...DEFAULT_PROCESSING_SETTINGS, ...JSON.parse(localStorage.getItem('tts_processing') || '{}') }));
+  const [chunking, setChunking] = useState<ChunkingSettings>(() => ({ ...DEFAULT_CHUNKING_SETTINGS, ...JSON.parse(localStorage.getItem('tts_chunking') || '{}') }));
+  const [speakers, setSpeakers] = useState<Speaker[]>([]);
+  const [mix, setMix] = useState<MixSettings>(DEFAULT_MIX_SETTINGS);
+  const [music, setMusic] = useState<MusicBed | undefined>(undefined);
+  const [expandedOverridesId, setExpandedOverridesId] = useState<string | null>(null);
+  const [expandedTakesId, setExpandedTakesId] = useState<string | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [presets, setPresets] = useState<VoicePreset[]>(loadPresets);
+  const [isAuditionOpen, setIsAuditionOpen] = useState(false);
+  const [projectLexicon, setProjectLexicon] = useState<LexiconEntry[]>([]);
+  const [globalLexicon, setGlobalLexicon] = useState<LexiconEntry[]>(loadGlobalLexicon);
+  const [providerId, setProviderId] = useState<string>(() => localStorage.getItem('tts_provider') || DEFAULT_PROVIDER_ID);
+  const [transport, setTransport] = useState<PlayerState>(IDLE_PLAYER_STATE);
   const [isKeyConfigured, setIsKeyConfigured] = useState<boolean | null>(null);
+  const [playhead, setPlayhead] = useState<{ blockId: string; position: number } | null>(null);
+  const [selection, setSelection] = useState<({ blockId: string } & WaveformRegion) | null>(null);
+  const [historyStatus, setHistoryStatus] = useState<HistoryStatus>({ canUndo: false, canRedo: false });
+  const [drag, setDrag] = useState<{ blockId: string; dropIndex: number | null } | null>(null);
+  const [usageLog, setUsageLog] = useState<UsageRecord[]>([]);
+  const [prices, setPrices] = useState<Record<string, ModelPrice>>(loadPriceTable);
+  const [budget, setBudget] = useState<UsageBudget | undefined>(undefined);
+
+  const provider = getProvider(providerId);
+  // Regras do projeto têm prioridade: são aplicadas antes das globais.
+  const lexicon = useMemo(() => [...projectLexicon, ...globalLexicon], [projectLexicon, globalLexicon]);
+  const projectUsageRecords = useMemo(() => usageLog.filter(r => r.projectId === projectMeta?.id), [usageLog, projectMeta]);
+  const projectUsage = useMemo(() => summarizeUsage(projectUsageRecords, prices), [projectUsageRecords, prices]);
+  const blockUsage = useMemo(() => usageByBlock(projectUsageRecords, prices), [projectUsageRecords, prices]);
+  const todayUsage = useMemo(() => summarizeUsage(usageLog.filter(r => localDay(r.timestamp) === localDay(Date.now())), prices), [usageLog, prices]);
   
   const currentAudioSource = useRef<AudioBufferSourceNode | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
+  const playbackRef = useRef<{ blockId: string; startedAt: number; end: number } | null>(null);
+  const playerRef = useRef<ProjectPlayer | null>(null);
+  const blocksRef = useRef(blocks);
+  blocksRef.current = blocks;
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  const speakersRef = useRef(speakers);
+  speakersRef.current = speakers;
+  // Trechos removidos guardam seus takes aqui para que desfazer os traga de volta com o áudio.
+  const detachedRef = useRef(new Map<string, AudioBlock>());
+  const historyRef = useRef<UndoHistory<EditorSnapshot> | null>(null);
+  if (!historyRef.current) historyRef.current = createUndoHistory<EditorSnapshot>({ limit: 100, mergeWindowMs: 1000, onChange: setHistoryStatus });
+  const history = historyRef.current;
+
+  // Guarda o estado atual antes de uma alteração; alterações seguidas com a mesma chave viram um só passo.
+  const remember = useCallback((mergeKey?: string) => {
+    history.record(takeSnapshot(blocksRef.current, settingsRef.current, speakersRef.current), mergeKey);
+  }, [history]);
+
+  const detach = useCallback((removed: AudioBlock[]) => {
+    revokeBlockUrls(detachBlocks(detachedRef.current, removed));
+  }, []);
 
   useEffect(() => {
     const checkKey = async () => {
-      // @ts-ignore
       if (window.aistudio && typeof window.aistudio.hasSelectedApiKey === 'function') {
         const hasKey = await window.aistudio.hasSelectedApiKey();
         setIsKeyConfigured(hasKey);
@@ -34,9 +135,68 @@ export default function App() {
     checkKey();
   }, []);
 
+  const refreshProjects = useCallback(async () => {
+    setProjects(await listProjects());
+  }, []);
+
+  const applyProject = useCallback((project: Project) => {
+    queueRef.current?.cancelAll();
+    revokeBlockUrls([...blocksRef.current, ...detachedRef.current.values()]);
+    detachedRef.current.clear();
+    historyRef.current?.clear();
+    const projectSettings = { ...DEFAULT_SETTINGS, ...project.settings };
+    const restored = project.blocks.map(stored => {
+      const block = fromStoredBlock(stored);
+      return restoreTakes(block, project.sampleRate, resolveBlockSettings(block, project.speakers, projectSettings), uuidv4);
+    });
+    setBlocks(restored.length > 0 ? restored : [{ id: uuidv4(), text: '', isGenerating: false, isPlaying: false }]);
+    setSettings(projectSettings);
+    setSpeakers(project.speakers);
+    setMix({ ...DEFAULT_MIX_SETTINGS, ...project.mix });
+    setMusic(project.music);
+    setProjectLexicon(project.lexicon ?? []);
+    setBudget(project.budget);
+    setProjectMeta({ id: project.id, name: project.name, createdAt: project.createdAt, sampleRate: project.sampleRate });
+    localStorage.setItem('tts_last_project', project.id);
+  }, []);
+
+  const currentProject = useCallback(() => {
+    return projectMeta ? buildProject(projectMeta, { blocks: blocksRef.current, settings, speakers, mix, music, lexicon: projectLexicon, budget }) : null;
+  }, [projectMeta, settings, speakers, mix, music, projectLexicon, budget]);
+
+  useEffect(() => {
+    const restore = async () => {
+      try {
+        const lastId = localStorage.getItem('tts_last_project');
+        const last = lastId ? await loadProject(lastId) : undefined;
+        const project = last ?? createProject('Meu Projeto', DEFAULT_SETTINGS, getProvider(providerId).sampleRate);
+        if (!last) await saveProject(project);
+        applyProject(project);
+        await refreshProjects();
+      } catch (err) {
+        console.error("Erro ao abrir projetos:", err);
+      }
+    };
+    restore();
+    listUsage().then(setUsageLog).catch(err => console.warn("Histórico de uso indisponível:", err));
+  }, []);
+
+  // Salvamento automático: cada alteração é gravada no IndexedDB após uma pequena pausa.
+  useEffect(() => {
+    if (!projectMeta) return;
+    const timer = setTimeout(async () => {
+      try {
+        await saveProject(buildProject(projectMeta, { blocks, settings, speakers, mix, music, lexicon: projectLexicon, budget }));
+        await refreshProjects();
+      } catch (err) {
+        console.error("Erro ao salvar projeto:", err);
+      }
+    }, 800);
+    return () => clearTimeout(timer);
+  }, [projectMeta, blocks, settings, speakers, mix, music, projectLexicon, budget, refreshProjects]);
+
   const handleSelectKey = async () => {
     try {
-      // @ts-ignore
       if (window.aistudio && typeof window.aistudio.openSelectKey === 'function') {
         await window.aistudio.openSelectKey();
         // Após abrir o seletor, assumimos que o usuário procederá.
@@ -48,6 +208,11 @@ export default function App() {
     }
   };
 
+  const selectProvider = (id: string) => {
+    localStorage.setItem('tts_provider', id);
+    setProviderId(id);
+  };
+
   const getAudioContext = () => {
     if (!audioContextRef.current) {
       audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
@@ -57,74 +222,237 @@ export default function App() {
 
   const stopAllPlayback = useCallback(() => {
     if (currentAudioSource.current) {
+      currentAudioSource.current.onended = null;
       currentAudioSource.current.stop();
       currentAudioSource.current = null;
     }
-    setIsPlayingAll(false);
+    playbackRef.current = null;
+    setPlayhead(null);
+    playerRef.current?.stop();
     setBlocks(prev => prev.map(b => ({ ...b, isPlaying: false })));
   }, []);
 
-  const generateBlockAudio = useCallback(async (id: string) => {
-    const block = blocks.find(b => b.id === id);
+  // Cada requisição enviada ao provedor entra no histórico de uso, com o projeto e o trecho que a originaram.
+  const recordRequest = useCallback((blockId?: string) => (usage: RequestUsage) => {
+    const record: UsageRecord = { ...usage, id: uuidv4(), timestamp: Date.now(), projectId: projectMeta?.id, blockId };
+    setUsageLog(prev => [...prev, record]);
+    appendUsage(record).catch(err => console.warn("Falha ao gravar o uso:", err));
+  }, [projectMeta]);
+
+  const synthesizeBlock = useCallback(async (id: string, signal: AbortSignal) => {
+    const block = blocksRef.current.find(b => b.id === id);
     if (!block || !block.text.trim()) return;
 
-    setBlocks(prev => prev.map(b => b.id === id ? { ...b, isGenerating: true, error: undefined } : b));
+    setBlocks(prev => prev.map(b => b.id === id ? { ...b, isGenerating: true, error: undefined, errorKind: undefined } : b));
 
     try {
-      const pcmData = await generateTTS(block.text, settings);
-      const blob = createWavBlob(pcmData);
-      const url = URL.createObjectURL(blob);
-      setBlocks(prev => prev.map(b => b.id === id ? { 
-        ...b, 
-        audioData: pcmData, 
-        audioUrl: url, 
-        isGenerating: false 
-      } : b));
-    } catch (error: any) {
-      const errorMessage = error.message || "";
-      console.error("Erro na geração:", error);
-
-      if (errorMessage.includes("API Key") || errorMessage.includes("not found") || errorMessage.includes("403")) {
-        setIsKeyConfigured(false);
-        setBlocks(prev => prev.map(b => b.id === id ? { 
-          ...b, 
-          isGenerating: false, 
-          error: "Erro de Autenticação: Clique em 'TROCAR CHAVE' no topo." 
-        } : b));
-      } else {
-        setBlocks(prev => prev.map(b => b.id === id ? { 
-          ...b, 
-          isGenerating: false, 
-          error: "Ocorreu um erro. Verifique sua chave e saldo no Google Cloud." 
-        } : b));
-      }
+      const blockSettings = resolveBlockSettings(block, speakers, settings);
+      // Já existe um take para este texto e voz: pedir de novo é um novo take, então o cache é ignorado.
+      const refresh = !!findMatchingTake(block, blockSettings, provider.id);
+      const pcmData = await synthesizeText(provider, block.text, blockSettings, {
+        signal,
+        lexicon,
+        refresh,
+        chunking,
+        onProgress: (done, total) => setBlocks(prev => prev.map(b => b.id === id ? { ...b, chunkProgress: { done, total } } : b)),
+        onRequest: recordRequest(id),
+      });
+      if (signal.aborted) throw new DOMException('Geração cancelada.', 'AbortError');
+      const take = createTake(uuidv4(), pcmData, provider.sampleRate, block.text, blockSettings, provider.id);
+      setBlocks(prev => prev.map(b => {
+        if (b.id !== id) return b;
+        // Se o texto mudou durante a geração, o take fica no histórico sem substituir o escolhido.
+        const { block: next, discarded } = addTake(b, take, b.text === take.text);
+        revokeTakes(discarded);
+        return { ...next, isGenerating: false, chunkProgress: undefined };
+      }));
+      setCacheRevision(r => r + 1);
+    } catch (error) {
+      setBlocks(prev => prev.map(b => b.id === id ? { ...b, isGenerating: false, chunkProgress: undefined } : b));
+      throw error;
     }
-  }, [blocks, settings]);
+  }, [speakers, settings, provider, lexicon, chunking, recordRequest]);
+
+  const handleGenerationError = useCallback((id: string, error: any, willRetry: boolean) => {
+    console.error("Erro na geração:", error);
+    if (willRetry) return;
+
+    const kind = errorKind(error);
+    let message = isTTSError(error) ? error.message : "Ocorreu um erro na geração.";
+    // A fila já esgotou as tentativas: informamos quando o serviço sugere tentar de novo.
+    if (isTTSError(error) && error.retryAfterMs) message += ` Tente de novo em ${Math.ceil(error.retryAfterMs / 1000)}s.`;
+    setBlocks(prev => prev.map(b => b.id === id ? { ...b, error: message, errorKind: kind } : b));
+  }, []);
+
+  // A fila vive fora do ciclo de render; os refs garantem que ela sempre use as callbacks mais recentes.
+  const synthesizeBlockRef = useRef(synthesizeBlock);
+  synthesizeBlockRef.current = synthesizeBlock;
+  const handleGenerationErrorRef = useRef(handleGenerationError);
+  handleGenerationErrorRef.current = handleGenerationError;
+  const queueRef = useRef<GenerationQueue | null>(null);
+  if (!queueRef.current) {
+    queueRef.current = createGenerationQueue({
+      ...queueConfig,
+      run: (id, signal) => synthesizeBlockRef.current(id, signal),
+      onJobError: (id, error, willRetry) => handleGenerationErrorRef.current(id, error, willRetry),
+      onChange: setQueueSnapshot,
+    });
+  }
+  const queue = queueRef.current;
+
+  const updateQueueConfig = useCallback((patch: Partial<QueueConfig>) => {
+    setQueueConfig(prev => {
+      const next = { ...prev, ...patch };
+      localStorage.setItem('tts_queue_config', JSON.stringify(next));
+      return next;
+    });
+    queue.configure(patch);
+  }, [queue]);
+
+  const generateBlockAudio = useCallback((id: string) => {
+    queue.enqueue([id]);
+  }, [queue]);
 
-  const playBlock = useCallback(async (id: string) => {
+  // Toca um trecho a partir de `from` (segundos), opcionalmente só até `to`.
+  const playBlock = useCallback(async (id: string, from: number = 0, to?: number) => {
     stopAllPlayback();
     const block = blocks.find(b => b.id === id);
     if (!block?.audioData) return;
     const ctx = getAudioContext();
-    const buffer = await decodeAudioToBuffer(block.audioData, ctx);
+    const buffer = await decodeAudioToBuffer(getProcessedPcm(block.audioData, provider.sampleRate, processing), ctx, provider.sampleRate);
+    const end = Math.min(to ?? buffer.duration, buffer.duration);
+    const start = from < end ? from : 0;
     const source = ctx.createBufferSource();
     source.buffer = buffer;
     source.connect(ctx.destination);
     setBlocks(prev => prev.map(b => b.id === id ? { ...b, isPlaying: true } : b));
-    source.onended = () => setBlocks(prev => prev.map(b => b.id === id ? { ...b, isPlaying: false } : b));
-    source.start();
+    source.onended = () => {
+      if (currentAudioSource.current !== source) return;
+      currentAudioSource.current = null;
+      playbackRef.current = null;
+      setPlayhead(null);
+      setBlocks(prev => prev.map(b => b.id === id ? { ...b, isPlaying: false } : b));
+    };
+    source.start(0, start, end - start);
     currentAudioSource.current = source;
-  }, [blocks, stopAllPlayback]);
+    playbackRef.current = { blockId: id, startedAt: ctx.currentTime - start, end };
+    setPlayhead({ blockId: id, position: start });
+  }, [blocks, stopAllPlayback, provider, processing]);
+
+  // Pausa mantendo a posição do playhead para retomar depois.
+  const pausePlayback = useCallback(() => {
+    const playback = playbackRef.current;
+    const source = currentAudioSource.current;
+    if (!playback || !source) return;
+    const position = Math.min(playback.end, getAudioContext().currentTime - playback.startedAt);
+    source.onended = null;
+    source.stop();
+    currentAudioSource.current = null;
+    playbackRef.current = null;
+    setPlayhead({ blockId: playback.blockId, position });
+    setBlocks(prev => prev.map(b => b.id === playback.blockId ? { ...b, isPlaying: false } : b));
+  }, []);
+
+  const toggleBlockPlayback = useCallback((id: string) => {
+    const block = blocks.find(b => b.id === id);
+    if (block?.isPlaying) return pausePlayback();
+    const region = selection?.blockId === id ? selection : undefined;
+    const resumeAt = playhead?.blockId === id ? playhead.position : undefined;
+    const canResume = resumeAt !== undefined && (!region || (resumeAt >= region.start && resumeAt < region.end));
+    playBlock(id, canResume ? resumeAt : region?.start ?? 0, region?.end);
+  }, [blocks, selection, playhead, playBlock, pausePlayback]);
+
+  // Clique na forma de onda: desfaz a seleção e move o playhead (continua tocando se já estava).
+  const seekBlock = useCallback((id: string, position: number) => {
+    setSelection(null);
+    if (blocks.find(b => b.id === id)?.isPlaying) playBlock(id, position);
+    else {
+      stopAllPlayback();
+      setPlayhead({ blockId: id, position });
+    }
+  }, [blocks, playBlock, stopAllPlayback]);
 
-  const generateAll = useCallback(async () => {
-    for (const block of blocks) {
-      if (block.text.trim() && !block.audioData) {
-        await generateBlockAudio(block.id);
+  const selectRegion = useCallback((id: string, region: WaveformRegion | null) => {
+    if (!region) return setSelection(null);
+    setSelection({ blockId: id, ...region });
+    playBlock(id, region.start, region.end);
+  }, [playBlock]);
+
+  const isAnyBlockPlaying = blocks.some(b => b.isPlaying);
+  useEffect(() => {
+    if (!isAnyBlockPlaying) return;
+    let frame = 0;
+    const tick = () => {
+      const playback = playbackRef.current;
+      if (playback && audioContextRef.current) {
+        setPlayhead({ blockId: playback.blockId, position: Math.min(playback.end, audioContextRef.current.currentTime - playback.startedAt) });
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isAnyBlockPlaying]);
+
+  // Ouvir Tudo: trechos sem áudio são gerados na hora, com os próximos já entrando na fila.
+  const loadBlockForPlayback = useCallback(async (id: string, signal: AbortSignal) => {
+    const find = () => blocksRef.current.find(b => b.id === id);
+    let block = find();
+    if (!block?.text.trim()) return null;
+    if (!block.audioData) {
+      queue.enqueue([id]);
+      let idleTicks = 0;
+      while (!signal.aborted) {
+        await new Promise(resolve => setTimeout(resolve, 100));
+        block = find();
+        if (!block || block.audioData || block.error) break;
+        idleTicks = queue.isActive(id) ? 0 : idleTicks + 1;
+        if (idleTicks > 3) break;
       }
+      if (!block?.audioData || signal.aborted) return null;
+    }
+    return decodeAudioToBuffer(getProcessedPcm(block.audioData, provider.sampleRate, processing), getAudioContext(), provider.sampleRate);
+  }, [queue, provider, processing]);
+
+  const loadBlockForPlaybackRef = useRef(loadBlockForPlayback);
+  loadBlockForPlaybackRef.current = loadBlockForPlayback;
+  const mixRef = useRef(mix);
+  mixRef.current = mix;
+  if (!playerRef.current) {
+    playerRef.current = createProjectPlayer({
+      getContext: getAudioContext,
+      getBlockIds: () => blocksRef.current.map(b => b.id),
+      loadBuffer: (id, signal) => loadBlockForPlaybackRef.current(id, signal),
+      prefetch: (ids) => queue.enqueue(blocksRef.current.filter(b => ids.includes(b.id) && b.text.trim() && !b.audioData && !b.error).map(b => b.id)),
+      gapAfter: (id) => (blocksRef.current.find(b => b.id === id)?.pauseAfterMs ?? mixRef.current.defaultPauseMs) / 1000,
+      onChange: setTransport,
+    });
+  }
+  const player = playerRef.current;
+
+  const playAll = useCallback((fromIndex: number = 0) => {
+    stopAllPlayback();
+    player.start(fromIndex);
+  }, [player, stopAllPlayback]);
+
+  // Acompanha o trecho que está tocando no Ouvir Tudo.
+  useEffect(() => {
+    if (transport.currentBlockId) document.getElementById(`block-${transport.currentBlockId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [transport.currentBlockId]);
+
+  // O orçamento é conferido antes de enfileirar: a estimativa ignora o cache, então erra para mais.
+  const generateAll = useCallback(() => {
+    const pending = blocksRef.current.filter(b => b.text.trim() && !b.audioData);
+    const estimate = pending.reduce((sum, b) => sum + estimateTextCost(applyLexicon(b.text, lexicon).length, resolveBlockSettings(b, speakers, settings).speed, provider.model, prices), 0);
+    if (budget && checkBudget(budget, projectUsage.costUsd, estimate).exceeded) {
+      const message = `Gerar ${pending.length} trechos custa cerca de ${formatUsd(estimate)} e o projeto já usou ${formatUsd(projectUsage.costUsd)} do orçamento de ${formatUsd(budget.limitUsd)}.`;
+      if (budget.mode === 'block') return alert(`${message} Aumente o orçamento para continuar.`);
+      if (!confirm(`${message} Gerar mesmo assim?`)) return;
     }
-  }, [blocks, generateBlockAudio]);
+    queue.enqueue(pending.map(b => b.id));
+  }, [queue, lexicon, speakers, settings, provider, prices, budget, projectUsage]);
 
   const addBlock = useCallback((afterId?: string) => {
+    remember();
     const newBlock = { id: uuidv4(), text: '', isGenerating: false, isPlaying: false };
     if (!afterId) setBlocks(prev => [...prev, newBlock]);
     else setBlocks(prev => {
@@ -133,59 +461,457 @@ export default function App() {
       next.splice(index + 1, 0, newBlock);
       return next;
     });
-  }, []);
+  }, [remember]);
 
   const removeBlock = useCallback((id: string) => {
-    setBlocks(prev => prev.length > 1 ? prev.filter(b => b.id !== id) : prev);
+    if (blocksRef.current.length <= 1) return;
+    remember();
+    detach(blocksRef.current.filter(b => b.id === id));
+    setBlocks(prev => prev.filter(b => b.id !== id));
+  }, [remember, detach]);
+
+  const focusBlockText = (id: string, cursor?: number) => requestAnimationFrame(() => {
+    const textarea = document.getElementById(`block-text-${id}`) as HTMLTextAreaElement | null;
+    textarea?.focus();
+    if (textarea && cursor !== undefined) textarea.setSelectionRange(cursor, cursor);
+  });
+
+  const splitBlockAt = useCallback((id: string, at: number) => {
+    const block = blocksRef.current.find(b => b.id === id);
+    if (!block) return;
+    remember();
+    if (block.isPlaying) stopAllPlayback();
+    const parts = splitBlock({ ...block, isPlaying: false }, at, uuidv4());
+    setBlocks(prev => prev.flatMap(b => b.id === id ? parts : [b]));
+    focusBlockText(parts[1].id, 0);
+  }, [remember, stopAllPlayback]);
+
+  const mergeWithNext = useCallback((id: string) => {
+    const index = blocksRef.current.findIndex(b => b.id === id);
+    const first = blocksRef.current[index];
+    const second = blocksRef.current[index + 1];
+    if (!first || !second) return;
+    remember();
+    if (first.isPlaying || second.isPlaying) stopAllPlayback();
+    // Os áudios dos dois trechos são emendados com a mesma pausa que teriam na faixa única.
+    const { block, removed, discarded } = mergeBlocks({ ...first, isPlaying: false }, { ...second, isPlaying: false }, provider.sampleRate, first.pauseAfterMs ?? mix.defaultPauseMs, uuidv4());
+    revokeTakes(discarded);
+    detach([removed]);
+    setBlocks(prev => prev.filter(b => b.id !== removed.id).map(b => b.id === first.id || b.id === second.id ? block : b));
+    focusBlockText(block.id, first.text.trimEnd().length);
+  }, [remember, detach, stopAllPlayback, provider, mix]);
+
+  const duplicateBlockAfter = useCallback((id: string) => {
+    const block = blocksRef.current.find(b => b.id === id);
+    if (!block) return;
+    remember();
+    const copy = duplicateBlock(block, provider.sampleRate, uuidv4);
+    setBlocks(prev => prev.flatMap(b => b.id === id ? [b, copy] : [b]));
+  }, [remember, provider]);
+
+  const moveBlockTo = useCallback((id: string, toIndex: number) => {
+    const from = blocksRef.current.findIndex(b => b.id === id);
+    if (from < 0 || toIndex < 0 || toIndex >= blocksRef.current.length || toIndex === from) return;
+    remember();
+    setBlocks(prev => moveBlock(prev, id, toIndex));
+  }, [remember]);
+
+  const dropDraggedBlock = useCallback(() => {
+    if (!drag || drag.dropIndex === null) return setDrag(null);
+    const from = blocksRef.current.findIndex(b => b.id === drag.blockId);
+    // O índice de destino conta o próprio trecho arrastado, que sai da lista antes de ser reinserido.
+    moveBlockTo(drag.blockId, drag.dropIndex > from ? drag.dropIndex - 1 : drag.dropIndex);
+    setDrag(null);
+  }, [drag, moveBlockTo]);
+
+  const applySnapshot = useCallback((snapshot: EditorSnapshot) => {
+    const { blocks: restored, removed } = restoreDrafts(snapshot.blocks, blocksRef.current, detachedRef.current);
+    const stopping = removed.some(b => b.isPlaying);
+    if (stopping) stopAllPlayback();
+    detach(removed);
+    setBlocks(stopping ? restored.map(b => ({ ...b, isPlaying: false })) : restored);
+    setSettings(snapshot.settings);
+    setSpeakers(snapshot.speakers);
+  }, [detach, stopAllPlayback]);
+
+  const undo = useCallback(() => {
+    const snapshot = history.undo(takeSnapshot(blocksRef.current, settingsRef.current, speakersRef.current));
+    if (snapshot) applySnapshot(snapshot);
+  }, [history, applySnapshot]);
+
+  const redo = useCallback(() => {
+    const snapshot = history.redo(takeSnapshot(blocksRef.current, settingsRef.current, speakersRef.current));
+    if (snapshot) applySnapshot(snapshot);
+  }, [history, applySnapshot]);
+
+  // Ctrl+Z / Ctrl+Shift+Z / Ctrl+Y usam o histórico do editor; outros campos de texto mantêm o desfazer do navegador.
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement;
+      const isTextField = (target instanceof HTMLInputElement && !['range', 'checkbox', 'radio', 'button'].includes(target.type)) || target instanceof HTMLTextAreaElement || target.isContentEditable;
+      if (isTextField && !target.id.startsWith('block-text-')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) undo();
+      else if ((key === 'z' && e.shiftKey) || key === 'y') redo();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [undo, redo]);
+
+  // Atalhos do trecho em edição: Alt+Enter divide no cursor, Alt+J junta com o próximo, Alt+D duplica e Alt+↑/↓ move.
+  const handleBlockKeyDown = useCallback((e: React.KeyboardEvent<HTMLTextAreaElement>, id: string) => {
+    if (!e.altKey || e.ctrlKey || e.metaKey) return;
+    const index = blocksRef.current.findIndex(b => b.id === id);
+    if (e.key === 'Enter') splitBlockAt(id, e.currentTarget.selectionStart);
+    else if (e.code === 'KeyJ') mergeWithNext(id);
+    else if (e.code === 'KeyD') duplicateBlockAfter(id);
+    else if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+      moveBlockTo(id, index + (e.key === 'ArrowUp' ? -1 : 1));
+      focusBlockText(id, e.currentTarget.selectionStart);
+    }
+    else return;
+    e.preventDefault();
+  }, [splitBlockAt, mergeWithNext, duplicateBlockAfter, moveBlockTo]);
+
+  const changeTakes = useCallback((id: string, change: (block: AudioBlock) => TakeChange) => {
+    setBlocks(prev => prev.map(b => {
+      if (b.id !== id) return b;
+      const { block, discarded } = change(b);
+      revokeTakes(discarded);
+      return block;
+    }));
   }, []);
 
+  const chooseBlockTake = useCallback((id: string, take: AudioTake) => {
+    if (blocksRef.current.find(b => b.id === id)?.isPlaying) stopAllPlayback();
+    setBlocks(prev => prev.map(b => b.id === id ? chooseTake(b, take) : b));
+  }, [stopAllPlayback]);
+
+  const deleteBlockTake = useCallback((id: string, take: AudioTake) => {
+    const block = blocksRef.current.find(b => b.id === id);
+    if (block?.takeId === take.id && block.isPlaying) stopAllPlayback();
+    changeTakes(id, b => removeTake(b, take.id));
+  }, [changeTakes, stopAllPlayback]);
+
+  // Trechos sem áudio são procurados no cache: desfazer uma edição traz o áudio anterior de volta sem nova chamada.
+  const cacheMissRef = useRef(new Map<string, string>());
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      blocks.forEach(async (block) => {
+        if (block.audioData || block.isGenerating || !block.text.trim()) return;
+        const blockSettings = resolveBlockSettings(block, speakers, settings);
+        const isUnchanged = (b: AudioBlock) => b.id === block.id && b.text === block.text && !b.audioData;
+        // Um take anterior deste texto e voz volta a ser o escolhido antes de consultar o cache.
+        const take = findMatchingTake(block, blockSettings, provider.id);
+        if (take) {
+          setBlocks(prev => prev.map(b => isUnchanged(b) ? chooseTake(b, take) : b));
+          return;
+        }
+        try {
+          const key = await audioCacheKey(applyLexicon(block.text, lexicon), blockSettings, provider);
+          if (cacheMissRef.current.get(block.id) === key) return;
+          const cached = await getCachedAudio(key);
+          if (!cached) {
+            cacheMissRef.current.set(block.id, key);
+            return;
+          }
+          if (!blocksRef.current.some(isUnchanged)) return;
+          const restored = createTake(uuidv4(), cached, provider.sampleRate, block.text, blockSettings, provider.id);
+          changeTakes(block.id, b => isUnchanged(b) ? addTake(b, restored) : { block: b, discarded: [] });
+        } catch (err) {
+          console.warn("Cache de áudio indisponível:", err);
+        }
+      });
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [blocks, speakers, settings, provider, lexicon, changeTakes]);
+
   const updateBlockText = useCallback((id: string, text: string) => {
-    setBlocks(prev => prev.map(b => b.id === id ? { ...b, text, audioData: undefined, audioUrl: undefined } : b));
-  }, []);
+    remember(`text:${id}`);
+    setBlocks(prev => prev.map(b => b.id === id ? { ...b, text, takeId: undefined, audioData: undefined, audioUrl: undefined } : b));
+  }, [remember]);
+
+  const updateBlockVoice = useCallback((id: string, patch: { speakerId?: string; overrides?: SettingsOverrides }) => {
+    remember(`voice:${id}`);
+    setBlocks(prev => prev.map(b => b.id === id ? { ...b, ...patch, takeId: undefined, audioData: undefined, audioUrl: undefined } : b));
+  }, [remember]);
+
+  // A pausa só afeta a montagem da faixa única: o áudio já gerado continua válido.
+  const updateBlockPause = useCallback((id: string, pauseAfterMs?: number) => {
+    remember(`pause:${id}`);
+    setBlocks(prev => prev.map(b => b.id === id ? { ...b, pauseAfterMs } : b));
+  }, [remember]);
+
+  const updateSettings = useCallback((patch: Partial<GlobalSettings>, mergeKey?: string) => {
+    remember(mergeKey && `settings:${mergeKey}`);
+    setSettings({ ...settingsRef.current, ...patch });
+  }, [remember]);
+
+  const updateSpeakers = useCallback((next: Speaker[]) => {
+    remember('speakers');
+    setSpeakers(next);
+    setBlocks(prev => prev.map(b => b.speakerId && !next.some(s => s.id === b.speakerId) ? { ...b, speakerId: undefined, takeId: undefined, audioData: undefined, audioUrl: undefined } : b));
+  }, [remember]);
+
+  const importScript = useCallback((segments: ScriptSegment[], replace: boolean) => {
+    const nextSpeakers = [...speakers];
+    const speakerIdFor = (name?: string) => {
+      if (!name) return undefined;
+      let speaker = nextSpeakers.find(s => s.name.toLowerCase() === name.toLowerCase());
+      if (!speaker) {
+        speaker = createSpeaker(name, uuidv4(), nextSpeakers);
+        nextSpeakers.push(speaker);
+      }
+      return speaker.id;
+    };
+
+    const imported: AudioBlock[] = segments.map(segment => ({
+      id: uuidv4(),
+      text: segment.text,
+      speakerId: speakerIdFor(segment.speakerName),
+      isGenerating: false,
+      isPlaying: false,
+    }));
+
+    remember();
+    if (replace) {
+      stopAllPlayback();
+      detach(blocksRef.current);
+    }
+    setSpeakers(nextSpeakers);
+    setBlocks(prev => {
+      // Um único bloco vazio é só o placeholder inicial: descartamos ao importar.
+      const keep = replace || (prev.length === 1 && !prev[0].text.trim()) ? [] : prev;
+      return [...keep, ...imported];
+    });
+    setIsImportOpen(false);
+  }, [speakers, stopAllPlayback, remember, detach]);
+
+  const switchProject = useCallback(async (id: string) => {
+    const current = currentProject();
+    if (current) await saveProject(current);
+    const project = await loadProject(id);
+    if (!project) return;
+    stopAllPlayback();
+    applyProject(project);
+    await refreshProjects();
+  }, [currentProject, applyProject, refreshProjects, stopAllPlayback]);
+
+  const newProject = useCallback(async () => {
+    const current = currentProject();
+    if (current) await saveProject(current);
+    const project = createProject(`Projeto ${projects.length + 1}`, settings, provider.sampleRate);
+    await saveProject(project);
+    stopAllPlayback();
+    applyProject(project);
+    await refreshProjects();
+  }, [currentProject, projects, settings, provider, applyProject, refreshProjects, stopAllPlayback]);
+
+  const removeProject = useCallback(async () => {
+    if (!projectMeta || !confirm(`Excluir o projeto "${projectMeta.name}"? Esta ação não pode ser desfeita.`)) return;
+    await deleteProject(projectMeta.id);
+    const remaining = await listProjects();
+    const next = remaining.length > 0 ? await loadProject(remaining[0].id) : undefined;
+    const project = next ?? createProject('Meu Projeto', settings, provider.sampleRate);
+    if (!next) await saveProject(project);
+    stopAllPlayback();
+    applyProject(project);
+    await refreshProjects();
+  }, [projectMeta, settings, provider, applyProject, refreshProjects, stopAllPlayback]);
+
+  const exportProject = useCallback(async () => {
+    const project = currentProject();
+    if (!project) return;
+    const blob = await exportProjectFile(project);
+    downloadBlob(blob, `${project.name || 'projeto'}${PROJECT_FILE_EXTENSION}`);
+  }, [currentProject]);
+
+  const importProject = useCallback(async (file: File) => {
+    try {
+      const current = currentProject();
+      if (current) await saveProject(current);
+      const project = await importProjectFile(file);
+      await saveProject(project);
+      stopAllPlayback();
+      applyProject(project);
+      await refreshProjects();
+    } catch (err: any) {
+      console.error("Erro ao importar projeto:", err);
+      alert(err.message || "Não foi possível importar o projeto.");
+    }
+  }, [currentProject, applyProject, refreshProjects, stopAllPlayback]);
 
   const clearAll = useCallback(() => {
+    remember();
     stopAllPlayback();
+    detach(blocksRef.current);
     setBlocks([{ id: uuidv4(), text: '', isGenerating: false, isPlaying: false }]);
-  }, [stopAllPlayback]);
+  }, [stopAllPlayback, remember, detach]);
 
-  const downloadZip = useCallback(async () => {
-    const generated = blocks.filter(b => b.audioData);
-    if (generated.length === 0) return;
-    const blob = await generateZip(generated);
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'audios_edson_automacao.zip';
-    a.click();
-  }, [blocks]);
-
-  const downloadSingleTrack = useCallback(() => {
+  const updateProcessing = useCallback((next: ProcessingSettings) => {
+    localStorage.setItem('tts_processing', JSON.stringify(next));
+    setProcessing(next);
+  }, []);
+
+  const updateChunking = useCallback((next: ChunkingSettings) => {
+    localStorage.setItem('tts_chunking', JSON.stringify(next));
+    setChunking(next);
+  }, []);
+
+  const updateExportSettings = useCallback((next: ExportSettings) => {
+    localStorage.setItem('tts_export_settings', JSON.stringify(next));
+    setExportSettings(next);
+  }, []);
+
+  const loadMusic = useCallback(async (file: File) => {
+    try {
+      setMusic(await decodeMusicFile(file, provider.sampleRate));
+    } catch (err: any) {
+      console.error("Erro ao carregar música:", err);
+      alert("Não foi possível ler este arquivo de áudio.");
+    }
+  }, [provider]);
+
+  // Codificar MP3/FLAC/Opus de uma narração longa leva alguns segundos: os botões ficam bloqueados até terminar.
+  const runExport = useCallback(async (task: () => Promise<void>) => {
+    setIsExporting(true);
+    try {
+      await task();
+    } catch (err: any) {
+      console.error("Erro na exportação:", err);
+      alert(err.message || "Não foi possível exportar o áudio.");
+    } finally {
+      setIsExporting(false);
+    }
+  }, []);
+
+  const downloadZip = useCallback(() => runExport(async () => {
     const generated = blocks.filter(b => b.audioData);
     if (generated.length === 0) return;
-    const blob = concatenateToSingleWav(generated);
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'faixa_completa_edson.wav';
-    a.click();
-  }, [blocks]);
+    const processed = processBlocks(generated, provider.sampleRate, processing);
+    const output = resolveOutputFormat(exportSettings, provider.sampleRate);
+    // A timeline usa a mesma montagem da Faixa Única, então os marcadores batem com ela.
+    const timeline = exportSettings.timeline
+      ? buildTimelineFiles(processed, singleTrackLayout(processed, provider.sampleRate, mix, music), index => blockFileName(index, exportExtension(exportSettings)), {
+        title: projectMeta?.name || 'Narração',
+        frameRate: exportSettings.timelineFrameRate,
+        sampleRate: output.sampleRate,
+        channels: output.channels,
+      }, speakers)
+      : [];
+    const blob = await generateZip(processed, provider.sampleRate, exportSettings, timeline);
+    downloadBlob(blob, 'audios_edson_automacao.zip');
+  }), [blocks, speakers, projectMeta, provider, processing, exportSettings, mix, music, runExport]);
+
+  const downloadSingleTrack = useCallback(() => runExport(async () => {
+    const processed = processBlocks(blocks, provider.sampleRate, processing);
+    const { pcmData, layout } = renderSingleTrack(processed, provider.sampleRate, mix, music);
+    if (layout.segments.length === 0) return;
+    const blob = await encodeAudio(pcmData, provider.sampleRate, exportSettings);
+    downloadBlob(blob, `faixa_completa_edson.${exportExtension(exportSettings)}`);
+
+    if (exportSettings.subtitleMode !== 'none') {
+      const cues = buildSubtitleCues(processed, layout, exportSettings.subtitleMode, speakers);
+      downloadBlob(new Blob([formatSrt(cues)], { type: 'application/x-subrip' }), 'faixa_completa_edson.srt');
+      downloadBlob(new Blob([formatVtt(cues)], { type: 'text/vtt' }), 'faixa_completa_edson.vtt');
+    }
+  }), [blocks, speakers, provider, processing, exportSettings, mix, music, runExport]);
+
+  const downloadBlock = useCallback((block: AudioBlock, index: number) => runExport(async () => {
+    if (!block.audioData) return;
+    const blob = await encodeAudio(getProcessedPcm(block.audioData, provider.sampleRate, processing), provider.sampleRate, exportSettings);
+    downloadBlob(blob, `audio_edson_${index + 1}.${exportExtension(exportSettings)}`);
+  }), [provider, processing, exportSettings, runExport]);
+
+  // Toca um áudio avulso (prévia, comparação A/B) interrompendo o que estiver tocando.
+  const playPcm = useCallback(async (pcmData: Uint8Array) => {
+    stopAllPlayback();
+    const ctx = getAudioContext();
+    const buffer = await decodeAudioToBuffer(getProcessedPcm(pcmData, provider.sampleRate, processing), ctx, provider.sampleRate);
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(ctx.destination);
+    source.start();
+    currentAudioSource.current = source;
+  }, [stopAllPlayback, provider, processing]);
 
   const playPreview = useCallback(async () => {
     const previewText = "Olá, esta é uma prévia da voz selecionada.";
     try {
-      const pcmData = await generateTTS(previewText, settings);
-      const ctx = getAudioContext();
-      const buffer = await decodeAudioToBuffer(pcmData, ctx);
-      const source = ctx.createBufferSource();
-      source.buffer = buffer;
-      source.connect(ctx.destination);
-      source.start();
-    } catch (e) {
-      setIsKeyConfigured(false);
+      await playPcm(await synthesizeWithCache(provider, previewText, settings, undefined, false, recordRequest()));
+    } catch (err: any) {
+      console.error("Erro na prévia:", err);
+      if (errorKind(err) === 'auth') setIsKeyConfigured(false);
+      else alert(err.message || "Não foi possível gerar a prévia.");
+    }
+  }, [settings, provider, playPcm, recordRequest]);
+
+  const hearText = useCallback(async (text: string) => {
+    try {
+      await playPcm(await synthesizeWithCache(provider, text, settings, undefined, false, recordRequest()));
+    } catch (err: any) {
+      console.error("Erro na prévia:", err);
+      alert(err.message || "Não foi possível gerar a prévia.");
+    }
+  }, [settings, provider, playPcm, recordRequest]);
+
+  const updateLexicon = useCallback((scope: 'project' | 'global', entries: LexiconEntry[]) => {
+    if (scope === 'project') return setProjectLexicon(entries);
+    saveGlobalLexicon(entries);
+    setGlobalLexicon(entries);
+  }, []);
+
+  const exportLexicon = useCallback((scope: 'project' | 'global') => {
+    downloadBlob(exportLexiconFile(scope === 'project' ? projectLexicon : globalLexicon), `pronuncias_${scope === 'project' ? 'projeto' : 'global'}.json`);
+  }, [projectLexicon, globalLexicon]);
+
+  const importLexicon = useCallback(async (scope: 'project' | 'global', file: File) => {
+    try {
+      const imported = parseLexiconFile(await file.text(), uuidv4);
+      updateLexicon(scope, [...(scope === 'project' ? projectLexicon : globalLexicon), ...imported]);
+    } catch (err: any) {
+      alert(err.message || "Não foi possível importar as pronúncias.");
     }
-  }, [settings]);
+  }, [projectLexicon, globalLexicon, updateLexicon]);
+
+  const updatePrice = useCallback((model: string, price: ModelPrice) => {
+    const next = { ...prices, [model]: price };
+    savePriceTable(next);
+    setPrices(next);
+  }, [prices]);
 
-  if (isKeyConfigured === false) {
+  const exportUsage = useCallback(() => {
+    const names = Object.fromEntries(projects.map(p => [p.id, p.name]));
+    downloadBlob(new Blob([formatUsageCsv(usageLog, prices, names)], { type: 'text/csv' }), 'uso_edson_tts.csv');
+  }, [usageLog, prices, projects]);
+
+  const resetUsage = useCallback(async () => {
+    await clearUsage();
+    setUsageLog([]);
+  }, []);
+
+  const updatePresets = useCallback((next: VoicePreset[]) => {
+    savePresets(next);
+    setPresets(next);
+  }, []);
+
+  const exportPresets = useCallback(() => {
+    downloadBlob(exportPresetsFile(presets), 'presets_edson_tts.json');
+  }, [presets]);
+
+  const importPresets = useCallback(async (file: File) => {
+    try {
+      const imported = parsePresetsFile(await file.text(), settings, presets, uuidv4);
+      updatePresets([...presets, ...imported]);
+    } catch (err: any) {
+      alert(err.message || "Não foi possível importar os presets.");
+    }
+  }, [settings, presets, updatePresets]);
+
+  if (isKeyConfigured === false && provider.capabilities.requiresApiKey) {
     return (
       <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black overflow-y-auto py-10">
         <div className="absolute inset-0 bg-[length:400%_400%] animate-gradient-move bg-gradient-to-br from-indigo-900 via-purple-900 to-pink-800 opacity-50"></div>
@@ -215,6 +941,13 @@ export default function App() {
                 Configurar Chave API Agora
               </button>
 
+              <button 
+                onClick={() => selectProvider('mock')}
+                className="w-full glass-btn py-3 rounded-2xl font-bold text-xs text-white/70 uppercase tracking-widest"
+              >
+                <i className="fa-solid fa-plug-circle-xmark mr-2"></i> Usar Motor Offline (Demo)
+              </button>
+
               <div className="flex justify-between items-center text-[10px] text-white/30 uppercase tracking-widest">
                 <a href="https://ai.google.dev/gemini-api/docs/billing" target="_blank" rel="noopener noreferrer" className="hover:text-pink-400 underline decoration-pink-500/50">Tutorial de Faturamento</a>
                 <span>Edson Automação © 2024</span>
@@ -235,7 +968,7 @@ export default function App() {
           <div className="flex items-center justify-between w-full">
             <div className="flex items-center gap-2 md:w-48">
               <div className="w-2 h-2 rounded-full bg-green-500 animate-pulse"></div>
-              <span className="text-[10px] text-green-400 font-bold tracking-tighter uppercase">Motor TTS Ativo</span>
+              <span className="text-[10px] text-green-400 font-bold tracking-tighter uppercase">{provider.capabilities.requiresNetwork ? 'Motor TTS Ativo' : 'Motor Offline'}</span>
             </div>
             <h1 className="text-xl md:text-2xl font-black tracking-tighter text-transparent bg-clip-text bg-gradient-to-r from-white via-pink-200 to-white uppercase">
               Edson Automação <span className="font-light text-pink-400">TTS</span>
@@ -254,16 +987,50 @@ export default function App() {
             <button onClick={generateAll} className="glass-btn flex-1 min-w-[120px] py-2.5 px-4 rounded-xl flex items-center justify-center gap-2 text-xs font-bold uppercase tracking-wider">
               <i className="fa-solid fa-wand-sparkles text-pink-400"></i> Gerar Tudo
             </button>
-            <button onClick={downloadZip} className="glass-btn flex-1 min-w-[120px] py-2.5 px-4 rounded-xl flex items-center justify-center gap-2 text-xs font-bold uppercase tracking-wider text-pink-300">
+            <button onClick={() => transport.isPlaying ? player.stop() : playAll()} className="glass-btn flex-1 min-w-[120px] py-2.5 px-4 rounded-xl flex items-center justify-center gap-2 text-xs font-bold uppercase tracking-wider text-pink-300">
+              <i className={`fa-solid ${transport.isPlaying ? 'fa-stop' : 'fa-circle-play'}`}></i> {transport.isPlaying ? 'Parar' : 'Ouvir Tudo'}
+            </button>
+            <button onClick={() => setIsImportOpen(true)} className="glass-btn flex-1 min-w-[120px] py-2.5 px-4 rounded-xl flex items-center justify-center gap-2 text-xs font-bold uppercase tracking-wider text-pink-300">
+              <i className="fa-solid fa-file-import"></i> Importar
+            </button>
+            <button disabled={isExporting} onClick={downloadZip} className="glass-btn flex-1 min-w-[120px] py-2.5 px-4 rounded-xl flex items-center justify-center gap-2 text-xs font-bold uppercase tracking-wider text-pink-300">
               <i className="fa-solid fa-file-zipper"></i> ZIP
             </button>
-            <button onClick={downloadSingleTrack} className="glass-btn flex-1 min-w-[120px] py-2.5 px-4 rounded-xl flex items-center justify-center gap-2 text-xs font-bold uppercase tracking-wider text-pink-300">
+            <button disabled={isExporting} onClick={downloadSingleTrack} className="glass-btn flex-1 min-w-[120px] py-2.5 px-4 rounded-xl flex items-center justify-center gap-2 text-xs font-bold uppercase tracking-wider text-pink-300">
               <i className="fa-solid fa-music"></i> Faixa Única
             </button>
+            <button disabled={!historyStatus.canUndo} onClick={undo} title="Desfazer (Ctrl+Z)" className="glass-btn py-2.5 px-4 rounded-xl flex items-center justify-center gap-2 text-xs font-bold uppercase tracking-wider text-pink-300 disabled:opacity-30">
+              <i className="fa-solid fa-rotate-left"></i>
+            </button>
+            <button disabled={!historyStatus.canRedo} onClick={redo} title="Refazer (Ctrl+Shift+Z)" className="glass-btn py-2.5 px-4 rounded-xl flex items-center justify-center gap-2 text-xs font-bold uppercase tracking-wider text-pink-300 disabled:opacity-30">
+              <i className="fa-solid fa-rotate-right"></i>
+            </button>
             <button onClick={clearAll} className="glass-btn flex-1 min-w-[120px] py-2.5 px-4 rounded-xl flex items-center justify-center gap-2 text-xs font-bold uppercase tracking-wider text-red-400/80">
               <i className="fa-solid fa-trash-can"></i> Limpar
             </button>
           </div>
+
+          {transport.isPlaying && (
+            <TransportBar
+              state={transport}
+              blockCount={blocks.length}
+              isGenerating={!!blocks.find(b => b.id === transport.currentBlockId)?.isGenerating}
+              onPrevious={() => player.skip(-1)}
+              onNext={() => player.skip(1)}
+              onPause={player.pause}
+              onResume={player.resume}
+              onStop={player.stop}
+            />
+          )}
+
+          {queueSnapshot && queueSnapshot.progress.total > 0 && (
+            <QueueProgressBar
+              progress={queueSnapshot.progress}
+              onPause={queue.pauseAll}
+              onResume={queue.resumeAll}
+              onCancel={queue.cancelAll}
+            />
+          )}
         </div>
       </header>
 
@@ -274,11 +1041,40 @@ export default function App() {
           </h2>
           
           <div className="space-y-6 pb-20">
+            <ProjectPanel
+              projects={projects}
+              currentId={projectMeta?.id}
+              name={projectMeta?.name ?? ''}
+              onRename={(name) => projectMeta && setProjectMeta({ ...projectMeta, name })}
+              onSwitch={switchProject}
+              onCreate={newProject}
+              onDelete={removeProject}
+              onExport={exportProject}
+              onImport={importProject}
+            />
+
+            <div className="space-y-2">
+              <label className="text-[10px] font-bold text-white/40 uppercase tracking-widest">Motor TTS</label>
+              <select value={provider.id} onChange={(e) => selectProvider(e.target.value)} className="w-full bg-black/40 border border-white/10 rounded-xl px-4 py-3 text-sm outline-none focus:border-pink-500/50 appearance-none text-white">
+                {listProviders().map(p => <option key={p.id} value={p.id} className="bg-slate-950">{p.label}</option>)}
+              </select>
+            </div>
+
+            <PresetPanel
+              presets={presets}
+              settings={settings}
+              onChange={updatePresets}
+              onApply={(preset) => updateSettings({ ...preset })}
+              onAudition={() => setIsAuditionOpen(true)}
+              onExport={exportPresets}
+              onImport={importPresets}
+            />
+
             <div className="space-y-2">
               <label className="text-[10px] font-bold text-white/40 uppercase tracking-widest">Voz Premium</label>
               <div className="flex gap-2">
-                <select value={settings.voice} onChange={(e) => setSettings({...settings, voice: e.target.value})} className="flex-1 bg-black/40 border border-white/10 rounded-xl px-4 py-3 text-sm outline-none focus:border-pink-500/50 appearance-none text-white">
-                  {VOICES.map(v => <option key={v} value={v} className="bg-slate-950">{v}</option>)}
+                <select value={settings.voice} onChange={(e) => updateSettings({ voice: e.target.value })} className="flex-1 bg-black/40 border border-white/10 rounded-xl px-4 py-3 text-sm outline-none focus:border-pink-500/50 appearance-none text-white">
+                  {provider.voices.map(v => <option key={v} value={v} className="bg-slate-950">{v}</option>)}
                 </select>
                 <button onClick={playPreview} className="glass-btn w-12 rounded-xl text-pink-400 flex items-center justify-center shadow-lg"><i className="fa-solid fa-play text-xs"></i></button>
               </div>
@@ -289,7 +1085,7 @@ export default function App() {
                 <label className="text-[10px] font-bold text-white/40 uppercase tracking-widest">Ritmo</label>
                 <span className="text-xs font-mono text-pink-400">{settings.speed.toFixed(2)}x</span>
               </div>
-              <input type="range" min="0.5" max="2.5" step="0.1" value={settings.speed} onChange={(e) => setSettings({...settings, speed: parseFloat(e.target.value)})} className="w-full accent-pink-500 h-1 bg-white/10 rounded-full appearance-none cursor-pointer" />
+              <input type="range" min="0.5" max="2.5" step="0.1" value={settings.speed} onChange={(e) => updateSettings({ speed: parseFloat(e.target.value) }, 'speed')} className="w-full accent-pink-500 h-1 bg-white/10 rounded-full appearance-none cursor-pointer" />
             </div>
 
             <div className="space-y-4">
@@ -297,54 +1093,260 @@ export default function App() {
                 <label className="text-[10px] font-bold text-white/40 uppercase tracking-widest">Emoção</label>
                 <span className="text-[9px] text-white/40">{(settings.temperature * 100).toFixed(0)}%</span>
               </div>
-              <input type="range" min="0" max="3" step="0.5" value={settings.temperature} onChange={(e) => setSettings({...settings, temperature: parseFloat(e.target.value)})} className="w-full accent-purple-500 h-1 bg-white/10 rounded-full appearance-none cursor-pointer" />
+              <input type="range" min="0" max="3" step="0.5" value={settings.temperature} onChange={(e) => updateSettings({ temperature: parseFloat(e.target.value) }, 'temperature')} className="w-full accent-purple-500 h-1 bg-white/10 rounded-full appearance-none cursor-pointer" />
             </div>
 
             <div className="space-y-2">
               <label className="text-[10px] font-bold text-white/40 uppercase tracking-widest">Estilo do Locutor</label>
-              <textarea value={settings.style} onChange={(e) => setSettings({...settings, style: e.target.value})} placeholder="Ex: Entusiasmado, calmo, misterioso..." className="w-full h-24 bg-black/40 border border-white/10 rounded-xl px-4 py-3 text-sm outline-none focus:border-pink-500/50 resize-none placeholder:text-white/10 text-white" />
+              <textarea value={settings.style} onChange={(e) => updateSettings({ style: e.target.value }, 'style')} placeholder="Ex: Entusiasmado, calmo, misterioso..." className="w-full h-24 bg-black/40 border border-white/10 rounded-xl px-4 py-3 text-sm outline-none focus:border-pink-500/50 resize-none placeholder:text-white/10 text-white" />
             </div>
 
             <div className="space-y-2">
               <label className="text-[10px] font-bold text-white/40 uppercase tracking-widest">Sotaque</label>
-              <input type="text" value={settings.accent} onChange={(e) => setSettings({...settings, accent: e.target.value})} placeholder="Ex: Brasil, Portugal, Angola..." className="w-full bg-black/40 border border-white/10 rounded-xl px-4 py-3 text-sm outline-none focus:border-pink-500/50 placeholder:text-white/10 text-white" />
+              <input type="text" value={settings.accent} onChange={(e) => updateSettings({ accent: e.target.value }, 'accent')} placeholder="Ex: Brasil, Portugal, Angola..." className="w-full bg-black/40 border border-white/10 rounded-xl px-4 py-3 text-sm outline-none focus:border-pink-500/50 placeholder:text-white/10 text-white" />
             </div>
+
+            <div className="space-y-4">
+              <div className="flex justify-between items-end">
+                <label className="text-[10px] font-bold text-white/40 uppercase tracking-widest">Gerações Simultâneas</label>
+                <span className="text-xs font-mono text-pink-400">{queueConfig.concurrency}</span>
+              </div>
+              <input type="range" min="1" max="6" step="1" value={queueConfig.concurrency} onChange={(e) => updateQueueConfig({ concurrency: parseInt(e.target.value) })} className="w-full accent-pink-500 h-1 bg-white/10 rounded-full appearance-none cursor-pointer" />
+              <div className="flex justify-between items-end">
+                <label className="text-[10px] font-bold text-white/40 uppercase tracking-widest">Novas Tentativas</label>
+                <span className="text-xs font-mono text-pink-400">{queueConfig.maxRetries}</span>
+              </div>
+              <input type="range" min="0" max="8" step="1" value={queueConfig.maxRetries} onChange={(e) => updateQueueConfig({ maxRetries: parseInt(e.target.value) })} className="w-full accent-purple-500 h-1 bg-white/10 rounded-full appearance-none cursor-pointer" />
+            </div>
+
+            <ChunkingPanel value={chunking} onChange={updateChunking} />
+
+            <ProcessingPanel value={processing} onChange={updateProcessing} />
+
+            <MixPanel value={mix} music={music} onChange={setMix} onLoadMusic={loadMusic} onRemoveMusic={() => setMusic(undefined)} />
+
+            <ExportSettingsPanel value={exportSettings} sourceSampleRate={provider.sampleRate} onChange={updateExportSettings} />
+
+            <CachePanel refreshKey={cacheRevision} />
+
+            <UsagePanel
+              records={projectUsageRecords}
+              today={todayUsage}
+              prices={prices}
+              model={provider.model}
+              budget={budget}
+              onBudgetChange={setBudget}
+              onPriceChange={updatePrice}
+              onExport={exportUsage}
+              onClear={resetUsage}
+            />
+
+            <SpeakerPanel speakers={speakers} settings={settings} voices={provider.voices} onChange={updateSpeakers} />
+
+            <LexiconPanel
+              projectEntries={projectLexicon}
+              globalEntries={globalLexicon}
+              onChange={updateLexicon}
+              onHear={hearText}
+              onExport={exportLexicon}
+              onImport={importLexicon}
+            />
           </div>
         </aside>
 
         <section className="flex-1 p-4 md:p-8 overflow-y-auto h-full space-y-6 pb-40">
-          {blocks.map((block, index) => (
-            <div key={block.id} className={`glass-card p-6 rounded-[2.5rem] border-t border-white/20 transition-all duration-500 ${block.isGenerating ? 'ring-2 ring-pink-500/50' : ''}`}>
+          {blocks.map((block, index) => {
+            const speaker = findSpeaker(speakers, block.speakerId);
+            const job = queueSnapshot?.jobs[block.id];
+            const markupIssues = hasMarkup(block.text) ? parseMarkup(block.text, provider.voices).issues : [];
+            const usage = blockUsage.get(block.id);
+            return (
+            <div
+              key={block.id}
+              id={`block-${block.id}`}
+              onDragOver={(e) => {
+                if (!drag) return;
+                e.preventDefault();
+                const rect = e.currentTarget.getBoundingClientRect();
+                const dropIndex = e.clientY < rect.top + rect.height / 2 ? index : index + 1;
+                if (dropIndex !== drag.dropIndex) setDrag({ ...drag, dropIndex });
+              }}
+              onDrop={(e) => { e.preventDefault(); dropDraggedBlock(); }}
+              style={drag?.dropIndex === index ? { boxShadow: '0 -4px 0 0 rgba(236, 72, 153, 0.8)' } : drag?.dropIndex === index + 1 && index === blocks.length - 1 ? { boxShadow: '0 4px 0 0 rgba(236, 72, 153, 0.8)' } : undefined}
+              className={`glass-card p-6 rounded-[2.5rem] border-t border-white/20 transition-all duration-500 ${drag?.blockId === block.id ? 'opacity-40' : ''} ${block.isGenerating ? 'ring-2 ring-pink-500/50' : transport.currentBlockId === block.id ? 'ring-2 ring-purple-400/70' : ''}`}
+            >
               <div className="flex flex-col lg:flex-row gap-6">
                 <div className="flex-1 space-y-4">
                    <div className="flex items-center justify-between">
-                     <span className="text-[9px] bg-white/5 border border-white/10 px-3 py-1 rounded-full text-white/40 font-black tracking-widest uppercase">Trecho #{String(index + 1).padStart(2, '0')}</span>
-                     {block.error && <span className="text-[9px] text-red-400 font-bold bg-red-500/10 px-3 py-1 rounded-full uppercase"><i className="fa-solid fa-triangle-exclamation mr-1"></i>{block.error}</span>}
+                     <div className="flex items-center gap-2">
+                       <span
+                         draggable
+                         onDragStart={(e) => {
+                           e.dataTransfer.effectAllowed = 'move';
+                           e.dataTransfer.setData('text/plain', block.id);
+                           const card = document.getElementById(`block-${block.id}`);
+                           if (card) e.dataTransfer.setDragImage(card, 24, 24);
+                           setDrag({ blockId: block.id, dropIndex: null });
+                         }}
+                         onDragEnd={() => setDrag(null)}
+                         title="Arraste para reordenar (Alt+↑/↓)"
+                         className="text-white/20 hover:text-white/60 cursor-grab active:cursor-grabbing px-1"
+                       >
+                         <i className="fa-solid fa-grip-vertical"></i>
+                       </span>
+                       <span className="text-[9px] bg-white/5 border border-white/10 px-3 py-1 rounded-full text-white/40 font-black tracking-widest uppercase">Trecho #{String(index + 1).padStart(2, '0')}</span>
+                       <select value={block.speakerId ?? ''} onChange={(e) => updateBlockVoice(block.id, { speakerId: e.target.value || undefined })} className="text-[9px] bg-white/5 border px-3 py-1 rounded-full font-black tracking-widest uppercase outline-none appearance-none cursor-pointer" style={{ borderColor: speaker?.color ?? 'rgba(255,255,255,0.1)', color: speaker?.color ?? 'rgba(255,255,255,0.4)' }}>
+                         <option value="" className="bg-slate-950 text-white">Voz Global</option>
+                         {speakers.map(s => <option key={s.id} value={s.id} className="bg-slate-950 text-white">{s.name}</option>)}
+                       </select>
+                       <button onClick={() => setExpandedOverridesId(expandedOverridesId === block.id ? null : block.id)} className={`text-[9px] px-3 py-1 rounded-full border font-black tracking-widest uppercase ${hasOverrides(block.overrides) ? 'border-purple-400/50 text-purple-300 bg-purple-500/10' : 'border-white/10 text-white/30 bg-white/5'}`}>
+                         <i className="fa-solid fa-sliders mr-1"></i> {resolveBlockSettings(block, speakers, settings).voice}
+                       </button>
+                       <label className="flex items-center gap-1 text-[9px] bg-white/5 border border-white/10 px-3 py-1 rounded-full text-white/30 font-black tracking-widest uppercase" title="Pausa após este trecho na faixa única">
+                         <i className="fa-solid fa-hourglass-end"></i>
+                         <input
+                           type="number"
+                           min={0}
+                           step={50}
+                           value={block.pauseAfterMs ?? ''}
+                           placeholder={String(mix.defaultPauseMs)}
+                           onChange={(e) => updateBlockPause(block.id, e.target.value === '' ? undefined : Math.max(0, parseInt(e.target.value) || 0))}
+                           className="w-14 bg-transparent outline-none text-white/70 placeholder:text-white/20 font-mono"
+                         />
+                         ms
+                       </label>
+                       {(block.takes?.length ?? 0) > 0 && (
+                         <button onClick={() => setExpandedTakesId(expandedTakesId === block.id ? null : block.id)} title="Histórico de takes" className={`text-[9px] px-3 py-1 rounded-full border font-black tracking-widest uppercase ${expandedTakesId === block.id ? 'border-yellow-400/40 text-yellow-300 bg-yellow-400/10' : 'border-white/10 text-white/30 bg-white/5'}`}>
+                           <i className="fa-solid fa-layer-group mr-1"></i> {block.takes!.length} {block.takes!.length === 1 ? 'take' : 'takes'}
+                         </button>
+                       )}
+                       {usage && (
+                         <span title={`${usage.requests} requisições · ${usage.characters} caracteres · ${usage.audioSeconds.toFixed(1)} s de áudio`} className="text-[9px] bg-white/5 border border-white/10 px-3 py-1 rounded-full text-white/30 font-mono">
+                           {formatUsd(usage.costUsd)}
+                         </span>
+                       )}
+                     </div>
+                     <div className="flex items-center gap-1 text-white/30">
+                       <button onClick={() => splitBlockAt(block.id, (document.getElementById(`block-text-${block.id}`) as HTMLTextAreaElement | null)?.selectionStart ?? block.text.length)} title="Dividir no cursor (Alt+Enter)" className="w-7 h-7 rounded-full hover:bg-white/10 hover:text-white transition-colors">
+                         <i className="fa-solid fa-scissors text-[10px]"></i>
+                       </button>
+                       <button disabled={index === blocks.length - 1} onClick={() => mergeWithNext(block.id)} title="Juntar com o próximo (Alt+J)" className="w-7 h-7 rounded-full hover:bg-white/10 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent transition-colors">
+                         <i className="fa-solid fa-object-group text-[10px]"></i>
+                       </button>
+                       <button onClick={() => duplicateBlockAfter(block.id)} title="Duplicar (Alt+D)" className="w-7 h-7 rounded-full hover:bg-white/10 hover:text-white transition-colors">
+                         <i className="fa-solid fa-clone text-[10px]"></i>
+                       </button>
+                     </div>
                    </div>
-                   <textarea value={block.text} onChange={(e) => updateBlockText(block.id, e.target.value)} placeholder="Digite o texto aqui..." className="w-full h-28 bg-transparent border-none outline-none text-white text-lg placeholder:text-white/5 resize-none font-medium leading-relaxed" />
+                   {expandedOverridesId === block.id && (
+                     <div className="bg-black/30 border border-white/10 rounded-2xl p-4 space-y-3">
+                       <SettingsOverrideEditor
+                         value={block.overrides ?? {}}
+                         inherited={resolveBlockSettings({ ...block, overrides: undefined }, speakers, settings)}
+                         voices={provider.voices}
+                         onChange={(overrides) => updateBlockVoice(block.id, { overrides })}
+                       />
+                       {hasOverrides(block.overrides) && (
+                         <button onClick={() => updateBlockVoice(block.id, { overrides: undefined })} className="text-[9px] text-white/40 hover:text-white uppercase tracking-widest font-bold">
+                           <i className="fa-solid fa-rotate-left mr-1"></i> Remover ajustes deste trecho
+                         </button>
+                       )}
+                     </div>
+                   )}
+                   <textarea id={`block-text-${block.id}`} value={block.text} onChange={(e) => updateBlockText(block.id, e.target.value)} onKeyDown={(e) => handleBlockKeyDown(e, block.id)} placeholder="Digite o texto aqui..." className="w-full h-28 bg-transparent border-none outline-none text-white text-lg placeholder:text-white/5 resize-none font-medium leading-relaxed" />
+                   {block.error && (
+                     <BlockErrorNotice
+                       kind={block.errorKind ?? 'unknown'}
+                       message={block.error}
+                       onRetry={() => generateBlockAudio(block.id)}
+                       onChangeKey={window.aistudio ? handleSelectKey : undefined}
+                       onEditVoice={() => setExpandedOverridesId(block.id)}
+                       onEditText={() => document.getElementById(`block-text-${block.id}`)?.focus()}
+                     />
+                   )}
+                   {markupIssues.length > 0 && (
+                     <div className="bg-yellow-500/10 border border-yellow-500/30 rounded-xl px-3 py-2 space-y-1">
+                       {markupIssues.map((issue, i) => (
+                         <div key={i} className="text-[10px] text-yellow-300 font-bold">
+                           <i className="fa-solid fa-code mr-1"></i>{issue.message} <span className="text-yellow-300/40 font-mono">(posição {issue.index + 1})</span>
+                         </div>
+                       ))}
+                     </div>
+                   )}
                   
-                  {block.audioUrl && (
+                  {block.audioUrl && block.audioData && (
                     <div className="flex flex-col sm:flex-row items-center gap-4 bg-black/40 p-4 rounded-2xl border border-white/5">
-                      <button onClick={() => playBlock(block.id)} className="w-12 h-12 rounded-2xl bg-gradient-to-br from-pink-600 to-purple-700 flex items-center justify-center text-white shadow-xl hover:scale-105 active:scale-95 transition-all">
-                        <i className={`fa-solid ${block.isPlaying ? 'fa-square' : 'fa-play'} text-sm`}></i>
+                      <button onClick={() => toggleBlockPlayback(block.id)} className="w-12 h-12 shrink-0 rounded-2xl bg-gradient-to-br from-pink-600 to-purple-700 flex items-center justify-center text-white shadow-xl hover:scale-105 active:scale-95 transition-all">
+                        <i className={`fa-solid ${block.isPlaying ? 'fa-pause' : 'fa-play'} text-sm`}></i>
+                      </button>
+                      <Waveform
+                        pcmData={getProcessedPcm(block.audioData, provider.sampleRate, processing)}
+                        sampleRate={provider.sampleRate}
+                        position={playhead?.blockId === block.id ? playhead.position : undefined}
+                        region={selection?.blockId === block.id ? selection : undefined}
+                        onSeek={(position) => seekBlock(block.id, position)}
+                        onSelectRegion={(region) => selectRegion(block.id, region)}
+                      />
+                      <button disabled={isExporting} onClick={() => downloadBlock(block, index)} className="text-[10px] font-black uppercase tracking-widest text-pink-400 hover:text-white disabled:opacity-40 transition-colors">
+                        <i className={`fa-solid ${isExporting ? 'fa-circle-notch animate-spin' : 'fa-download'} mr-1`}></i> Download {EXPORT_FORMATS[exportSettings.format].label}
                       </button>
-                      <div className="flex-1 h-8 flex items-end gap-1 px-2">
-                        {[0.3, 0.6, 0.2, 0.8, 0.4, 0.9, 0.5, 0.7, 0.3, 0.6, 0.4].map((h, i) => (
-                          <div key={i} className={`flex-1 bg-gradient-to-t from-pink-500 to-purple-400 rounded-full transition-all duration-300 ${block.isPlaying ? 'animate-pulse' : 'h-[20%]'}`} style={{ height: block.isPlaying ? `${h * 100}%` : '20%', animationDelay: `${i * 0.05}s` }}></div>
-                        ))}
-                      </div>
-                      <a href={block.audioUrl} download={`audio_edson_${index + 1}.wav`} className="text-[10px] font-black uppercase tracking-widest text-pink-400 hover:text-white transition-colors">
-                        <i className="fa-solid fa-download mr-1"></i> Download WAV
-                      </a>
                     </div>
                   )}
+
+                  {expandedTakesId === block.id && block.takes && block.takes.length > 0 && (
+                    <TakeList
+                      takes={block.takes}
+                      chosenId={block.takeId}
+                      text={block.text}
+                      settings={resolveBlockSettings(block, speakers, settings)}
+                      providerId={provider.id}
+                      sampleRate={provider.sampleRate}
+                      onPlay={(take) => playPcm(take.audioData)}
+                      onChoose={(take) => chooseBlockTake(block.id, take)}
+                      onDelete={(take) => deleteBlockTake(block.id, take)}
+                      onPrune={() => changeTakes(block.id, pruneTakes)}
+                    />
+                  )}
                 </div>
                 
                 <div className="flex lg:flex-col gap-2 shrink-0 justify-center">
-                  <button disabled={block.isGenerating || !block.text.trim()} onClick={() => generateBlockAudio(block.id)} className="glass-btn px-6 py-4 rounded-2xl text-[10px] font-black uppercase tracking-widest text-pink-400 hover:text-white disabled:opacity-30 transition-all flex items-center justify-center gap-2 min-w-[120px]">
-                    {block.isGenerating ? <i className="fa-solid fa-circle-notch animate-spin"></i> : <i className="fa-solid fa-microphone-lines"></i>}
-                    {block.isGenerating ? 'Processando' : 'Gerar Áudio'}
-                  </button>
+                  {job?.status === 'paused' ? (
+                    <>
+                      <button onClick={() => queue.resume(block.id)} className="glass-btn px-6 py-4 rounded-2xl text-[10px] font-black uppercase tracking-widest text-yellow-400 hover:text-white transition-all flex flex-col items-center justify-center gap-1 min-w-[120px]">
+                        <span className="flex items-center gap-2"><i className="fa-solid fa-pause"></i> Pausado</span>
+                        <span className="text-[8px] text-white/30"><i className="fa-solid fa-play mr-1"></i>Retomar</span>
+                      </button>
+                      <button onClick={() => queue.cancel(block.id)} className="glass-btn px-6 py-2 rounded-2xl text-[10px] font-black uppercase tracking-widest text-white/40 hover:text-red-400 transition-all flex items-center justify-center gap-2">
+                        <i className="fa-solid fa-xmark"></i> Cancelar
+                      </button>
+                    </>
+                  ) : job && ['queued', 'running', 'retrying'].includes(job.status) ? (
+                    <>
+                    <button onClick={() => queue.cancel(block.id)} className="glass-btn px-6 py-4 rounded-2xl text-[10px] font-black uppercase tracking-widest text-pink-400 hover:text-red-400 transition-all flex flex-col items-center justify-center gap-1 min-w-[120px]">
+                      <span className="flex items-center gap-2">
+                        {job.status === 'running' ? <i className="fa-solid fa-circle-notch animate-spin"></i> : <i className="fa-solid fa-hourglass-half"></i>}
+                        {job.status === 'running' ? 'Processando' : job.status === 'retrying' ? `Tentativa ${job.attempts + 1}` : 'Na Fila'}
+                      </span>
+                      {job.status === 'running' && block.chunkProgress && (
+                        <span className="w-full flex flex-col items-center gap-1">
+                          <span className="text-[8px] text-white/50">Parte {Math.min(block.chunkProgress.done + 1, block.chunkProgress.total)} de {block.chunkProgress.total}</span>
+                          <span className="w-full h-1 bg-white/10 rounded-full overflow-hidden">
+                            <span className="block h-full bg-pink-500 transition-all" style={{ width: `${(block.chunkProgress.done / block.chunkProgress.total) * 100}%` }}></span>
+                          </span>
+                        </span>
+                      )}
+                      <span className="text-[8px] text-white/30"><i className="fa-solid fa-xmark mr-1"></i>Cancelar</span>
+                    </button>
+                    <button onClick={() => queue.pause(block.id)} title={job.status === 'running' ? 'Interrompe a geração; ela recomeça ao retomar' : undefined} className="glass-btn px-6 py-2 rounded-2xl text-[10px] font-black uppercase tracking-widest text-white/40 hover:text-yellow-400 transition-all flex items-center justify-center gap-2">
+                      <i className="fa-solid fa-pause"></i> Pausar
+                    </button>
+                    </>
+                  ) : (
+                    <button disabled={block.isGenerating || !block.text.trim() || markupIssues.length > 0} onClick={() => generateBlockAudio(block.id)} className="glass-btn px-6 py-4 rounded-2xl text-[10px] font-black uppercase tracking-widest text-pink-400 hover:text-white disabled:opacity-30 transition-all flex items-center justify-center gap-2 min-w-[120px]">
+                      <i className={`fa-solid ${block.audioData ? 'fa-rotate-right' : 'fa-microphone-lines'}`}></i>
+                      {block.audioData ? 'Novo Take' : 'Gerar Áudio'}
+                    </button>
+                  )}
                   <button onClick={() => addBlock(block.id)} className="glass-btn px-6 py-4 rounded-2xl text-[10px] font-black uppercase tracking-widest text-white/40 hover:text-white transition-all flex items-center justify-center gap-2">
                     <i className="fa-solid fa-plus"></i> Inserir Abaixo
                   </button>
@@ -354,7 +1356,8 @@ export default function App() {
                 </div>
               </div>
             </div>
-          ))}
+            );
+          })}
           <button onClick={() => addBlock()} className="w-full py-10 rounded-[3rem] border-2 border-dashed border-white/5 text-white/10 hover:text-pink-500/40 hover:border-pink-500/20 hover:bg-pink-500/5 transition-all flex flex-col items-center justify-center gap-3 group">
             <i className="fa-solid fa-plus-circle text-5xl group-hover:scale-110 transition-transform"></i>
             <span className="text-[10px] font-black uppercase tracking-[0.4em]">Adicionar Novo Bloco de Áudio</span>
@@ -362,10 +1365,23 @@ export default function App() {
         </section>
       </main>
 
+      {isImportOpen && <ScriptImportModal onImport={importScript} onClose={() => setIsImportOpen(false)} />}
+      {isAuditionOpen && (
+        <AuditionModal
+          provider={provider}
+          settings={settings}
+          presets={presets}
+          onPlay={playPcm}
+          onApply={(next) => updateSettings({ ...next })}
+          onClose={() => setIsAuditionOpen(false)}
+          onRequest={recordRequest()}
+        />
+      )}
+
       <footer className="relative z-20 glass-card p-3 border-t border-white/5 flex justify-center items-center gap-6 text-[9px] text-white/20 uppercase font-black tracking-[0.5em]">
           <span>EDSON AUTOMAÇÃO PREMIUM</span>
           <div className="w-1 h-1 rounded-full bg-pink-500/50"></div>
-          <span>GEMINI 2.5 FLASH ENGINE</span>
+          <span>{provider.label} ENGINE</span>
       </footer>
     </div>
   );
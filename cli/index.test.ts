@@ -0,0 +1,58 @@
+import { execFile } from 'node:child_process';
+import { mkdtemp, readFile, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+const ROOT = path.join(__dirname, '..');
+let dir: string;
+const file = (name: string) => path.join(dir, name);
+
+/** Runs the CLI in a child process (it calls process.exit) and returns its exit code. */
+function runCli(args: string[]): Promise<{ code: number; stderr: string }> {
+  return new Promise(resolve => {
+    execFile(process.execPath, ['--import', 'tsx', 'cli/index.ts', ...args], { cwd: ROOT, timeout: 60_000 }, (error, _stdout, stderr) => {
+      resolve({ code: error ? Number(error.code ?? 1) : 0, stderr });
+    });
+  });
+}
+
+const project = (blocks: object[]) => JSON.stringify({ format: 'edson-tts-project', name: 'Teste', blocks });
+
+beforeAll(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), 'tts-cli-run-'));
+  await writeFile(file('ok.json'), project([{ text: 'Olá.' }, { text: '' }, { text: 'Tchau.' }]));
+  await writeFile(file('falha.json'), project([{ text: 'Olá.' }, { text: 'Erro.', overrides: { voice: 'Inexistente' } }]));
+  await writeFile(file('invalido.json'), project([{ text: 5 }]));
+});
+
+afterAll(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe('cli exit codes', () => {
+  it('exits 0 and writes the files when every block is generated', async () => {
+    const { code } = await runCli([file('ok.json'), '--provider', 'mock', '--out', file('saida-ok'), '--output', 'blocks', '-q']);
+    expect(code).toBe(0);
+    expect((await readdir(file('saida-ok'))).sort()).toEqual(['audio_1.wav', 'audio_2.wav', 'report.json']);
+    const report = JSON.parse(await readFile(path.join(file('saida-ok'), 'report.json'), 'utf8'));
+    expect(report.blocks.map((b: { status: string }) => b.status)).toEqual(['done', 'skipped', 'done']);
+  }, 60_000);
+
+  it('exits 1 when any block fails', async () => {
+    const { code, stderr } = await runCli([file('falha.json'), '--provider', 'mock', '--out', file('saida-falha'), '--retries', '0', '-q']);
+    expect(code).toBe(1);
+    expect(stderr).toContain('1 com falha');
+  }, 60_000);
+
+  it.each([
+    [['ok.json', '--provider', 'mock', '--fps', '29'], '--fps deve ser'],
+    [['invalido.json', '--provider', 'mock'], 'texto do trecho 1 inválido'],
+    [['nada.txt', '--provider', 'mock'], 'Não foi possível ler'],
+    [['ok.json', '--provider', 'outro'], 'Motor "outro" desconhecido'],
+  ])('exits 2 for usage and input errors: %j', async ([input, ...flags], message) => {
+    const { code, stderr } = await runCli([file(input), ...flags]);
+    expect(code).toBe(2);
+    expect(stderr).toContain(message);
+  }, 60_000);
+});
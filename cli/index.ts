@@ -0,0 +1,113 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { TTSProvider } from '../types';
+import { createGeminiProvider } from '../services/geminiService';
+import { createMockProvider } from '../services/mockService';
+import { BlockReport, encodeBatchOutputs, loadBatchDocument, renderBatch } from '../services/batchRender';
+import { CliOptions, USAGE, UsageError, resolveCliOptions } from './options';
+
+// Códigos de saída: 0 tudo gerado, 1 algum trecho falhou, 2 erro de uso ou de entrada.
+const EXIT_OK = 0;
+const EXIT_FAILED_BLOCKS = 1;
+const EXIT_USAGE = 2;
+
+function createProvider(options: CliOptions): TTSProvider {
+  if (options.provider === 'mock') return createMockProvider(0);
+  if (options.provider !== 'gemini') throw new UsageError(`Motor "${options.provider}" desconhecido. Use gemini ou mock.`);
+  if (!options.apiKey) throw new UsageError('Defina GEMINI_API_KEY (ou --api-key), ou use --provider mock para rodar offline.');
+  return createGeminiProvider({ apiKey: options.apiKey });
+}
+
+function preview(text: string): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > 50 ? `${flat.slice(0, 47)}...` : flat;
+}
+
+function printReport(report: BlockReport[]) {
+  const failed = report.filter(r => r.status === 'failed' || r.status === 'cancelled');
+  const done = report.filter(r => r.status === 'done');
+  const seconds = done.reduce((sum, r) => sum + (r.durationSeconds ?? 0), 0);
+  console.error(`\n${done.length} trecho(s) gerado(s), ${failed.length} com falha, ${seconds.toFixed(1)}s de áudio.`);
+  failed.forEach(r => console.error(`  #${String(r.index + 1).padStart(3, '0')} ${r.status === 'cancelled' ? 'cancelado' : 'falhou'}: ${r.error ?? ''} — "${preview(r.text)}"`));
+}
+
+async function run(argv: string[]): Promise<number> {
+  const options = await resolveCliOptions(argv);
+  if (!options) {
+    console.log(USAGE);
+    return EXIT_OK;
+  }
+
+  const provider = createProvider(options);
+  if (options.export.format === 'opus') {
+    throw new UsageError('Ogg/Opus depende do WebCodecs do navegador. Use --format wav, mp3 ou flac.');
+  }
+
+  let content: string;
+  try {
+    content = await readFile(options.input, 'utf8');
+  } catch (err: any) {
+    throw new UsageError(`Não foi possível ler "${options.input}": ${err.message}`);
+  }
+  let doc;
+  try {
+    doc = loadBatchDocument(content, options.input, options.import);
+  } catch (err: any) {
+    throw new UsageError(err.message);
+  }
+  doc.settings = { ...doc.settings, ...options.settings };
+  doc.mix = { ...doc.mix, ...options.mix };
+  doc.lexicon = [...doc.lexicon, ...options.lexicon];
+  if (!doc.blocks.some(b => b.text.trim())) throw new UsageError(`"${options.input}" não tem texto para gerar.`);
+
+  const controller = new AbortController();
+  process.once('SIGINT', () => {
+    console.error('\nInterrompido: cancelando gerações em andamento...');
+    controller.abort();
+  });
+
+  if (!options.quiet) console.error(`${doc.blocks.length} trecho(s) · ${provider.label} · voz ${doc.settings.voice}`);
+  let lastLine = '';
+  const { blocks, report } = await renderBatch(doc, {
+    provider,
+    queue: options.queue,
+    chunking: options.chunking,
+    signal: controller.signal,
+    onProgress: progress => {
+      if (options.quiet) return;
+      const line = `[${progress.done + progress.failed + progress.cancelled}/${progress.total}] ${progress.done} ok, ${progress.failed} falha(s)${progress.cooldownUntil ? ' · aguardando limite de uso' : ''}`;
+      if (line !== lastLine) console.error(line);
+      lastLine = line;
+    },
+  });
+
+  await mkdir(options.out, { recursive: true });
+  const files = await encodeBatchOutputs(doc, blocks, provider.sampleRate, {
+    mode: options.output,
+    export: options.export,
+    processing: options.processing,
+  });
+  for (const file of files) {
+    await writeFile(path.join(options.out, file.name), Buffer.from(await file.data.arrayBuffer()));
+  }
+  await writeFile(path.join(options.out, 'report.json'), JSON.stringify({
+    input: options.input,
+    provider: provider.id,
+    model: provider.model,
+    settings: doc.settings,
+    files: files.map(f => f.name),
+    blocks: report,
+  }, null, 2));
+
+  printReport(report);
+  if (!options.quiet) console.error(`${files.length} arquivo(s) em ${path.resolve(options.out)}`);
+  return report.some(r => r.status === 'failed' || r.status === 'cancelled') ? EXIT_FAILED_BLOCKS : EXIT_OK;
+}
+
+run(process.argv.slice(2))
+  .then(code => process.exit(code))
+  .catch(err => {
+    console.error(`Erro: ${err.message}`);
+    if (err instanceof UsageError) console.error('Use --help para ver as opções.');
+    process.exit(err instanceof UsageError ? EXIT_USAGE : EXIT_FAILED_BLOCKS);
+  });
@@ -0,0 +1,94 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { DEFAULT_EXPORT_SETTINGS } from '../utils/encoders';
+import { DEFAULT_PROCESSING_SETTINGS } from '../utils/audioUtils';
+import { DEFAULT_CHUNKING_SETTINGS } from '../utils/chunking';
+import { UsageError, resolveCliOptions } from './options';
+
+let dir: string;
+const file = (name: string) => path.join(dir, name);
+
+beforeAll(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), 'tts-cli-'));
+  await writeFile(file('config.json'), JSON.stringify({
+    out: 'de-config',
+    output: 'single',
+    settings: { voice: 'Puck', speed: 1.2 },
+    export: { format: 'mp3', mp3Bitrate: 192 },
+    processing: { trimSilence: true },
+    chunking: { maxChars: 800 },
+    queue: { concurrency: 4 },
+  }));
+  await writeFile(file('presets.json'), JSON.stringify({ format: 'edson-tts-presets', version: 1, presets: [{ name: 'Lento', settings: { voice: 'Kore', speed: 0.8 } }] }));
+  await writeFile(file('quebrado.json'), '{');
+});
+
+afterAll(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe('resolveCliOptions', () => {
+  it('uses the defaults without a config file or flags', async () => {
+    const options = await resolveCliOptions(['roteiro.txt']);
+    expect(options).toMatchObject({
+      input: 'roteiro.txt',
+      out: 'saida',
+      output: 'both',
+      provider: 'gemini',
+      settings: {},
+      lexicon: [],
+      export: DEFAULT_EXPORT_SETTINGS,
+      processing: DEFAULT_PROCESSING_SETTINGS,
+      chunking: DEFAULT_CHUNKING_SETTINGS,
+      quiet: false,
+    });
+  });
+
+  it('layers the config file over the defaults and flags over the config', async () => {
+    const options = await resolveCliOptions(['roteiro.txt', '-c', file('config.json'), '--voice', 'Kore', '--format', 'flac', '--normalize', '-14', '--retries', '1']);
+    expect(options?.out).toBe('de-config');
+    expect(options?.output).toBe('single');
+    expect(options?.settings).toEqual({ voice: 'Kore', speed: 1.2 });
+    expect(options?.export).toEqual({ ...DEFAULT_EXPORT_SETTINGS, format: 'flac', mp3Bitrate: 192 });
+    expect(options?.processing).toEqual({ ...DEFAULT_PROCESSING_SETTINGS, trimSilence: true, normalize: true, targetLufs: -14 });
+    expect(options?.chunking).toEqual({ ...DEFAULT_CHUNKING_SETTINGS, maxChars: 800 });
+    expect(options?.queue).toEqual({ concurrency: 4, maxRetries: 1 });
+  });
+
+  it('applies a preset between the config settings and the voice flags', async () => {
+    const options = await resolveCliOptions(['roteiro.txt', '-c', file('config.json'), '--presets', file('presets.json'), '--preset', 'lento', '--speed', '1']);
+    expect(options?.settings).toMatchObject({ voice: 'Kore', speed: 1 });
+  });
+
+  it('returns null for --help', async () => {
+    expect(await resolveCliOptions(['--help'])).toBeNull();
+  });
+
+  it.each([
+    [['roteiro.txt', '--fps', '29.97'], '--fps deve ser 24 | 25 | 30 | 50 | 60'],
+    [['roteiro.txt', '--fps', 'trinta'], '--fps espera um número'],
+    [['roteiro.txt', '--format', 'ogg'], '--format deve ser'],
+    [['roteiro.txt', '--output', 'tudo'], '--output deve ser blocks | single | both'],
+    [['roteiro.txt', '--bit-depth', '20'], 'Resolução deve ser 16 ou 24 bits'],
+    [['roteiro.txt', '--sample-rate', '12345'], 'Taxa de amostragem deve ser'],
+    [['roteiro.txt', '--preset', 'Lento'], '--preset precisa de --presets'],
+    [['roteiro.txt', '--desconhecida'], 'Unknown option'],
+    [['a.txt', 'b.txt'], 'exatamente um arquivo'],
+    [[], 'exatamente um arquivo'],
+  ])('rejects %j with a usage error', async (argv, message) => {
+    const result = resolveCliOptions(argv);
+    await expect(result).rejects.toBeInstanceOf(UsageError);
+    await expect(result).rejects.toThrow(message);
+  });
+
+  it('reports unreadable and malformed config files as usage errors', async () => {
+    await expect(resolveCliOptions(['roteiro.txt', '-c', file('nada.json')])).rejects.toThrow('Não foi possível ler a configuração');
+    await expect(resolveCliOptions(['roteiro.txt', '-c', file('quebrado.json')])).rejects.toThrow('não é um JSON válido');
+  });
+
+  it('rejects an unknown preset, listing the available ones', async () => {
+    await expect(resolveCliOptions(['roteiro.txt', '--presets', file('presets.json'), '--preset', 'Rápido'])).rejects.toThrow('Disponíveis: Lento.');
+  });
+});
@@ -0,0 +1,292 @@
+import { readFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { v4 as uuidv4 } from 'uuid';
+import { ChunkingSettings, DEFAULT_SETTINGS, ExportFormat, ExportSettings, GlobalSettings, LexiconEntry, MixSettings, ProcessingSettings, SubtitleMode } from '../types';
+import { DEFAULT_EXPORT_SETTINGS, EXPORT_FORMATS, TIMELINE_FRAME_RATES, outputSettingsError } from '../utils/encoders';
+import { DEFAULT_PROCESSING_SETTINGS } from '../utils/audioUtils';
+import { DEFAULT_CHUNKING_SETTINGS } from '../utils/chunking';
+import { ScriptImportOptions, SplitMode } from '../utils/scriptImport';
+import { parsePresetsFile } from '../utils/presets';
+import { parseLexiconFile } from '../utils/lexicon';
+import { QueueConfig } from '../services/generationQueue';
+import { BatchOutputMode } from '../services/batchRender';
+
+export const USAGE = `Uso: npm run cli -- <roteiro.txt|.md|.srt|.vtt|project.json> [opções]
+
+Entrada e saída
+  -o, --out <pasta>          Pasta de saída (padrão: ./saida)
+  -c, --config <arquivo>     Configuração JSON (as opções abaixo sobrepõem o arquivo)
+      --output <modo>        blocks | single | both (padrão: both)
+      --format <formato>     wav | mp3 | flac (padrão: wav)
+      --mp3-bitrate <kbps>   Taxa do MP3 (padrão: 128)
+      --sample-rate <hz>     Taxa de amostragem da saída, ex. 44100 ou 48000 (padrão: a do motor)
+      --channels <n>         1 (mono) | 2 (estéreo) (padrão: 1)
+      --bit-depth <bits>     16 | 24, para wav e flac (padrão: 16)
+      --subtitles <modo>     none | block | sentence (legendas da faixa única)
+      --timeline             Gera EDL, FCPXML e lista de marcadores junto dos trechos
+      --fps <n>              Quadros por segundo da timeline (padrão: 30)
+      --split <modo>         paragraph | sentence | chars (roteiros de texto)
+      --max-chars <n>        Limite de caracteres por trecho
+      --chunk-chars <n>      Trechos maiores são gerados em partes deste tamanho
+
+Voz
+      --provider <id>        gemini | mock (padrão: gemini)
+      --api-key <chave>      Chave Gemini (padrão: GEMINI_API_KEY / API_KEY)
+      --presets <arquivo>    Presets exportados pelo app (JSON)
+      --preset <nome>        Preset a aplicar
+      --voice, --speed, --temperature, --style, --accent, --seed
+      --lexicon <arquivo>    Pronúncias exportadas pelo app (JSON)
+
+Montagem e fila
+      --pause <ms>           Pausa padrão entre trechos
+      --crossfade <ms>       Crossfade entre trechos sem pausa
+      --normalize <lufs>     Normaliza a loudness de cada trecho
+      --trim-silence         Corta silêncio no início e no fim dos trechos
+      --concurrency <n>      Gerações simultâneas
+      --retries <n>          Novas tentativas por trecho
+  -q, --quiet                Não mostra o progresso
+  -h, --help                 Mostra esta ajuda`;
+
+/**
+ * Shape of the --config file. Every field is optional; flags win over the file.
+ */
+export interface CliConfig {
+  out?: string;
+  output?: BatchOutputMode;
+  provider?: string;
+  apiKey?: string;
+  settings?: Partial<GlobalSettings>;
+  presets?: string;
+  preset?: string;
+  lexicon?: string | LexiconEntry[];
+  export?: Partial<ExportSettings>;
+  import?: Partial<ScriptImportOptions>;
+  mix?: Partial<MixSettings>;
+  processing?: Partial<ProcessingSettings>;
+  queue?: Partial<QueueConfig>;
+  chunking?: Partial<ChunkingSettings>;
+}
+
+export interface CliOptions {
+  input: string;
+  out: string;
+  output: BatchOutputMode;
+  provider: string;
+  apiKey?: string;
+  /** Applied on top of the input's own settings (a project.json keeps whatever is not overridden). */
+  settings: Partial<GlobalSettings>;
+  lexicon: LexiconEntry[];
+  export: ExportSettings;
+  import: Partial<ScriptImportOptions>;
+  mix: Partial<MixSettings>;
+  processing: ProcessingSettings;
+  queue: Partial<QueueConfig>;
+  chunking: ChunkingSettings;
+  quiet: boolean;
+}
+
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+const OUTPUT_MODES: BatchOutputMode[] = ['blocks', 'single', 'both'];
+const SUBTITLE_MODES: SubtitleMode[] = ['none', 'block', 'sentence'];
+const SPLIT_MODES: SplitMode[] = ['paragraph', 'sentence', 'chars'];
+
+function toNumber(flag: string, value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  if (!Number.isFinite(number)) throw new UsageError(`--${flag} espera um número, recebeu "${value}".`);
+  return number;
+}
+
+function oneOf<T extends string>(flag: string, value: string | undefined, allowed: readonly T[]): T | undefined {
+  if (value === undefined) return undefined;
+  if (!allowed.includes(value as T)) throw new UsageError(`--${flag} deve ser ${allowed.join(' | ')}, recebeu "${value}".`);
+  return value as T;
+}
+
+/** Drops undefined values so they don't erase lower-priority settings when spread. */
+function defined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
+
+async function readText(path: string, what: string): Promise<string> {
+  try {
+    return await readFile(path, 'utf8');
+  } catch (err: any) {
+    throw new UsageError(`Não foi possível ler ${what} "${path}": ${err.message}`);
+  }
+}
+
+async function readJson(path: string, what: string): Promise<any> {
+  const content = await readText(path, what);
+  try {
+    return JSON.parse(content);
+  } catch (err: any) {
+    throw new UsageError(`${what} "${path}" não é um JSON válido: ${err.message}`);
+  }
+}
+
+/**
+ * parseArgs takes "-14" after an option for another flag; negative numbers (LUFS, ...) are joined to the option instead.
+ */
+function joinNegativeValues(argv: string[]): string[] {
+  const result: string[] = [];
+  for (let i = 0; i < argv.length; i++) {
+    const next = argv[i + 1];
+    if (/^--[\w-]+$/.test(argv[i]) && next !== undefined && /^-\d/.test(next)) {
+      result.push(`${argv[i]}=${next}`);
+      i++;
+    } else {
+      result.push(argv[i]);
+    }
+  }
+  return result;
+}
+
+/**
+ * Resolves defaults < config file < flags. Returns null when only help was requested.
+ */
+export async function resolveCliOptions(argv: string[]): Promise<CliOptions | null> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: joinNegativeValues(argv),
+      allowPositionals: true,
+      options: {
+        out: { type: 'string', short: 'o' },
+        config: { type: 'string', short: 'c' },
+        output: { type: 'string' },
+        format: { type: 'string' },
+        'mp3-bitrate': { type: 'string' },
+        'sample-rate': { type: 'string' },
+        channels: { type: 'string' },
+        'bit-depth': { type: 'string' },
+        subtitles: { type: 'string' },
+        timeline: { type: 'boolean' },
+        fps: { type: 'string' },
+        split: { type: 'string' },
+        'max-chars': { type: 'string' },
+        'chunk-chars': { type: 'string' },
+        provider: { type: 'string' },
+        'api-key': { type: 'string' },
+        presets: { type: 'string' },
+        preset: { type: 'string' },
+        voice: { type: 'string' },
+        speed: { type: 'string' },
+        temperature: { type: 'string' },
+        style: { type: 'string' },
+        accent: { type: 'string' },
+        seed: { type: 'string' },
+        lexicon: { type: 'string' },
+        pause: { type: 'string' },
+        crossfade: { type: 'string' },
+        normalize: { type: 'string' },
+        'trim-silence': { type: 'boolean' },
+        concurrency: { type: 'string' },
+        retries: { type: 'string' },
+        quiet: { type: 'boolean', short: 'q' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+  } catch (err: any) {
+    throw new UsageError(err.message);
+  }
+  const { values: flags, positionals } = parsed;
+  if (flags.help) return null;
+  if (positionals.length !== 1) throw new UsageError('Informe exatamente um arquivo de entrada.');
+
+  const config: CliConfig = flags.config ? await readJson(flags.config, 'a configuração') : {};
+
+  let settings: Partial<GlobalSettings> = { ...config.settings };
+  const presetName = flags.preset ?? config.preset;
+  const presetsPath = flags.presets ?? config.presets;
+  if (presetName) {
+    if (!presetsPath) throw new UsageError('--preset precisa de --presets <arquivo>.');
+    const presets = parsePresetsFile(await readText(presetsPath, 'os presets'), DEFAULT_SETTINGS, [], uuidv4);
+    const preset = presets.find(p => p.name.toLowerCase() === presetName.toLowerCase());
+    if (!preset) throw new UsageError(`Preset "${presetName}" não encontrado. Disponíveis: ${presets.map(p => p.name).join(', ') || 'nenhum'}.`);
+    settings = { ...settings, ...preset.settings };
+  }
+  settings = {
+    ...settings,
+    ...defined({
+      voice: flags.voice,
+      speed: toNumber('speed', flags.speed),
+      temperature: toNumber('temperature', flags.temperature),
+      style: flags.style,
+      accent: flags.accent,
+      seed: toNumber('seed', flags.seed),
+    }),
+  };
+
+  const lexiconSource = flags.lexicon ?? config.lexicon;
+  let lexicon: LexiconEntry[] = [];
+  if (typeof lexiconSource === 'string') {
+    lexicon = parseLexiconFile(await readText(lexiconSource, 'o léxico'), uuidv4);
+  } else if (Array.isArray(lexiconSource)) {
+    lexicon = lexiconSource.map(entry => ({ ...entry, id: entry.id ?? uuidv4() }));
+  }
+
+  const exportSettings: ExportSettings = {
+    ...DEFAULT_EXPORT_SETTINGS,
+    ...config.export,
+    ...defined({
+      format: oneOf<ExportFormat>('format', flags.format, Object.keys(EXPORT_FORMATS) as ExportFormat[]),
+      mp3Bitrate: toNumber('mp3-bitrate', flags['mp3-bitrate']),
+      sampleRate: toNumber('sample-rate', flags['sample-rate']),
+      channels: toNumber('channels', flags.channels),
+      bitDepth: toNumber('bit-depth', flags['bit-depth']),
+      subtitleMode: oneOf('subtitles', flags.subtitles, SUBTITLE_MODES),
+      timelineFrameRate: toNumber('fps', flags.fps),
+    }),
+    ...(flags.timeline ? { timeline: true } : {}),
+  };
+  if (!TIMELINE_FRAME_RATES.includes(exportSettings.timelineFrameRate)) {
+    throw new UsageError(`--fps deve ser ${TIMELINE_FRAME_RATES.join(' | ')}, recebeu "${exportSettings.timelineFrameRate}".`);
+  }
+  const outputError = outputSettingsError(exportSettings);
+  if (outputError) throw new UsageError(outputError);
+
+  const normalize = toNumber('normalize', flags.normalize);
+  const processing: ProcessingSettings = {
+    ...DEFAULT_PROCESSING_SETTINGS,
+    ...config.processing,
+    ...(normalize !== undefined ? { normalize: true, targetLufs: normalize } : {}),
+    ...(flags['trim-silence'] ? { trimSilence: true } : {}),
+  };
+
+  return {
+    input: positionals[0],
+    out: flags.out ?? config.out ?? 'saida',
+    output: oneOf('output', flags.output, OUTPUT_MODES) ?? config.output ?? 'both',
+    provider: flags.provider ?? config.provider ?? 'gemini',
+    apiKey: flags['api-key'] ?? config.apiKey ?? process.env.GEMINI_API_KEY ?? process.env.API_KEY,
+    settings,
+    lexicon,
+    export: exportSettings,
+    import: {
+      ...config.import,
+      ...defined({ mode: oneOf('split', flags.split, SPLIT_MODES), maxChars: toNumber('max-chars', flags['max-chars']) }),
+    },
+    mix: {
+      ...config.mix,
+      ...defined({ defaultPauseMs: toNumber('pause', flags.pause), crossfadeMs: toNumber('crossfade', flags.crossfade) }),
+    },
+    processing,
+    queue: {
+      ...config.queue,
+      ...defined({ concurrency: toNumber('concurrency', flags.concurrency), maxRetries: toNumber('retries', flags.retries) }),
+    },
+    chunking: {
+      ...DEFAULT_CHUNKING_SETTINGS,
+      ...config.chunking,
+      ...defined({ maxChars: toNumber('chunk-chars', flags['chunk-chars']) }),
+    },
+    quiet: !!flags.quiet,
+  };
+}
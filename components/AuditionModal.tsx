@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { GlobalSettings, TTSProvider, VoicePreset } from '../types';
+import { synthesizeWithCache } from '../services/audioCache';
+import { RequestUsage } from '../services/usageLog';
+
+interface Props {
+  provider: TTSProvider;
+  settings: GlobalSettings;
+  presets: VoicePreset[];
+  onPlay: (pcmData: Uint8Array) => void;
+  onApply: (settings: GlobalSettings) => void;
+  onClose: () => void;
+  onRequest?: (usage: RequestUsage) => void;
+}
+
+interface Take {
+  status: 'loading' | 'ready' | 'error';
+  pcmData?: Uint8Array;
+  error?: string;
+}
+
+const MIN_SLOTS = 2;
+const MAX_SLOTS = 4;
+const SLOT_LABELS = ['A', 'B', 'C', 'D'];
+const DEFAULT_SENTENCE = 'Olá! Esta é a mesma frase lida com configurações diferentes. Qual soa melhor?';
+
+/**
+ * Renders one sentence with 2–4 presets or voices so they can be compared back to back.
+ * Slots are "current", "preset:<id>" or "voice:<name>".
+ */
+export default function AuditionModal({ provider, settings, presets, onPlay, onApply, onClose, onRequest }: Props) {
+  const [text, setText] = useState(DEFAULT_SENTENCE);
+  const [slots, setSlots] = useState<string[]>(() => [
+    'current',
+    presets[0] ? `preset:${presets[0].id}` : `voice:${provider.voices.find(v => v !== settings.voice) ?? settings.voice}`,
+  ]);
+  const [takes, setTakes] = useState<Record<number, Take>>({});
+
+  const resolveSlot = (slot: string): GlobalSettings => {
+    if (slot.startsWith('preset:')) return presets.find(p => p.id === slot.slice(7))?.settings ?? settings;
+    if (slot.startsWith('voice:')) return { ...settings, voice: slot.slice(6) };
+    return settings;
+  };
+
+  const updateSlot = (index: number, slot: string) => {
+    setSlots(slots.map((s, i) => i === index ? slot : s));
+    setTakes(prev => {
+      const next = { ...prev };
+      delete next[index];
+      return next;
+    });
+  };
+
+  const render = async (index: number) => {
+    setTakes(prev => ({ ...prev, [index]: { status: 'loading' } }));
+    try {
+      const pcmData = await synthesizeWithCache(provider, text, resolveSlot(slots[index]), undefined, false, onRequest);
+      setTakes(prev => ({ ...prev, [index]: { status: 'ready', pcmData } }));
+      return pcmData;
+    } catch (err: any) {
+      setTakes(prev => ({ ...prev, [index]: { status: 'error', error: err?.message || 'Falha na geração.' } }));
+      return undefined;
+    }
+  };
+
+  // Gera uma versão por vez para não disparar o limite de requisições do provedor.
+  const renderAll = async () => {
+    for (let i = 0; i < slots.length; i++) await render(i);
+  };
+
+  const play = async (index: number) => {
+    const take = takes[index];
+    const pcmData = take?.status === 'ready' ? take.pcmData : await render(index);
+    if (pcmData) onPlay(pcmData);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[90] flex items-center justify-center bg-black/70 p-4" onClick={onClose}>
+      <div className="glass-card w-full max-w-3xl max-h-[90vh] overflow-y-auto rounded-[2rem] p-6 space-y-4" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h2 className="text-sm font-black flex items-center gap-2 text-white/80 uppercase tracking-widest">
+            <i className="fa-solid fa-code-compare text-pink-500"></i> Comparar Vozes
+          </h2>
+          <button onClick={onClose} className="text-white/40 hover:text-white"><i className="fa-solid fa-xmark"></i></button>
+        </div>
+
+        <textarea
+          value={text}
+          onChange={(e) => { setText(e.target.value); setTakes({}); }}
+          placeholder="Frase de teste..."
+          className="w-full h-24 bg-black/40 border border-white/10 rounded-xl px-4 py-3 text-sm outline-none focus:border-pink-500/50 resize-none placeholder:text-white/20 text-white"
+        />
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {slots.map((slot, index) => {
+            const take = takes[index];
+            const resolved = resolveSlot(slot);
+            return (
+              <div key={index} className="bg-black/30 border border-white/10 rounded-xl p-3 space-y-2">
+                <div className="flex items-center gap-2">
+                  <span className="w-6 h-6 rounded-full bg-pink-500/20 text-pink-300 text-[10px] font-black flex items-center justify-center shrink-0">{SLOT_LABELS[index]}</span>
+                  <select value={slot} onChange={(e) => updateSlot(index, e.target.value)} className="flex-1 min-w-0 bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-xs outline-none appearance-none text-white">
+                    <option value="current" className="bg-slate-950">Parâmetros atuais</option>
+                    {presets.length > 0 && (
+                      <optgroup label="Presets" className="bg-slate-950">
+                        {presets.map(p => <option key={p.id} value={`preset:${p.id}`} className="bg-slate-950">{p.name}</option>)}
+                      </optgroup>
+                    )}
+                    <optgroup label="Vozes" className="bg-slate-950">
+                      {provider.voices.map(v => <option key={v} value={`voice:${v}`} className="bg-slate-950">{v}</option>)}
+                    </optgroup>
+                  </select>
+                  {slots.length > MIN_SLOTS && (
+                    <button onClick={() => { setSlots(slots.filter((_, i) => i !== index)); setTakes({}); }} className="text-red-500/40 hover:text-red-500 text-xs px-1"><i className="fa-solid fa-xmark"></i></button>
+                  )}
+                </div>
+                <div className="text-[9px] text-white/30 font-mono truncate">{resolved.voice} · {resolved.speed.toFixed(2)}x · {resolved.style || 'sem estilo'}</div>
+                {take?.status === 'error' && <div className="text-[9px] text-red-400">{take.error}</div>}
+                <div className="flex gap-2">
+                  <button disabled={!text.trim() || take?.status === 'loading'} onClick={() => play(index)} className="glass-btn flex-1 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest text-pink-300 disabled:opacity-30">
+                    <i className={`fa-solid ${take?.status === 'loading' ? 'fa-circle-notch animate-spin' : 'fa-play'} mr-1`}></i> Ouvir {SLOT_LABELS[index]}
+                  </button>
+                  <button onClick={() => { onApply(resolved); onClose(); }} className="glass-btn px-3 py-2 rounded-lg text-[10px] font-black uppercase tracking-widest text-white/60 hover:text-white">
+                    <i className="fa-solid fa-check mr-1"></i> Usar
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex gap-2">
+          <button disabled={slots.length >= MAX_SLOTS} onClick={() => setSlots([...slots, 'current'])} className="glass-btn flex-1 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest text-white/60 disabled:opacity-30">
+            <i className="fa-solid fa-plus mr-1"></i> Adicionar opção
+          </button>
+          <button disabled={!text.trim()} onClick={renderAll} className="glass-btn flex-1 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest text-pink-300 disabled:opacity-30">
+            <i className="fa-solid fa-wand-sparkles mr-1"></i> Gerar todas
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+import React from 'react';
+import { TTSErrorKind } from '../types';
+
+type ErrorAction = 'retry' | 'key' | 'voice' | 'text';
+
+interface Props {
+  kind: TTSErrorKind;
+  message: string;
+  onRetry: () => void;
+  /** Omitted when the key can't be changed from the app (outside AI Studio). */
+  onChangeKey?: () => void;
+  onEditVoice: () => void;
+  onEditText: () => void;
+}
+
+const ERROR_INFO: Record<TTSErrorKind, { icon: string; title: string; hint: string; action: ErrorAction }> = {
+  auth: { icon: 'fa-key', title: 'Chave de API recusada', hint: 'Verifique se a chave é válida, tem acesso ao modelo e faturamento ativo.', action: 'key' },
+  quota: { icon: 'fa-gauge-high', title: 'Limite de uso atingido', hint: 'Aguarde um pouco ou reduza as gerações simultâneas.', action: 'retry' },
+  safety: { icon: 'fa-shield-halved', title: 'Bloqueado pelo filtro de segurança', hint: 'Reescreva o trecho evitando o conteúdo sinalizado.', action: 'text' },
+  'empty-audio': { icon: 'fa-volume-xmark', title: 'O modelo não devolveu áudio', hint: 'Acontece de vez em quando: uma nova tentativa costuma resolver.', action: 'retry' },
+  network: { icon: 'fa-wifi', title: 'Sem conexão', hint: 'Verifique a internet e tente de novo.', action: 'retry' },
+  'invalid-voice': { icon: 'fa-user-slash', title: 'Voz inválida', hint: 'Escolha outra voz para este trecho.', action: 'voice' },
+  'text-too-long': { icon: 'fa-scissors', title: 'Texto longo demais', hint: 'Divida o trecho em partes menores.', action: 'text' },
+  server: { icon: 'fa-server', title: 'Falha no serviço', hint: 'O motor está instável. Tente de novo em instantes.', action: 'retry' },
+  markup: { icon: 'fa-code', title: 'Marcação inválida', hint: 'Corrija as tags indicadas abaixo do texto.', action: 'text' },
+  unknown: { icon: 'fa-triangle-exclamation', title: 'Erro inesperado', hint: 'Tente de novo; se persistir, verifique sua chave e saldo no Google Cloud.', action: 'retry' },
+};
+
+const ACTION_LABELS: Record<ErrorAction, { icon: string; label: string }> = {
+  retry: { icon: 'fa-rotate-right', label: 'Tentar de novo' },
+  key: { icon: 'fa-key', label: 'Trocar chave' },
+  voice: { icon: 'fa-sliders', label: 'Ajustar voz' },
+  text: { icon: 'fa-pen', label: 'Editar texto' },
+};
+
+/**
+ * Explains why a block failed and offers the one action that fixes that kind of failure.
+ */
+export default function BlockErrorNotice({ kind, message, onRetry, onChangeKey, onEditVoice, onEditText }: Props) {
+  const info = ERROR_INFO[kind];
+  const handlers: Record<ErrorAction, (() => void) | undefined> = { retry: onRetry, key: onChangeKey, voice: onEditVoice, text: onEditText };
+  const handler = handlers[info.action];
+  const action = ACTION_LABELS[info.action];
+
+  return (
+    <div className="bg-red-500/10 border border-red-500/30 rounded-xl px-3 py-2 flex items-center gap-3">
+      <i className={`fa-solid ${info.icon} text-red-400 text-sm shrink-0`}></i>
+      <div className="flex-1 min-w-0">
+        <span className="block text-[10px] text-red-300 font-black uppercase tracking-widest">{info.title}</span>
+        <span className="block text-[10px] text-white/50">{message} {info.hint}</span>
+      </div>
+      {handler && (
+        <button onClick={handler} className="shrink-0 text-[9px] px-3 py-1 rounded-full bg-red-500/10 border border-red-500/30 hover:bg-red-500/20 text-red-200 font-bold uppercase tracking-tighter">
+          <i className={`fa-solid ${action.icon} mr-1`}></i> {action.label}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import React, { useEffect, useState } from 'react';
+import { CacheStats, clearAudioCache, getCacheStats, setCacheLimitMb } from '../services/audioCache';
+
+const LIMIT_OPTIONS_MB = [50, 100, 200, 500, 1000];
+
+function formatBytes(bytes: number) {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+interface Props {
+  refreshKey: number;
+}
+
+export default function CachePanel({ refreshKey }: Props) {
+  const [stats, setStats] = useState<CacheStats | null>(null);
+
+  const refresh = () => getCacheStats().then(setStats).catch(() => setStats(null));
+
+  useEffect(() => {
+    refresh();
+  }, [refreshKey]);
+
+  if (!stats) return null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between items-end">
+        <label className="text-[10px] font-bold text-white/40 uppercase tracking-widest">Cache de Áudio</label>
+        <span className="text-[9px] text-white/40 font-mono">{stats.entries} itens · {formatBytes(stats.bytes)}</span>
+      </div>
+      <div className="h-1 bg-white/10 rounded-full overflow-hidden">
+        <div className="h-full bg-pink-500/70" style={{ width: `${Math.min(100, (stats.bytes / stats.limitBytes) * 100)}%` }}></div>
+      </div>
+      <div className="flex gap-2">
+        <select
+          value={Math.round(stats.limitBytes / 1024 / 1024)}
+          onChange={async (e) => { await setCacheLimitMb(Number(e.target.value)); refresh(); }}
+          className="flex-1 bg-black/40 border border-white/10 rounded-xl px-3 py-2 text-xs outline-none appearance-none text-white/70"
+        >
+          {LIMIT_OPTIONS_MB.map(mb => <option key={mb} value={mb} className="bg-slate-950">Limite: {mb >= 1000 ? `${mb / 1000} GB` : `${mb} MB`}</option>)}
+        </select>
+        <button
+          onClick={async () => { if (confirm('Limpar todo o cache de áudio?')) { await clearAudioCache(); refresh(); } }}
+          className="glass-btn px-4 rounded-xl text-[10px] font-bold uppercase tracking-widest text-red-400/80"
+        >
+          <i className="fa-solid fa-broom mr-1"></i> Limpar
+        </button>
+      </div>
+    </div>
+  );
+}
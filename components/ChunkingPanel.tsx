@@ -0,0 +1,38 @@
+import React from 'react';
+import { ChunkingSettings } from '../types';
+import { CHARS_PER_SECOND } from '../utils/chunking';
+
+interface Props {
+  value: ChunkingSettings;
+  onChange: (value: ChunkingSettings) => void;
+}
+
+const labelClass = "text-[10px] font-bold text-white/40 uppercase tracking-widest";
+const rangeClass = "w-full accent-pink-500 h-1 bg-white/10 rounded-full appearance-none cursor-pointer";
+
+/**
+ * Sidebar controls for splitting long blocks into several requests.
+ */
+export default function ChunkingPanel({ value, onChange }: Props) {
+  const set = <K extends keyof ChunkingSettings>(key: K, v: ChunkingSettings[K]) => onChange({ ...value, [key]: v });
+
+  return (
+    <div className="space-y-4">
+      <label className="flex items-center justify-between cursor-pointer">
+        <span className={labelClass}>Dividir trechos longos</span>
+        <input type="checkbox" checked={value.enabled} onChange={(e) => set('enabled', e.target.checked)} className="accent-pink-500" />
+      </label>
+      {value.enabled && (
+        <div className="space-y-2">
+          <div className="flex justify-between text-[9px] text-white/40"><span>Máximo por parte</span><span className="font-mono text-pink-400">{value.maxChars} caracteres</span></div>
+          <input type="range" min="200" max="5000" step="100" value={value.maxChars} onChange={(e) => set('maxChars', parseInt(e.target.value))} className={rangeClass} />
+          <div className="flex justify-between text-[9px] text-white/40"><span>Duração estimada</span><span className="font-mono text-pink-400">{value.maxSeconds} s</span></div>
+          <input type="range" min="15" max="300" step="15" value={value.maxSeconds} onChange={(e) => set('maxSeconds', parseInt(e.target.value))} className={rangeClass} />
+          <div className="flex justify-between text-[9px] text-white/40"><span>Pausa na emenda</span><span className="font-mono text-pink-400">{value.gapMs} ms</span></div>
+          <input type="range" min="0" max="1000" step="10" value={value.gapMs} onChange={(e) => set('gapMs', parseInt(e.target.value))} className={rangeClass} />
+          <p className="text-[9px] text-white/30">O texto é cortado entre frases, com a mesma voz e seed em todas as partes. A duração é estimada em ~{CHARS_PER_SECOND} caracteres por segundo no ritmo 1x.</p>
+        </div>
+      )}
+    </div>
+  );
+}
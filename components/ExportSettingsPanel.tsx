@@ -0,0 +1,84 @@
+import React, { useEffect, useState } from 'react';
+import { ExportFormat, ExportSettings, SubtitleMode } from '../types';
+import { EXPORT_FORMATS, MP3_BITRATES, OPUS_BITRATES, OUTPUT_BIT_DEPTHS, OUTPUT_SAMPLE_RATES, TIMELINE_FRAME_RATES, isOpusEncodingSupported, resolveOutputFormat } from '../utils/encoders';
+
+interface Props {
+  value: ExportSettings;
+  /** Rate the provider generates at, kept when the sample rate is "Original". */
+  sourceSampleRate: number;
+  onChange: (value: ExportSettings) => void;
+}
+
+export default function ExportSettingsPanel({ value, sourceSampleRate, onChange }: Props) {
+  const [opusSupported, setOpusSupported] = useState(false);
+
+  useEffect(() => {
+    isOpusEncodingSupported().then(setOpusSupported);
+  }, []);
+
+  const bitrates = value.format === 'mp3' ? MP3_BITRATES : value.format === 'opus' ? OPUS_BITRATES : null;
+  const bitrate = value.format === 'mp3' ? value.mp3Bitrate : value.opusBitrate;
+  const output = resolveOutputFormat(value, sourceSampleRate);
+  const hasBitDepth = value.format === 'wav' || value.format === 'flac';
+  const khz = (rate: number) => `${(rate / 1000).toLocaleString('pt-BR')} kHz`;
+  const smallSelect = "flex-1 min-w-0 bg-black/40 border border-white/10 rounded-xl px-3 py-2 text-xs outline-none focus:border-pink-500/50 appearance-none text-white/70 disabled:opacity-40";
+
+  return (
+    <div className="space-y-2">
+      <label className="text-[10px] font-bold text-white/40 uppercase tracking-widest">Formato de Exportação</label>
+      <div className="flex gap-2">
+        <select value={value.format} onChange={(e) => onChange({ ...value, format: e.target.value as ExportFormat })} className="flex-1 bg-black/40 border border-white/10 rounded-xl px-4 py-3 text-sm outline-none focus:border-pink-500/50 appearance-none text-white">
+          {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(f => (
+            <option key={f} value={f} disabled={f === 'opus' && !opusSupported} className="bg-slate-950">
+              {EXPORT_FORMATS[f].label}{f === 'opus' && !opusSupported ? ' (indisponível)' : ''}
+            </option>
+          ))}
+        </select>
+        {bitrates && (
+          <select
+            value={bitrate}
+            onChange={(e) => onChange(value.format === 'mp3' ? { ...value, mp3Bitrate: Number(e.target.value) } : { ...value, opusBitrate: Number(e.target.value) })}
+            className="w-28 bg-black/40 border border-white/10 rounded-xl px-3 py-3 text-sm outline-none focus:border-pink-500/50 appearance-none text-white"
+          >
+            {bitrates.map(b => <option key={b} value={b} className="bg-slate-950">{b} kbps</option>)}
+          </select>
+        )}
+      </div>
+      <div className="flex gap-2">
+        <select value={value.format === 'opus' ? 48000 : value.sampleRate} disabled={value.format === 'opus'} onChange={(e) => onChange({ ...value, sampleRate: Number(e.target.value) })} title="Taxa de amostragem" className={smallSelect}>
+          <option value={0} className="bg-slate-950">Original ({khz(sourceSampleRate)})</option>
+          {OUTPUT_SAMPLE_RATES.map(rate => <option key={rate} value={rate} className="bg-slate-950">{khz(rate)}</option>)}
+        </select>
+        <select value={value.channels} onChange={(e) => onChange({ ...value, channels: Number(e.target.value) })} title="Canais" className={smallSelect}>
+          <option value={1} className="bg-slate-950">Mono</option>
+          <option value={2} className="bg-slate-950">Estéreo</option>
+        </select>
+        <select value={hasBitDepth ? value.bitDepth : 16} disabled={!hasBitDepth} onChange={(e) => onChange({ ...value, bitDepth: Number(e.target.value) })} title="Resolução" className={smallSelect}>
+          {OUTPUT_BIT_DEPTHS.map(bits => <option key={bits} value={bits} className="bg-slate-950">{bits} bits</option>)}
+        </select>
+      </div>
+      {output.sampleRate !== sourceSampleRate && (
+        <p className="text-[9px] text-white/30">O áudio é gerado em {khz(sourceSampleRate)} e convertido para {khz(output.sampleRate)} na exportação.</p>
+      )}
+      {value.format === 'mp3' && output.sampleRate < 32000 && value.mp3Bitrate > 160 && (
+        <p className="text-[9px] text-white/30">Áudio abaixo de 32 kHz é limitado a 160 kbps no MP3.</p>
+      )}
+      <select value={value.subtitleMode} onChange={(e) => onChange({ ...value, subtitleMode: e.target.value as SubtitleMode })} className="w-full bg-black/40 border border-white/10 rounded-xl px-4 py-2 text-xs outline-none focus:border-pink-500/50 appearance-none text-white/70">
+        <option value="none" className="bg-slate-950">Faixa Única sem legendas</option>
+        <option value="block" className="bg-slate-950">Legendas SRT + VTT: uma por trecho</option>
+        <option value="sentence" className="bg-slate-950">Legendas SRT + VTT: uma por frase</option>
+      </select>
+      <div className="flex gap-2 items-center">
+        <label className="flex-1 flex items-center gap-2 text-[10px] text-white/50 cursor-pointer">
+          <input type="checkbox" checked={value.timeline} onChange={(e) => onChange({ ...value, timeline: e.target.checked })} className="accent-pink-500" />
+          Timeline no ZIP (EDL, FCPXML, marcadores)
+        </label>
+        {value.timeline && (
+          <select value={value.timelineFrameRate} onChange={(e) => onChange({ ...value, timelineFrameRate: Number(e.target.value) })} className="w-24 bg-black/40 border border-white/10 rounded-xl px-3 py-2 text-xs outline-none focus:border-pink-500/50 appearance-none text-white/70">
+            {TIMELINE_FRAME_RATES.map(fps => <option key={fps} value={fps} className="bg-slate-950">{fps} fps</option>)}
+          </select>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+import React, { useRef, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { LexiconEntry } from '../types';
+import { applyLexicon, validateEntry } from '../utils/lexicon';
+
+type Scope = 'project' | 'global';
+
+interface Props {
+  projectEntries: LexiconEntry[];
+  globalEntries: LexiconEntry[];
+  onChange: (scope: Scope, entries: LexiconEntry[]) => void;
+  onHear: (text: string) => void;
+  onExport: (scope: Scope) => void;
+  onImport: (scope: Scope, file: File) => void;
+}
+
+const SCOPE_LABELS: Record<Scope, string> = { project: 'Projeto', global: 'Global' };
+
+const FLAGS: { key: 'wholeWord' | 'caseSensitive' | 'regex'; label: string; title: string }[] = [
+  { key: 'wholeWord', label: 'Palavra', title: 'Só palavras inteiras' },
+  { key: 'caseSensitive', label: 'Aa', title: 'Diferenciar maiúsculas de minúsculas' },
+  { key: 'regex', label: '.*', title: 'Expressão regular ($1, $2... na pronúncia)' },
+];
+
+/**
+ * Word → spoken form rules applied to block text before synthesis. Project rules run before global ones.
+ */
+export default function LexiconPanel({ projectEntries, globalEntries, onChange, onHear, onExport, onImport }: Props) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [scope, setScope] = useState<Scope>('project');
+  const [sample, setSample] = useState('');
+  const entries = scope === 'project' ? projectEntries : globalEntries;
+
+  const update = (id: string, patch: Partial<LexiconEntry>) => {
+    onChange(scope, entries.map(e => e.id === id ? { ...e, ...patch } : e));
+  };
+
+  const add = () => {
+    onChange(scope, [...entries, { id: uuidv4(), term: '', replacement: '', wholeWord: true, caseSensitive: false, regex: false }]);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center">
+        <label className="text-[10px] font-bold text-white/40 uppercase tracking-widest">Pronúncias</label>
+        <div className="flex bg-black/40 border border-white/10 rounded-full p-0.5">
+          {(Object.keys(SCOPE_LABELS) as Scope[]).map(s => (
+            <button key={s} onClick={() => setScope(s)} className={`text-[9px] px-3 py-0.5 rounded-full font-bold uppercase tracking-tighter ${scope === s ? 'bg-pink-500/30 text-pink-200' : 'text-white/40'}`}>
+              {SCOPE_LABELS[s]}
+            </button>
+          ))}
+        </div>
+      </div>
+      {entries.length === 0 && (
+        <p className="text-[10px] text-white/30">
+          {scope === 'project' ? 'Regras só deste projeto, ex.: "SQL" → "ésse quê éle".' : 'Regras usadas em todos os projetos deste navegador.'}
+        </p>
+      )}
+      {entries.map(entry => {
+        const issue = entry.term ? validateEntry(entry) : undefined;
+        return (
+          <div key={entry.id} className={`bg-black/30 border rounded-xl p-2 space-y-2 ${issue ? 'border-red-500/40' : 'border-white/10'}`}>
+            <div className="flex items-center gap-1">
+              <input type="text" value={entry.term} onChange={(e) => update(entry.id, { term: e.target.value })} placeholder="Termo" className="flex-1 min-w-0 bg-black/40 border border-white/10 rounded-lg px-2 py-1 text-xs outline-none text-white font-mono" />
+              <i className="fa-solid fa-arrow-right text-[9px] text-white/30"></i>
+              <input type="text" value={entry.replacement} onChange={(e) => update(entry.id, { replacement: e.target.value })} placeholder="Pronúncia" className="flex-1 min-w-0 bg-black/40 border border-white/10 rounded-lg px-2 py-1 text-xs outline-none text-white" />
+            </div>
+            <div className="flex items-center gap-1">
+              {FLAGS.map(flag => (
+                <button key={flag.key} title={flag.title} onClick={() => update(entry.id, { [flag.key]: !entry[flag.key] })} className={`text-[9px] px-2 py-0.5 rounded-md border font-mono font-bold ${entry[flag.key] ? 'border-pink-500/50 text-pink-300 bg-pink-500/10' : 'border-white/10 text-white/30'}`}>
+                  {flag.label}
+                </button>
+              ))}
+              <span className="flex-1"></span>
+              <button disabled={!entry.replacement.trim()} onClick={() => onHear(entry.replacement)} title="Ouvir pronúncia" className="text-pink-400/70 hover:text-pink-300 disabled:opacity-30 text-xs px-1"><i className="fa-solid fa-volume-high"></i></button>
+              <button onClick={() => onChange(scope, entries.filter(e => e.id !== entry.id))} title="Excluir" className="text-red-500/40 hover:text-red-500 text-xs px-1"><i className="fa-solid fa-trash-can"></i></button>
+            </div>
+            {issue && <div className="text-[9px] text-red-400">{issue}</div>}
+          </div>
+        );
+      })}
+      <div className="grid grid-cols-3 gap-2">
+        <button onClick={add} className="glass-btn py-2 rounded-xl text-[9px] font-bold uppercase tracking-widest text-pink-300"><i className="fa-solid fa-plus mr-1"></i> Regra</button>
+        <button disabled={entries.length === 0} onClick={() => onExport(scope)} className="glass-btn py-2 rounded-xl text-[9px] font-bold uppercase tracking-widest text-pink-300 disabled:opacity-30"><i className="fa-solid fa-file-export mr-1"></i> JSON</button>
+        <button onClick={() => fileInputRef.current?.click()} className="glass-btn py-2 rounded-xl text-[9px] font-bold uppercase tracking-widest text-pink-300"><i className="fa-solid fa-file-arrow-up mr-1"></i> JSON</button>
+      </div>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,application/json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) onImport(scope, file);
+          e.target.value = '';
+        }}
+      />
+      <div className="space-y-1">
+        <textarea value={sample} onChange={(e) => setSample(e.target.value)} placeholder="Teste as regras: digite um texto..." className="w-full h-16 bg-black/40 border border-white/10 rounded-xl px-3 py-2 text-xs outline-none focus:border-pink-500/50 resize-none placeholder:text-white/20 text-white" />
+        {sample.trim() && (
+          <div className="flex items-start gap-2 bg-black/30 border border-white/10 rounded-xl px-3 py-2">
+            <p className="flex-1 text-xs text-pink-200 whitespace-pre-wrap">{applyLexicon(sample, [...projectEntries, ...globalEntries])}</p>
+            <button onClick={() => onHear(applyLexicon(sample, [...projectEntries, ...globalEntries]))} title="Ouvir" className="text-pink-400/70 hover:text-pink-300 text-xs"><i className="fa-solid fa-volume-high"></i></button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import React, { useRef, useState } from 'react';
+import { MixSettings, MusicBed } from '../types';
+
+interface Props {
+  value: MixSettings;
+  music?: MusicBed;
+  onChange: (value: MixSettings) => void;
+  onLoadMusic: (file: File) => Promise<void>;
+  onRemoveMusic: () => void;
+}
+
+const rangeClass = "w-full accent-pink-500 h-1 bg-white/10 rounded-full appearance-none cursor-pointer";
+
+function Slider({ label, unit, min, max, step, value, onChange }: { label: string; unit: string; min: number; max: number; step: number; value: number; onChange: (v: number) => void }) {
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-[9px] text-white/40"><span>{label}</span><span className="font-mono text-pink-400">{value} {unit}</span></div>
+      <input type="range" min={min} max={max} step={step} value={value} onChange={(e) => onChange(parseFloat(e.target.value))} className={rangeClass} />
+    </div>
+  );
+}
+
+/**
+ * Single-track assembly: default pause, crossfade and the ducked background music bed.
+ */
+export default function MixPanel({ value, music, onChange, onLoadMusic, onRemoveMusic }: Props) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const set = <K extends keyof MixSettings>(key: K, v: MixSettings[K]) => onChange({ ...value, [key]: v });
+
+  const loadMusic = async (file: File) => {
+    setIsLoading(true);
+    try {
+      await onLoadMusic(file);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <label className="text-[10px] font-bold text-white/40 uppercase tracking-widest">Montagem da Faixa Única</label>
+      <div className="grid grid-cols-2 gap-3">
+        <Slider label="Pausa padrão" unit="ms" min={0} max={3000} step={50} value={value.defaultPauseMs} onChange={(v) => set('defaultPauseMs', v)} />
+        <Slider label="Crossfade" unit="ms" min={0} max={1000} step={10} value={value.crossfadeMs} onChange={(v) => set('crossfadeMs', v)} />
+      </div>
+      {value.crossfadeMs > 0 && <p className="text-[9px] text-white/30">O crossfade é aplicado entre trechos sem pausa.</p>}
+
+      <div className="bg-black/30 border border-white/10 rounded-xl p-3 space-y-3">
+        <div className="flex items-center gap-2">
+          <i className="fa-solid fa-music text-pink-400 text-xs"></i>
+          <span className="flex-1 min-w-0 truncate text-xs text-white/70">{music ? music.name : 'Sem música de fundo'}</span>
+          <button onClick={() => fileInputRef.current?.click()} disabled={isLoading} className="text-[9px] px-3 py-1 rounded-full bg-pink-500/10 border border-pink-500/30 text-pink-300 font-bold uppercase tracking-tighter">
+            {isLoading ? <i className="fa-solid fa-circle-notch animate-spin"></i> : music ? 'Trocar' : 'Carregar'}
+          </button>
+          {music && (
+            <button onClick={onRemoveMusic} className="text-red-500/50 hover:text-red-500 text-xs px-1"><i className="fa-solid fa-trash-can"></i></button>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="audio/*"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) loadMusic(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+        {music && (
+          <div className="grid grid-cols-2 gap-3">
+            <Slider label="Volume" unit="dB" min={-40} max={0} step={1} value={value.musicVolumeDb} onChange={(v) => set('musicVolumeDb', v)} />
+            <Slider label="Ducking" unit="dB" min={-30} max={0} step={1} value={value.musicDuckDb} onChange={(v) => set('musicDuckDb', v)} />
+            <Slider label="Ataque" unit="ms" min={10} max={1000} step={10} value={value.duckAttackMs} onChange={(v) => set('duckAttackMs', v)} />
+            <Slider label="Liberação" unit="ms" min={50} max={3000} step={50} value={value.duckReleaseMs} onChange={(v) => set('duckReleaseMs', v)} />
+            <Slider label="Intro" unit="ms" min={0} max={15000} step={250} value={value.musicLeadInMs} onChange={(v) => set('musicLeadInMs', v)} />
+            <Slider label="Final" unit="ms" min={0} max={15000} step={250} value={value.musicTailMs} onChange={(v) => set('musicTailMs', v)} />
+            <Slider label="Fade música" unit="ms" min={0} max={5000} step={100} value={value.musicFadeMs} onChange={(v) => set('musicFadeMs', v)} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import React, { useRef, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { GlobalSettings, VoicePreset } from '../types';
+import { uniquePresetName } from '../utils/presets';
+
+interface Props {
+  presets: VoicePreset[];
+  settings: GlobalSettings;
+  onChange: (presets: VoicePreset[]) => void;
+  onApply: (settings: GlobalSettings) => void;
+  onAudition: () => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+}
+
+function matchesSettings(a: GlobalSettings, b: GlobalSettings) {
+  return (Object.keys(a) as (keyof GlobalSettings)[]).every(key => a[key] === b[key]);
+}
+
+/**
+ * Named snapshots of the global voice settings, kept in the browser and shareable as JSON.
+ */
+export default function PresetPanel({ presets, settings, onChange, onApply, onAudition, onExport, onImport }: Props) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const saveCurrent = () => {
+    const preset = { id: uuidv4(), name: uniquePresetName(`${settings.voice} ${settings.speed.toFixed(2)}x`, presets), settings: { ...settings } };
+    onChange([...presets, preset]);
+    setEditingId(preset.id);
+  };
+
+  const rename = (id: string, name: string) => {
+    onChange(presets.map(p => p.id === id ? { ...p, name } : p));
+  };
+
+  const duplicate = (preset: VoicePreset) => {
+    const copy = { id: uuidv4(), name: uniquePresetName(`${preset.name} (cópia)`, presets), settings: { ...preset.settings } };
+    const index = presets.findIndex(p => p.id === preset.id);
+    onChange([...presets.slice(0, index + 1), copy, ...presets.slice(index + 1)]);
+  };
+
+  const overwrite = (id: string) => {
+    onChange(presets.map(p => p.id === id ? { ...p, settings: { ...settings } } : p));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center">
+        <label className="text-[10px] font-bold text-white/40 uppercase tracking-widest">Presets de Voz</label>
+        <div className="flex gap-1">
+          <button onClick={onAudition} title="Comparar presets" className="text-[9px] px-3 py-1 rounded-full bg-white/5 border border-white/10 hover:bg-white/10 text-white/60 font-bold uppercase tracking-tighter">
+            <i className="fa-solid fa-code-compare mr-1"></i> A/B
+          </button>
+          <button onClick={saveCurrent} className="text-[9px] px-3 py-1 rounded-full bg-pink-500/10 border border-pink-500/30 hover:bg-pink-500/20 text-pink-300 font-bold uppercase tracking-tighter">
+            <i className="fa-solid fa-floppy-disk mr-1"></i> Salvar atual
+          </button>
+        </div>
+      </div>
+      {presets.length === 0 && (
+        <p className="text-[10px] text-white/30">Salve a combinação atual de voz, ritmo, emoção, estilo, sotaque e seed para reutilizar depois.</p>
+      )}
+      {presets.map(preset => {
+        const isActive = matchesSettings(preset.settings, settings);
+        return (
+          <div key={preset.id} className={`bg-black/30 border rounded-xl px-3 py-2 flex items-center gap-2 ${isActive ? 'border-pink-500/40' : 'border-white/10'}`}>
+            {editingId === preset.id ? (
+              <input
+                autoFocus
+                type="text"
+                value={preset.name}
+                onChange={(e) => rename(preset.id, e.target.value)}
+                onBlur={() => { if (!preset.name.trim()) rename(preset.id, uniquePresetName('Preset', presets)); setEditingId(null); }}
+                onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+                className="flex-1 min-w-0 bg-transparent outline-none text-sm text-white font-bold border-b border-pink-500/40"
+              />
+            ) : (
+              <button onClick={() => onApply(preset.settings)} title="Aplicar" className="flex-1 min-w-0 text-left">
+                <span className="block truncate text-sm text-white font-bold">{preset.name}</span>
+                <span className="block truncate text-[9px] text-white/30 font-mono">{preset.settings.voice} · {preset.settings.speed.toFixed(2)}x · seed {preset.settings.seed}</span>
+              </button>
+            )}
+            <button onClick={() => setEditingId(preset.id)} title="Renomear" className="text-white/30 hover:text-white text-xs px-1"><i className="fa-solid fa-pen"></i></button>
+            <button onClick={() => overwrite(preset.id)} title="Atualizar com os parâmetros atuais" className="text-white/30 hover:text-white text-xs px-1"><i className="fa-solid fa-arrows-rotate"></i></button>
+            <button onClick={() => duplicate(preset)} title="Duplicar" className="text-white/30 hover:text-white text-xs px-1"><i className="fa-solid fa-clone"></i></button>
+            <button onClick={() => onChange(presets.filter(p => p.id !== preset.id))} title="Excluir" className="text-red-500/40 hover:text-red-500 text-xs px-1"><i className="fa-solid fa-trash-can"></i></button>
+          </div>
+        );
+      })}
+      <div className="grid grid-cols-2 gap-2">
+        <button disabled={presets.length === 0} onClick={onExport} className="glass-btn py-2 rounded-xl text-[9px] font-bold uppercase tracking-widest text-pink-300 disabled:opacity-30">
+          <i className="fa-solid fa-file-export mr-1"></i> Exportar JSON
+        </button>
+        <button onClick={() => fileInputRef.current?.click()} className="glass-btn py-2 rounded-xl text-[9px] font-bold uppercase tracking-widest text-pink-300">
+          <i className="fa-solid fa-file-arrow-up mr-1"></i> Importar JSON
+        </button>
+      </div>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,application/json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) onImport(file);
+          e.target.value = '';
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import React from 'react';
+import { ProcessingSettings } from '../types';
+
+interface Props {
+  value: ProcessingSettings;
+  onChange: (value: ProcessingSettings) => void;
+}
+
+const labelClass = "text-[10px] font-bold text-white/40 uppercase tracking-widest";
+const rangeClass = "w-full accent-pink-500 h-1 bg-white/10 rounded-full appearance-none cursor-pointer";
+
+/**
+ * Sidebar controls for the trim / loudness / fade chain applied to playback and exports.
+ */
+export default function ProcessingPanel({ value, onChange }: Props) {
+  const set = <K extends keyof ProcessingSettings>(key: K, v: ProcessingSettings[K]) => onChange({ ...value, [key]: v });
+
+  return (
+    <div className="space-y-4">
+      <label className={labelClass}>Pós-processamento</label>
+
+      <div className="space-y-2">
+        <label className="flex items-center justify-between text-[10px] text-white/60 font-bold uppercase tracking-widest cursor-pointer">
+          <span>Cortar silêncio</span>
+          <input type="checkbox" checked={value.trimSilence} onChange={(e) => set('trimSilence', e.target.checked)} className="accent-pink-500" />
+        </label>
+        {value.trimSilence && (
+          <>
+            <div className="flex justify-between text-[9px] text-white/40"><span>Limiar</span><span className="font-mono text-pink-400">{value.silenceThresholdDb} dB</span></div>
+            <input type="range" min="-70" max="-30" step="1" value={value.silenceThresholdDb} onChange={(e) => set('silenceThresholdDb', parseInt(e.target.value))} className={rangeClass} />
+          </>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <label className="flex items-center justify-between text-[10px] text-white/60 font-bold uppercase tracking-widest cursor-pointer">
+          <span>Normalizar volume</span>
+          <input type="checkbox" checked={value.normalize} onChange={(e) => set('normalize', e.target.checked)} className="accent-pink-500" />
+        </label>
+        {value.normalize && (
+          <>
+            <div className="flex justify-between text-[9px] text-white/40"><span>Loudness alvo</span><span className="font-mono text-pink-400">{value.targetLufs} LUFS</span></div>
+            <input type="range" min="-30" max="-10" step="1" value={value.targetLufs} onChange={(e) => set('targetLufs', parseInt(e.target.value))} className={rangeClass} />
+            <div className="flex justify-between text-[9px] text-white/40"><span>Teto de pico</span><span className="font-mono text-pink-400">{value.peakCeilingDb.toFixed(1)} dBFS</span></div>
+            <input type="range" min="-6" max="0" step="0.5" value={value.peakCeilingDb} onChange={(e) => set('peakCeilingDb', parseFloat(e.target.value))} className={rangeClass} />
+          </>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <div className="flex justify-between text-[9px] text-white/40"><span>Fade in</span><span className="font-mono text-pink-400">{value.fadeInMs} ms</span></div>
+          <input type="range" min="0" max="500" step="5" value={value.fadeInMs} onChange={(e) => set('fadeInMs', parseInt(e.target.value))} className={rangeClass} />
+        </div>
+        <div className="space-y-1">
+          <div className="flex justify-between text-[9px] text-white/40"><span>Fade out</span><span className="font-mono text-pink-400">{value.fadeOutMs} ms</span></div>
+          <input type="range" min="0" max="500" step="5" value={value.fadeOutMs} onChange={(e) => set('fadeOutMs', parseInt(e.target.value))} className={rangeClass} />
+        </div>
+      </div>
+    </div>
+  );
+}
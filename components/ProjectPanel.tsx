@@ -0,0 +1,50 @@
+import React, { useRef } from 'react';
+import { ProjectSummary } from '../types';
+import { PROJECT_FILE_EXTENSION } from '../utils/projectFile';
+
+interface Props {
+  projects: ProjectSummary[];
+  currentId?: string;
+  name: string;
+  onRename: (name: string) => void;
+  onSwitch: (id: string) => void;
+  onCreate: () => void;
+  onDelete: () => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+}
+
+export default function ProjectPanel({ projects, currentId, name, onRename, onSwitch, onCreate, onDelete, onExport, onImport }: Props) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="space-y-2">
+      <label className="text-[10px] font-bold text-white/40 uppercase tracking-widest">Projeto</label>
+      <input type="text" value={name} onChange={(e) => onRename(e.target.value)} placeholder="Nome do projeto" className="w-full bg-black/40 border border-white/10 rounded-xl px-4 py-3 text-sm outline-none focus:border-pink-500/50 placeholder:text-white/10 text-white font-bold" />
+      <select value={currentId ?? ''} onChange={(e) => onSwitch(e.target.value)} className="w-full bg-black/40 border border-white/10 rounded-xl px-4 py-2 text-xs outline-none focus:border-pink-500/50 appearance-none text-white/70">
+        {projects.map(p => (
+          <option key={p.id} value={p.id} className="bg-slate-950">
+            {p.name || 'Sem nome'} · {p.blockCount} trechos · {new Date(p.updatedAt).toLocaleDateString('pt-BR')}
+          </option>
+        ))}
+      </select>
+      <div className="grid grid-cols-4 gap-2">
+        <button onClick={onCreate} title="Novo projeto" className="glass-btn py-2 rounded-xl text-pink-300 text-xs"><i className="fa-solid fa-file-circle-plus"></i></button>
+        <button onClick={onExport} title="Exportar projeto" className="glass-btn py-2 rounded-xl text-pink-300 text-xs"><i className="fa-solid fa-file-export"></i></button>
+        <button onClick={() => fileInputRef.current?.click()} title="Importar projeto" className="glass-btn py-2 rounded-xl text-pink-300 text-xs"><i className="fa-solid fa-file-arrow-up"></i></button>
+        <button onClick={onDelete} title="Excluir projeto" className="glass-btn py-2 rounded-xl text-red-400/70 text-xs"><i className="fa-solid fa-trash-can"></i></button>
+      </div>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={`${PROJECT_FILE_EXTENSION},.zip,.json`}
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) onImport(file);
+          e.target.value = '';
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import React from 'react';
+import { QueueProgress } from '../services/generationQueue';
+
+interface Props {
+  progress: QueueProgress;
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
+}
+
+function formatEta(seconds: number | null) {
+  if (seconds === null) return '--';
+  const m = Math.floor(seconds / 60);
+  const s = seconds % 60;
+  return m > 0 ? `${m}min ${String(s).padStart(2, '0')}s` : `${s}s`;
+}
+
+export default function QueueProgressBar({ progress, onPause, onResume, onCancel }: Props) {
+  const finished = progress.done + progress.failed + progress.cancelled;
+  const percent = progress.total > 0 ? (finished / progress.total) * 100 : 0;
+  const isActive = progress.remaining > 0;
+
+  return (
+    <div className="w-full max-w-5xl flex items-center gap-3 text-[10px] font-bold uppercase tracking-widest">
+      <div className="flex-1 space-y-1">
+        <div className="h-1.5 bg-white/10 rounded-full overflow-hidden flex">
+          <div className="bg-gradient-to-r from-pink-500 to-purple-500 transition-all duration-500" style={{ width: `${(progress.done / progress.total) * 100}%` }}></div>
+          <div className="bg-red-500/70 transition-all duration-500" style={{ width: `${(progress.failed / progress.total) * 100}%` }}></div>
+        </div>
+        <div className="flex flex-wrap gap-x-4 text-white/40">
+          <span className="text-green-400/80">{progress.done} prontos</span>
+          {progress.failed > 0 && <span className="text-red-400/80">{progress.failed} falhas</span>}
+          <span>{progress.remaining} restantes</span>
+          {progress.paused > 0 && <span className="text-yellow-400/80">{progress.paused} pausados</span>}
+          {isActive && <span>ETA {formatEta(progress.etaSeconds)}</span>}
+          {progress.isPaused && <span className="text-yellow-400/80">Pausado</span>}
+          {progress.cooldownUntil && <span className="text-yellow-400/80">Limite de taxa: aguardando</span>}
+          {!isActive && <span>{percent.toFixed(0)}% concluído</span>}
+        </div>
+      </div>
+      {isActive && (
+        <div className="flex gap-2">
+          {progress.isPaused ? (
+            <button onClick={onResume} title="Retomar" className="glass-btn w-9 h-9 rounded-xl text-green-400"><i className="fa-solid fa-play"></i></button>
+          ) : (
+            <button onClick={onPause} title="Pausar" className="glass-btn w-9 h-9 rounded-xl text-yellow-400"><i className="fa-solid fa-pause"></i></button>
+          )}
+          <button onClick={onCancel} title="Cancelar tudo" className="glass-btn w-9 h-9 rounded-xl text-red-400"><i className="fa-solid fa-stop"></i></button>
+        </div>
+      )}
+    </div>
+  );
+}
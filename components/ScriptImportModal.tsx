@@ -0,0 +1,100 @@
+import React, { useMemo, useState } from 'react';
+import { DEFAULT_IMPORT_OPTIONS, ScriptImportOptions, ScriptSegment, SplitMode, detectScriptFormat, parseScript } from '../utils/scriptImport';
+
+interface Props {
+  onImport: (segments: ScriptSegment[], replace: boolean) => void;
+  onClose: () => void;
+}
+
+const MODE_LABELS: Record<SplitMode, string> = {
+  paragraph: 'Parágrafo',
+  sentence: 'Frase',
+  chars: 'Limite de caracteres',
+};
+
+export default function ScriptImportModal({ onImport, onClose }: Props) {
+  const [content, setContent] = useState('');
+  const [options, setOptions] = useState<ScriptImportOptions>(DEFAULT_IMPORT_OPTIONS);
+
+  const segments = useMemo(() => content.trim() ? parseScript(content, options) : [], [content, options]);
+  const speakerNames = useMemo(() => Array.from(new Set(segments.map(s => s.speakerName).filter(Boolean))), [segments]);
+
+  const loadFile = async (file: File) => {
+    const text = await file.text();
+    setContent(text);
+    setOptions(prev => ({ ...prev, format: detectScriptFormat(text, file.name) }));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[90] flex items-center justify-center bg-black/70 p-4" onClick={onClose}>
+      <div className="glass-card w-full max-w-3xl max-h-[90vh] overflow-y-auto rounded-[2rem] p-6 space-y-4" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h2 className="text-sm font-black flex items-center gap-2 text-white/80 uppercase tracking-widest">
+            <i className="fa-solid fa-file-import text-pink-500"></i> Importar Roteiro
+          </h2>
+          <button onClick={onClose} className="text-white/40 hover:text-white"><i className="fa-solid fa-xmark"></i></button>
+        </div>
+
+        <label className="glass-btn flex items-center justify-center gap-2 py-3 rounded-xl text-[10px] font-bold uppercase tracking-widest text-pink-300 cursor-pointer">
+          <i className="fa-solid fa-folder-open"></i> Abrir arquivo (.txt, .md, .srt, .vtt)
+          <input type="file" accept=".txt,.md,.markdown,.srt,.vtt,text/plain" className="hidden" onChange={(e) => e.target.files?.[0] && loadFile(e.target.files[0])} />
+        </label>
+
+        <textarea
+          value={content}
+          onChange={(e) => { setContent(e.target.value); setOptions(prev => ({ ...prev, format: detectScriptFormat(e.target.value) })); }}
+          placeholder={"Cole o roteiro aqui...\n\nAna: Bom dia, Carlos!\nCarlos: Bom dia, Ana."}
+          className="w-full h-48 bg-black/40 border border-white/10 rounded-xl px-4 py-3 text-sm outline-none focus:border-pink-500/50 resize-none placeholder:text-white/20 text-white"
+        />
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 items-end">
+          <div className="space-y-1">
+            <label className="text-[9px] font-bold text-white/40 uppercase tracking-widest">Formato</label>
+            <select value={options.format} onChange={(e) => setOptions({ ...options, format: e.target.value as ScriptImportOptions['format'] })} className="w-full bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-xs outline-none appearance-none text-white">
+              <option value="text" className="bg-slate-950">Texto</option>
+              <option value="markdown" className="bg-slate-950">Markdown</option>
+              <option value="srt" className="bg-slate-950">SRT</option>
+              <option value="vtt" className="bg-slate-950">WebVTT</option>
+            </select>
+          </div>
+          <div className="space-y-1">
+            <label className="text-[9px] font-bold text-white/40 uppercase tracking-widest">Dividir por</label>
+            <select value={options.mode} onChange={(e) => setOptions({ ...options, mode: e.target.value as SplitMode })} className="w-full bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-xs outline-none appearance-none text-white">
+              {(Object.keys(MODE_LABELS) as SplitMode[]).map(m => <option key={m} value={m} className="bg-slate-950">{MODE_LABELS[m]}</option>)}
+            </select>
+          </div>
+          <div className="space-y-1">
+            <label className="text-[9px] font-bold text-white/40 uppercase tracking-widest">Máx. caracteres</label>
+            <input type="number" min="50" step="50" value={options.maxChars} onChange={(e) => setOptions({ ...options, maxChars: Number(e.target.value) || DEFAULT_IMPORT_OPTIONS.maxChars })} className="w-full bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-xs outline-none text-white" />
+          </div>
+          <label className="flex items-center gap-2 text-[10px] text-white/60 font-bold uppercase tracking-widest pb-2 cursor-pointer">
+            <input type="checkbox" checked={options.detectSpeakers} onChange={(e) => setOptions({ ...options, detectSpeakers: e.target.checked })} className="accent-pink-500" />
+            Detectar "Nome:"
+          </label>
+        </div>
+
+        <div className="bg-black/30 border border-white/10 rounded-xl p-3 space-y-2 max-h-48 overflow-y-auto">
+          <div className="text-[10px] text-white/40 uppercase tracking-widest font-bold">
+            {segments.length} trechos{speakerNames.length > 0 && ` · Locutores: ${speakerNames.join(', ')}`}
+          </div>
+          {segments.slice(0, 50).map((segment, i) => (
+            <div key={i} className="text-xs text-white/70 truncate">
+              <span className="text-white/30 font-mono mr-2">#{String(i + 1).padStart(2, '0')}</span>
+              {segment.speakerName && <span className="text-pink-300 font-bold mr-1">{segment.speakerName}:</span>}
+              {segment.text}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-2">
+          <button disabled={segments.length === 0} onClick={() => onImport(segments, false)} className="glass-btn flex-1 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest text-pink-300">
+            <i className="fa-solid fa-plus mr-1"></i> Adicionar ao final
+          </button>
+          <button disabled={segments.length === 0} onClick={() => onImport(segments, true)} className="glass-btn flex-1 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest text-red-300/80">
+            <i className="fa-solid fa-arrows-rotate mr-1"></i> Substituir trechos
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
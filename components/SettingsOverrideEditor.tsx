@@ -0,0 +1,61 @@
+import React from 'react';
+import { GlobalSettings, SettingsOverrides, TONE_LABELS } from '../types';
+
+interface Props {
+  value: SettingsOverrides;
+  inherited: GlobalSettings;
+  voices: string[];
+  onChange: (value: SettingsOverrides) => void;
+}
+
+const fieldClass = "w-full bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-xs outline-none focus:border-pink-500/50 placeholder:text-white/20 text-white";
+const labelClass = "text-[9px] font-bold text-white/40 uppercase tracking-widest";
+
+/**
+ * Editor for a partial set of voice settings. Empty fields inherit and show the inherited value as placeholder.
+ */
+export default function SettingsOverrideEditor({ value, inherited, voices, onChange }: Props) {
+  const set = <K extends keyof GlobalSettings>(key: K, v: GlobalSettings[K] | undefined) => {
+    const next = { ...value };
+    if (v === undefined) delete next[key];
+    else next[key] = v;
+    onChange(next);
+  };
+
+  const parseNumber = (raw: string) => raw.trim() === '' ? undefined : Number(raw);
+
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      <div className="space-y-1">
+        <label className={labelClass}>Voz</label>
+        <select value={value.voice ?? ''} onChange={(e) => set('voice', e.target.value || undefined)} className={`${fieldClass} appearance-none`}>
+          <option value="" className="bg-slate-950">Herdar ({inherited.voice})</option>
+          {voices.map(v => <option key={v} value={v} className="bg-slate-950">{v}</option>)}
+        </select>
+      </div>
+      <div className="space-y-1">
+        <label className={labelClass}>Emoção</label>
+        <select value={value.temperature ?? ''} onChange={(e) => set('temperature', parseNumber(e.target.value))} className={`${fieldClass} appearance-none`}>
+          <option value="" className="bg-slate-950">Herdar ({(inherited.temperature * 100).toFixed(0)}%)</option>
+          {Object.keys(TONE_LABELS).map(Number).map(t => <option key={t} value={t} className="bg-slate-950">{(t * 100).toFixed(0)}% – {TONE_LABELS[t].replace('Tone: ', '')}</option>)}
+        </select>
+      </div>
+      <div className="space-y-1">
+        <label className={labelClass}>Ritmo</label>
+        <input type="number" min="0.5" max="2.5" step="0.1" value={value.speed ?? ''} onChange={(e) => set('speed', parseNumber(e.target.value))} placeholder={`${inherited.speed.toFixed(2)}x`} className={fieldClass} />
+      </div>
+      <div className="space-y-1">
+        <label className={labelClass}>Seed</label>
+        <input type="number" step="1" value={value.seed ?? ''} onChange={(e) => set('seed', parseNumber(e.target.value))} placeholder={String(inherited.seed)} className={fieldClass} />
+      </div>
+      <div className="space-y-1">
+        <label className={labelClass}>Estilo</label>
+        <input type="text" value={value.style ?? ''} onChange={(e) => set('style', e.target.value || undefined)} placeholder={inherited.style || 'Natural'} className={fieldClass} />
+      </div>
+      <div className="space-y-1">
+        <label className={labelClass}>Sotaque</label>
+        <input type="text" value={value.accent ?? ''} onChange={(e) => set('accent', e.target.value || undefined)} placeholder={inherited.accent || 'Padrão'} className={fieldClass} />
+      </div>
+    </div>
+  );
+}
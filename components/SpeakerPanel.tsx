@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { GlobalSettings, Speaker } from '../types';
+import { createSpeaker } from '../utils/speakerUtils';
+import SettingsOverrideEditor from './SettingsOverrideEditor';
+
+interface Props {
+  speakers: Speaker[];
+  settings: GlobalSettings;
+  voices: string[];
+  onChange: (speakers: Speaker[]) => void;
+}
+
+/**
+ * Sidebar section to manage named speakers that blocks can reference.
+ */
+export default function SpeakerPanel({ speakers, settings, voices, onChange }: Props) {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const addSpeaker = () => {
+    const speaker = createSpeaker(`Locutor ${speakers.length + 1}`, uuidv4(), speakers);
+    onChange([...speakers, speaker]);
+    setExpandedId(speaker.id);
+  };
+
+  const updateSpeaker = (id: string, patch: Partial<Speaker>) => {
+    onChange(speakers.map(s => s.id === id ? { ...s, ...patch } : s));
+  };
+
+  const removeSpeaker = (id: string) => {
+    onChange(speakers.filter(s => s.id !== id));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center">
+        <label className="text-[10px] font-bold text-white/40 uppercase tracking-widest">Locutores</label>
+        <button onClick={addSpeaker} className="text-[9px] px-3 py-1 rounded-full bg-pink-500/10 border border-pink-500/30 hover:bg-pink-500/20 text-pink-300 font-bold uppercase tracking-tighter">
+          <i className="fa-solid fa-user-plus mr-1"></i> Novo
+        </button>
+      </div>
+      {speakers.length === 0 && (
+        <p className="text-[10px] text-white/30">Crie locutores para diálogos e entrevistas. Cada trecho pode usar um locutor diferente.</p>
+      )}
+      {speakers.map(speaker => (
+        <div key={speaker.id} className="bg-black/30 border border-white/10 rounded-xl p-3 space-y-3">
+          <div className="flex items-center gap-2">
+            <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: speaker.color }}></span>
+            <input type="text" value={speaker.name} onChange={(e) => updateSpeaker(speaker.id, { name: e.target.value })} className="flex-1 min-w-0 bg-transparent outline-none text-sm text-white font-bold" />
+            <span className="text-[9px] text-white/30 font-mono">{speaker.settings.voice ?? settings.voice}</span>
+            <button onClick={() => setExpandedId(expandedId === speaker.id ? null : speaker.id)} className="text-white/40 hover:text-white text-xs px-1">
+              <i className={`fa-solid ${expandedId === speaker.id ? 'fa-chevron-up' : 'fa-chevron-down'}`}></i>
+            </button>
+            <button onClick={() => removeSpeaker(speaker.id)} className="text-red-500/40 hover:text-red-500 text-xs px-1">
+              <i className="fa-solid fa-trash-can"></i>
+            </button>
+          </div>
+          {expandedId === speaker.id && (
+            <SettingsOverrideEditor
+              value={speaker.settings}
+              inherited={settings}
+              voices={voices}
+              onChange={(value) => updateSpeaker(speaker.id, { settings: value })}
+            />
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
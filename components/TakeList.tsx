@@ -0,0 +1,74 @@
+import React from 'react';
+import { AudioTake, GlobalSettings } from '../types';
+import { MAX_TAKES, takeMatches } from '../utils/takes';
+import { formatClock } from '../utils/waveform';
+
+interface Props {
+  takes: AudioTake[];
+  chosenId?: string;
+  text: string;
+  settings: GlobalSettings;
+  providerId: string;
+  sampleRate: number;
+  onPlay: (take: AudioTake) => void;
+  onChoose: (take: AudioTake) => void;
+  onDelete: (take: AudioTake) => void;
+  onPrune: () => void;
+}
+
+const timeFormat = new Intl.DateTimeFormat('pt-BR', { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+/**
+ * Generated versions of one block. The starred take is the one played and exported; takes made
+ * from another text or voice can still be heard but not chosen.
+ */
+export default function TakeList({ takes, chosenId, text, settings, providerId, sampleRate, onPlay, onChoose, onDelete, onPrune }: Props) {
+  return (
+    <div className="bg-black/30 border border-white/10 rounded-2xl p-3 space-y-2">
+      <div className="flex justify-between items-center">
+        <span className="text-[9px] font-black text-white/40 uppercase tracking-widest">Takes ({takes.length}/{MAX_TAKES})</span>
+        {takes.length > 1 && chosenId && (
+          <button onClick={onPrune} className="text-[9px] text-white/40 hover:text-red-400 uppercase tracking-widest font-bold">
+            <i className="fa-solid fa-broom mr-1"></i> Manter só o escolhido
+          </button>
+        )}
+      </div>
+      {[...takes].reverse().map((take, i) => {
+        const isChosen = take.id === chosenId;
+        const isCurrent = takeMatches(take, text, settings, providerId);
+        return (
+          <div key={take.id} className={`flex items-center gap-2 rounded-xl px-3 py-2 border ${isChosen ? 'border-yellow-400/40 bg-yellow-400/5' : 'border-white/5'}`}>
+            <button onClick={() => onPlay(take)} title="Ouvir" className="w-7 h-7 shrink-0 rounded-lg bg-white/5 hover:bg-white/10 text-pink-400 flex items-center justify-center">
+              <i className="fa-solid fa-play text-[10px]"></i>
+            </button>
+            <div className="flex-1 min-w-0">
+              <span className="block text-[10px] text-white/70 font-bold">
+                Take {takes.length - i} · {timeFormat.format(take.createdAt)} · {formatClock((take.audioData.length >> 1) / sampleRate)}
+              </span>
+              <span className="block truncate text-[9px] text-white/30 font-mono">
+                {take.settings.voice} · {take.settings.speed.toFixed(2)}x · seed {take.settings.seed}{take.settings.style ? ` · ${take.settings.style}` : ''}
+                {!isCurrent && ' · outro texto/voz'}
+              </span>
+            </div>
+            <button
+              disabled={!isCurrent}
+              onClick={() => onChoose(take)}
+              title={isCurrent ? 'Usar este take na reprodução e nas exportações' : 'Gerado com outro texto ou voz'}
+              className={`w-7 h-7 shrink-0 rounded-lg flex items-center justify-center disabled:opacity-20 ${isChosen ? 'text-yellow-300' : 'text-white/30 hover:text-yellow-300'}`}
+            >
+              <i className={`${isChosen ? 'fa-solid' : 'fa-regular'} fa-star text-xs`}></i>
+            </button>
+            {take.audioUrl && (
+              <a href={take.audioUrl} download={`take_${takes.length - i}.wav`} title="Baixar WAV" className="w-7 h-7 shrink-0 rounded-lg flex items-center justify-center text-white/30 hover:text-white">
+                <i className="fa-solid fa-download text-xs"></i>
+              </a>
+            )}
+            <button onClick={() => onDelete(take)} title="Descartar" className="w-7 h-7 shrink-0 rounded-lg flex items-center justify-center text-white/20 hover:text-red-400">
+              <i className="fa-solid fa-xmark text-xs"></i>
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
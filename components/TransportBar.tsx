@@ -0,0 +1,46 @@
+import React from 'react';
+import { PlayerState } from '../services/projectPlayer';
+import { formatClock } from '../utils/waveform';
+
+interface Props {
+  state: PlayerState;
+  blockCount: number;
+  isGenerating: boolean;
+  onPrevious: () => void;
+  onNext: () => void;
+  onPause: () => void;
+  onResume: () => void;
+  onStop: () => void;
+}
+
+const buttonClass = "w-8 h-8 rounded-full bg-white/5 border border-white/10 hover:bg-white/10 text-white/70 hover:text-white flex items-center justify-center transition-all";
+
+export default function TransportBar({ state, blockCount, isGenerating, onPrevious, onNext, onPause, onResume, onStop }: Props) {
+  const percent = state.duration > 0 ? Math.min(100, (state.position / state.duration) * 100) : 0;
+
+  return (
+    <div className="w-full max-w-5xl flex items-center gap-3 text-[10px] font-bold uppercase tracking-widest">
+      <div className="flex items-center gap-1">
+        <button onClick={onPrevious} disabled={state.currentIndex <= 0} className={`${buttonClass} disabled:opacity-30`}><i className="fa-solid fa-backward-step"></i></button>
+        <button onClick={state.isPaused ? onResume : onPause} className="w-9 h-9 rounded-full bg-gradient-to-br from-pink-600 to-purple-700 text-white flex items-center justify-center shadow-lg">
+          <i className={`fa-solid ${state.isPaused ? 'fa-play' : 'fa-pause'}`}></i>
+        </button>
+        <button onClick={onNext} disabled={state.currentIndex >= blockCount - 1} className={`${buttonClass} disabled:opacity-30`}><i className="fa-solid fa-forward-step"></i></button>
+        <button onClick={onStop} className={buttonClass}><i className="fa-solid fa-stop"></i></button>
+      </div>
+      <div className="flex-1 space-y-1">
+        <div className="h-1.5 bg-white/10 rounded-full overflow-hidden">
+          <div className="h-full bg-gradient-to-r from-pink-500 to-purple-500" style={{ width: `${percent}%` }}></div>
+        </div>
+        <div className="flex justify-between text-white/40">
+          <span>
+            Trecho {state.currentIndex + 1} de {blockCount}
+            {isGenerating && <span className="text-pink-300 ml-2"><i className="fa-solid fa-circle-notch animate-spin mr-1"></i>Gerando</span>}
+            {state.isPaused && <span className="text-yellow-400 ml-2">Pausado</span>}
+          </span>
+          <span className="font-mono">{formatClock(state.position)} / {formatClock(state.duration)}</span>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import React from 'react';
+import { ModelPrice, UsageBudget, UsageRecord } from '../types';
+import { UsageTotals, formatUsd, summarizeUsage, usageByDay } from '../utils/usage';
+
+interface Props {
+  /** Requests of the open project. */
+  records: UsageRecord[];
+  /** Today's requests across every project. */
+  today: UsageTotals;
+  prices: Record<string, ModelPrice>;
+  model: string;
+  budget?: UsageBudget;
+  onBudgetChange: (budget: UsageBudget | undefined) => void;
+  onPriceChange: (model: string, price: ModelPrice) => void;
+  onExport: () => void;
+  onClear: () => void;
+}
+
+const labelClass = "text-[10px] font-bold text-white/40 uppercase tracking-widest";
+const inputClass = "w-full bg-black/40 border border-white/10 rounded-xl px-3 py-2 text-xs outline-none focus:border-pink-500/50 text-white/80 font-mono";
+const DAYS_SHOWN = 7;
+
+/**
+ * Requests, characters, audio and estimated cost of the project, per day, against its budget.
+ */
+export default function UsagePanel({ records, today, prices, model, budget, onBudgetChange, onPriceChange, onExport, onClear }: Props) {
+  const totals = summarizeUsage(records, prices);
+  const days = usageByDay(records, prices).slice(0, DAYS_SHOWN);
+  const price = prices[model] ?? { inputPerMillionTokens: 0, outputPerMillionTokens: 0 };
+  const limit = budget?.limitUsd ?? 0;
+  const used = limit > 0 ? totals.costUsd / limit : 0;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-end">
+        <label className={labelClass}>Uso e Custo</label>
+        <span className="text-xs font-mono text-pink-400">{formatUsd(totals.costUsd)}</span>
+      </div>
+      <div className="grid grid-cols-2 gap-2 text-[9px] text-white/40">
+        <span>{totals.requests} requisições{totals.failures > 0 && <span className="text-red-400/70"> · {totals.failures} falhas</span>}</span>
+        <span className="text-right">{totals.characters.toLocaleString('pt-BR')} caracteres</span>
+        <span>{(totals.audioSeconds / 60).toFixed(1)} min de áudio</span>
+        <span className="text-right">{totals.tokens.toLocaleString('pt-BR')} tokens</span>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex gap-2">
+          <input
+            type="number"
+            min={0}
+            step={0.5}
+            value={limit || ''}
+            placeholder="Orçamento (US$)"
+            onChange={(e) => {
+              const limitUsd = Math.max(0, parseFloat(e.target.value) || 0);
+              onBudgetChange(limitUsd > 0 ? { limitUsd, mode: budget?.mode ?? 'warn' } : undefined);
+            }}
+            className={inputClass}
+          />
+          <select
+            disabled={!budget}
+            value={budget?.mode ?? 'warn'}
+            onChange={(e) => budget && onBudgetChange({ ...budget, mode: e.target.value as UsageBudget['mode'] })}
+            className="bg-black/40 border border-white/10 rounded-xl px-3 py-2 text-xs outline-none appearance-none text-white/70 disabled:opacity-40"
+          >
+            <option value="warn" className="bg-slate-950">Avisar</option>
+            <option value="block" className="bg-slate-950">Bloquear</option>
+          </select>
+        </div>
+        {limit > 0 && (
+          <div className="h-1 bg-white/10 rounded-full overflow-hidden">
+            <div className={`h-full ${used >= 1 ? 'bg-red-500' : used >= 0.8 ? 'bg-yellow-400' : 'bg-pink-500/70'}`} style={{ width: `${Math.min(100, used * 100)}%` }}></div>
+          </div>
+        )}
+      </div>
+
+      {days.length > 0 && (
+        <div className="space-y-1">
+          {days.map(day => (
+            <div key={day.day} className="flex justify-between text-[9px] text-white/40 font-mono">
+              <span>{day.day.split('-').reverse().join('/')}</span>
+              <span>{day.requests} req · {formatUsd(day.costUsd)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+      <p className="text-[9px] text-white/30">Hoje, em todos os projetos: {today.requests} requisições · {formatUsd(today.costUsd)}</p>
+
+      <div className="space-y-1">
+        <span className="text-[9px] text-white/30">Preço de {model} (US$ por milhão de tokens)</span>
+        <div className="flex gap-2">
+          <input type="number" min={0} step={0.01} value={price.inputPerMillionTokens} title="Entrada (texto)" onChange={(e) => onPriceChange(model, { ...price, inputPerMillionTokens: Math.max(0, parseFloat(e.target.value) || 0) })} className={inputClass} />
+          <input type="number" min={0} step={0.01} value={price.outputPerMillionTokens} title="Saída (áudio)" onChange={(e) => onPriceChange(model, { ...price, outputPerMillionTokens: Math.max(0, parseFloat(e.target.value) || 0) })} className={inputClass} />
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <button onClick={onExport} className="glass-btn flex-1 py-2 rounded-xl text-[10px] font-bold uppercase tracking-widest text-pink-300">
+          <i className="fa-solid fa-file-csv mr-1"></i> Exportar CSV
+        </button>
+        <button onClick={() => confirm('Apagar o histórico de uso de todos os projetos?') && onClear()} className="glass-btn px-4 rounded-xl text-[10px] font-bold uppercase tracking-widest text-red-400/80">
+          <i className="fa-solid fa-broom mr-1"></i> Limpar
+        </button>
+      </div>
+    </div>
+  );
+}
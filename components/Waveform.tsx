@@ -0,0 +1,124 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { computePeaks, formatClock } from '../utils/waveform';
+
+export interface WaveformRegion {
+  start: number;
+  end: number;
+}
+
+interface Props {
+  pcmData: Uint8Array;
+  sampleRate: number;
+  /** Playhead position in seconds, when this block is playing or paused. */
+  position?: number;
+  region?: WaveformRegion;
+  onSeek: (seconds: number) => void;
+  onSelectRegion: (region: WaveformRegion | null) => void;
+}
+
+const HEIGHT = 48;
+const BAR_WIDTH = 2;
+const MIN_DRAG_PX = 4;
+
+/**
+ * Canvas waveform of a block: click to seek, drag to select a region.
+ */
+export default function Waveform({ pcmData, sampleRate, position, region, onSeek, onSelectRegion }: Props) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ startX: number; moved: boolean } | null>(null);
+  const [width, setWidth] = useState(0);
+  const [dragRegion, setDragRegion] = useState<WaveformRegion | null>(null);
+  const duration = (pcmData.length >> 1) / sampleRate;
+  const shownRegion = dragRegion ?? region;
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(entries => setWidth(Math.floor(entries[0].contentRect.width)));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || width === 0) return;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = width * ratio;
+    canvas.height = HEIGHT * ratio;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.scale(ratio, ratio);
+    ctx.clearRect(0, 0, width, HEIGHT);
+
+    const buckets = Math.max(1, Math.floor(width / (BAR_WIDTH + 1)));
+    const peaks = computePeaks(pcmData, buckets);
+    const playedX = position !== undefined && duration > 0 ? (position / duration) * width : 0;
+    const mid = HEIGHT / 2;
+    for (let b = 0; b < buckets; b++) {
+      const x = b * (BAR_WIDTH + 1);
+      const top = mid - Math.max(0.5, -peaks[b * 2] * mid);
+      const bottom = mid + Math.max(0.5, peaks[b * 2 + 1] * mid);
+      ctx.fillStyle = x < playedX ? '#f472b6' : 'rgba(192, 132, 252, 0.45)';
+      ctx.fillRect(x, top, BAR_WIDTH, bottom - top);
+    }
+  }, [pcmData, width, position, duration]);
+
+  const timeAt = (clientX: number) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return Math.min(duration, Math.max(0, ((clientX - rect.left) / rect.width) * duration));
+  };
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    dragRef.current = { startX: e.clientX, moved: false };
+    const startTime = timeAt(e.clientX);
+
+    const move = (ev: MouseEvent) => {
+      if (!dragRef.current) return;
+      if (Math.abs(ev.clientX - dragRef.current.startX) < MIN_DRAG_PX && !dragRef.current.moved) return;
+      dragRef.current.moved = true;
+      const t = timeAt(ev.clientX);
+      setDragRegion({ start: Math.min(startTime, t), end: Math.max(startTime, t) });
+    };
+    const up = (ev: MouseEvent) => {
+      window.removeEventListener('mousemove', move);
+      window.removeEventListener('mouseup', up);
+      const moved = dragRef.current?.moved;
+      dragRef.current = null;
+      setDragRegion(null);
+      if (moved) {
+        const t = timeAt(ev.clientX);
+        onSelectRegion({ start: Math.min(startTime, t), end: Math.max(startTime, t) });
+      } else {
+        onSeek(startTime);
+      }
+    };
+    window.addEventListener('mousemove', move);
+    window.addEventListener('mouseup', up);
+  };
+
+  const percent = (seconds: number) => `${duration > 0 ? (seconds / duration) * 100 : 0}%`;
+
+  return (
+    <div className="flex-1 min-w-0 w-full space-y-1">
+      <div ref={containerRef} onMouseDown={handleMouseDown} className="relative cursor-text select-none" style={{ height: HEIGHT }}>
+        <canvas ref={canvasRef} style={{ width: '100%', height: HEIGHT }} />
+        {shownRegion && (
+          <div className="absolute top-0 bottom-0 bg-pink-500/15 border-x border-pink-400/60 pointer-events-none" style={{ left: percent(shownRegion.start), width: percent(shownRegion.end - shownRegion.start) }}></div>
+        )}
+        {position !== undefined && (
+          <div className="absolute top-0 bottom-0 w-px bg-white pointer-events-none" style={{ left: percent(position) }}></div>
+        )}
+      </div>
+      <div className="flex justify-between text-[9px] font-mono text-white/40">
+        <span>{formatClock(position ?? 0)} / {formatClock(duration)}</span>
+        {region && (
+          <span className="flex items-center gap-2 text-pink-300">
+            {formatClock(region.start)} – {formatClock(region.end)}
+            <button onClick={() => onSelectRegion(null)} className="text-white/40 hover:text-white"><i className="fa-solid fa-xmark"></i></button>
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,453 @@
+import http from 'node:http';
+import { parseArgs } from 'node:util';
+import JSZip from 'jszip';
+import { v4 as uuidv4 } from 'uuid';
+import { AudioBlock, ChunkingSettings, DEFAULT_SETTINGS, ExportFormat, ExportSettings, GlobalSettings, LexiconEntry, ProcessingSettings, Speaker, SubtitleMode, TTSErrorKind, TTSProvider } from '../types';
+import { DEFAULT_EXPORT_SETTINGS, EXPORT_FORMATS, TIMELINE_FRAME_RATES, outputSettingsError } from '../utils/encoders';
+import { DEFAULT_PROCESSING_SETTINGS, encodeAudio, exportExtension } from '../utils/audioUtils';
+import { DEFAULT_MIX_SETTINGS } from '../utils/mixdown';
+import { DEFAULT_CHUNKING_SETTINGS } from '../utils/chunking';
+import { DEFAULT_QUEUE_CONFIG, QueueConfig } from '../services/generationQueue';
+import { listProviders } from '../services/providers';
+import { MarkupError, synthesizeText } from '../services/blockSynthesis';
+import { TTSError } from '../services/ttsErrors';
+import { BatchDocument, loadBatchDocument } from '../services/batchRender';
+import { DEFAULT_IMPORT_OPTIONS } from '../utils/scriptImport';
+import { createMockProvider } from '../services/mockService';
+import { JobManager, ServerJob, createJobManager } from './jobs';
+
+export const SERVER_USAGE = `Uso: npm run server -- [opções]
+
+      --port <n>        Porta (padrão: TTS_SERVER_PORT ou 8787)
+      --host <host>     Interface (padrão: 127.0.0.1)
+      --retention <min> Minutos que os resultados ficam disponíveis (padrão: 60)
+      --allow-origin <url>  Origem de navegador liberada por CORS (repita para várias; padrão: nenhuma)
+  -h, --help            Mostra esta ajuda
+
+A chave Gemini vem de GEMINI_API_KEY ou API_KEY. Sem chave, use "provider": "mock" nas requisições.`;
+
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+const SUBTITLE_MODES: SubtitleMode[] = ['none', 'block', 'sentence'];
+/** Field types of a lexicon entry, and the defaults of its optional flags. */
+const LEXICON_ENTRY_FIELDS: Omit<LexiconEntry, 'id'> = { term: '', replacement: '', wholeWord: true, caseSensitive: false, regex: false };
+
+// Erros do pedido viram 4xx; falhas do motor, 5xx (429 quando é limite de uso).
+const TTS_ERROR_STATUS: Record<TTSErrorKind, number> = {
+  auth: 503,
+  quota: 429,
+  safety: 422,
+  'empty-audio': 502,
+  network: 502,
+  'invalid-voice': 422,
+  'text-too-long': 422,
+  server: 502,
+  markup: 422,
+  unknown: 500,
+};
+
+class HttpError extends Error {
+  constructor(public status: number, message: string, public details?: unknown) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+// O motor gemini do registro lê process.env.API_KEY na hora da chamada.
+if (!process.env.API_KEY && process.env.GEMINI_API_KEY) process.env.API_KEY = process.env.GEMINI_API_KEY;
+
+/** The registry's mock simulates UI latency; automation wants the answer right away. */
+const providers = new Map<string, TTSProvider>(listProviders().map(p => [p.id, p.id === 'mock' ? createMockProvider(0) : p]));
+
+function resolveProvider(id: unknown): TTSProvider {
+  const provider = providers.get(typeof id === 'string' ? id : 'gemini');
+  if (!provider) throw new HttpError(400, `Motor "${id}" desconhecido. Disponíveis: ${Array.from(providers.keys()).join(', ')}.`);
+  if (provider.capabilities.requiresApiKey && !process.env.API_KEY) {
+    throw new HttpError(503, 'Servidor sem chave Gemini: defina GEMINI_API_KEY ou use "provider": "mock".');
+  }
+  return provider;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const TYPE_NAMES: Record<string, string> = { string: 'um texto', number: 'um número', boolean: 'true ou false', object: 'um objeto' };
+
+/**
+ * Checks a partial settings object from the request field by field against `reference`: unknown fields and
+ * values of another type are refused. Returns only the fields that were sent.
+ */
+function pickFields<T extends object>(field: string, value: unknown, reference: T): Partial<T> {
+  if (value === undefined) return {};
+  if (!isObject(value)) throw new HttpError(400, `"${field}" deve ser um objeto.`);
+  const picked: Partial<T> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    if (!Object.prototype.hasOwnProperty.call(reference, key)) throw new HttpError(400, `"${field}.${key}" não existe.`);
+    const expected = typeof reference[key as keyof T];
+    if (typeof entry !== expected) throw new HttpError(400, `"${field}.${key}" deve ser ${TYPE_NAMES[expected] ?? expected}.`);
+    picked[key as keyof T] = entry as T[keyof T];
+  }
+  return picked;
+}
+
+function optionalString(field: string, value: unknown): string | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string') throw new HttpError(400, `"${field}" deve ser um texto.`);
+  return value;
+}
+
+function optionalNumber(field: string, value: unknown): number | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'number') throw new HttpError(400, `"${field}" deve ser um número.`);
+  return value;
+}
+
+function resolveSettings(value: unknown, base: GlobalSettings = DEFAULT_SETTINGS): GlobalSettings {
+  return { ...base, ...pickFields('settings', value, DEFAULT_SETTINGS) };
+}
+
+function resolveExport(value: unknown, format?: unknown): ExportSettings {
+  const settings: ExportSettings = { ...DEFAULT_EXPORT_SETTINGS, ...pickFields('export', value, DEFAULT_EXPORT_SETTINGS) };
+  if (format !== undefined) settings.format = optionalString('format', format) as ExportFormat;
+  if (!EXPORT_FORMATS[settings.format]) {
+    throw new HttpError(400, `Formato "${settings.format}" inválido. Use ${Object.keys(EXPORT_FORMATS).join(', ')}.`);
+  }
+  if (settings.format === 'opus') throw new HttpError(400, 'Ogg/Opus depende do WebCodecs do navegador. Use wav, mp3 ou flac.');
+  if (!SUBTITLE_MODES.includes(settings.subtitleMode)) throw new HttpError(400, `"subtitleMode" deve ser ${SUBTITLE_MODES.join(', ')}.`);
+  if (!TIMELINE_FRAME_RATES.includes(settings.timelineFrameRate)) {
+    throw new HttpError(400, `"timelineFrameRate" deve ser ${TIMELINE_FRAME_RATES.join(', ')}.`);
+  }
+  const outputError = outputSettingsError(settings);
+  if (outputError) throw new HttpError(400, outputError);
+  return settings;
+}
+
+function resolveLexicon(value: unknown): LexiconEntry[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) throw new HttpError(400, '"lexicon" deve ser uma lista de entradas.');
+  return value.map((entry, index) => {
+    const field = `lexicon[${index}]`;
+    if (!isObject(entry)) throw new HttpError(400, `"${field}" deve ser um objeto com "term" e "replacement".`);
+    const { id, ...fields } = entry;
+    const picked = pickFields(field, fields, LEXICON_ENTRY_FIELDS);
+    if (picked.term === undefined || picked.replacement === undefined) throw new HttpError(400, `"${field}" precisa de "term" e "replacement".`);
+    return { ...LEXICON_ENTRY_FIELDS, ...picked, id: optionalString(`${field}.id`, id) ?? uuidv4() };
+  });
+}
+
+function resolveSpeakers(value: unknown): Speaker[] | undefined {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value)) throw new HttpError(400, '"speakers" deve ser uma lista de locutores.');
+  return value.map((entry, index) => {
+    const field = `speakers[${index}]`;
+    if (!isObject(entry) || typeof entry.id !== 'string' || typeof entry.name !== 'string') {
+      throw new HttpError(400, `"${field}" deve ser um objeto com "id" e "name".`);
+    }
+    return { id: entry.id, name: entry.name, color: optionalString(`${field}.color`, entry.color) ?? '', settings: pickFields(`${field}.settings`, entry.settings, DEFAULT_SETTINGS) };
+  });
+}
+
+function resolveChunking(value: unknown): ChunkingSettings {
+  return { ...DEFAULT_CHUNKING_SETTINGS, ...pickFields('chunking', value, DEFAULT_CHUNKING_SETTINGS) };
+}
+
+function resolveProcessing(value: unknown): ProcessingSettings {
+  return { ...DEFAULT_PROCESSING_SETTINGS, ...pickFields('processing', value, DEFAULT_PROCESSING_SETTINGS) };
+}
+
+function resolveQueue(value: unknown): Partial<QueueConfig> {
+  return pickFields('queue', value, DEFAULT_QUEUE_CONFIG);
+}
+
+function resolveBlock(value: unknown, index: number): AudioBlock {
+  const field = `blocks[${index}]`;
+  const block = typeof value === 'string' ? { text: value } : value;
+  if (!isObject(block)) throw new HttpError(400, `"${field}" deve ser um texto ou um objeto com "text".`);
+  return {
+    id: optionalString(`${field}.id`, block.id) ?? uuidv4(),
+    text: optionalString(`${field}.text`, block.text) ?? '',
+    speakerId: optionalString(`${field}.speakerId`, block.speakerId),
+    overrides: block.overrides === undefined ? undefined : pickFields(`${field}.overrides`, block.overrides, DEFAULT_SETTINGS),
+    pauseAfterMs: optionalNumber(`${field}.pauseAfterMs`, block.pauseAfterMs),
+    isGenerating: false,
+    isPlaying: false,
+  };
+}
+
+/**
+ * Reads a JSON body. Other content types are refused, so a web page can't reach the API with a CORS
+ * "simple request" (text/plain or form posts skip the preflight). The body must be a JSON object.
+ */
+function readBody(req: http.IncomingMessage): Promise<Record<string, unknown>> {
+  const contentType = (req.headers['content-type'] ?? '').split(';')[0].trim().toLowerCase();
+  if (contentType !== 'application/json') {
+    return Promise.reject(new HttpError(415, 'Envie o corpo como JSON (Content-Type: application/json).'));
+  }
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, `Corpo acima de ${MAX_BODY_BYTES / 1024 / 1024}MB.`));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      const text = Buffer.concat(chunks).toString('utf8');
+      if (!text.trim()) return resolve({});
+      let body: unknown;
+      try {
+        body = JSON.parse(text);
+      } catch (err: any) {
+        return reject(new HttpError(400, `JSON inválido: ${err.message}`));
+      }
+      if (!isObject(body)) return reject(new HttpError(400, 'O corpo deve ser um objeto JSON.'));
+      resolve(body);
+    });
+    req.on('error', reject);
+  });
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(body, null, 2));
+}
+
+async function sendBlob(res: http.ServerResponse, blob: Blob, fileName: string, extraHeaders: Record<string, string> = {}) {
+  const data = Buffer.from(await blob.arrayBuffer());
+  res.writeHead(200, {
+    'Content-Type': blob.type || 'application/octet-stream',
+    'Content-Length': String(data.length),
+    'Content-Disposition': `attachment; filename="${fileName}"`,
+    ...extraHeaders,
+  });
+  res.end(data);
+}
+
+/**
+ * Builds the batch document of a job request: either `blocks` (strings or `{text, speakerId?, overrides?,
+ * pauseAfterMs?}`) or a `script` in any format the app imports, plus optional speakers, mix and lexicon.
+ */
+function buildJobDocument(body: unknown): BatchDocument {
+  if (!isObject(body)) throw new HttpError(400, 'O corpo deve ser um objeto JSON.');
+  let doc: BatchDocument;
+  if (typeof body.script === 'string') {
+    const fileName = optionalString('fileName', body.fileName) ?? 'roteiro.txt';
+    const importOptions = pickFields('import', body.import, DEFAULT_IMPORT_OPTIONS);
+    try {
+      doc = loadBatchDocument(body.script, fileName, importOptions);
+    } catch (err: any) {
+      throw new HttpError(400, err.message);
+    }
+  } else if (Array.isArray(body.blocks)) {
+    doc = {
+      name: 'lote',
+      blocks: body.blocks.map(resolveBlock),
+      settings: { ...DEFAULT_SETTINGS },
+      speakers: [],
+      mix: { ...DEFAULT_MIX_SETTINGS },
+      lexicon: [],
+    };
+  } else {
+    throw new HttpError(400, 'Envie "blocks" (lista de textos) ou "script" (roteiro).');
+  }
+  doc.name = optionalString('name', body.name) ?? doc.name;
+  doc.settings = resolveSettings(body.settings, doc.settings);
+  doc.speakers = resolveSpeakers(body.speakers) ?? doc.speakers;
+  doc.mix = { ...doc.mix, ...pickFields('mix', body.mix, DEFAULT_MIX_SETTINGS) };
+  doc.lexicon = [...doc.lexicon, ...resolveLexicon(body.lexicon)];
+  if (!doc.blocks.some(b => b.text.trim())) throw new HttpError(400, 'O lote não tem texto para gerar.');
+  return doc;
+}
+
+function describeJob(jobs: JobManager, job: ServerJob) {
+  const done = job.state === 'done';
+  return {
+    id: job.id,
+    state: job.state,
+    name: job.request.doc.name,
+    provider: job.request.provider.id,
+    createdAt: new Date(job.createdAt).toISOString(),
+    startedAt: job.startedAt ? new Date(job.startedAt).toISOString() : undefined,
+    finishedAt: job.finishedAt ? new Date(job.finishedAt).toISOString() : undefined,
+    queuePosition: job.state === 'queued' ? jobs.position(job.id) : undefined,
+    progress: job.progress,
+    failures: job.report?.filter(r => r.status === 'failed').length,
+    error: job.error,
+    blocks: job.report,
+    files: job.files?.map(f => f.name),
+    downloads: done ? { zip: `/jobs/${job.id}/zip`, track: jobs.trackFile(job) ? `/jobs/${job.id}/track` : undefined } : undefined,
+  };
+}
+
+function findJob(jobs: JobManager, id: string): ServerJob {
+  const job = jobs.get(id);
+  if (!job) throw new HttpError(404, `Job "${id}" não encontrado (ou já expirado).`);
+  return job;
+}
+
+function finishedJob(jobs: JobManager, id: string): ServerJob {
+  const job = findJob(jobs, id);
+  if (job.state !== 'done') throw new HttpError(409, `Job ainda não concluído (estado: ${job.state}).`);
+  return job;
+}
+
+/**
+ * Routes one request. Each handler throws HttpError for client mistakes; anything else is a 500.
+ */
+async function handle(jobs: JobManager, req: http.IncomingMessage, res: http.ServerResponse) {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const parts = url.pathname.split('/').filter(Boolean);
+  const route = `${req.method} /${parts[0] ?? ''}${parts.length > 1 ? '/:id' : ''}${parts[2] ? `/${parts[2]}` : ''}`;
+
+  switch (route) {
+    case 'GET /':
+    case 'GET /health':
+      return sendJson(res, 200, { ok: true, providers: Array.from(providers.keys()), jobs: jobs.list().length });
+
+    case 'GET /voices':
+      return sendJson(res, 200, Array.from(providers.values()).map(p => ({
+        provider: p.id,
+        label: p.label,
+        model: p.model,
+        sampleRate: p.sampleRate,
+        available: !p.capabilities.requiresApiKey || !!process.env.API_KEY,
+        capabilities: p.capabilities,
+        voices: p.voices,
+      })));
+
+    case 'POST /synthesize': {
+      const body = await readBody(req);
+      if (typeof body.text !== 'string' || !body.text.trim()) throw new HttpError(400, '"text" é obrigatório.');
+      const provider = resolveProvider(body.provider);
+      const settings = resolveSettings(body.settings);
+      const exportSettings = resolveExport(body.export, body.format);
+      // Cancela a geração se o cliente desistir da resposta.
+      const controller = new AbortController();
+      res.on('close', () => { if (!res.writableFinished) controller.abort(); });
+      const pcm = await synthesizeText(provider, body.text, settings, { signal: controller.signal, lexicon: resolveLexicon(body.lexicon), chunking: resolveChunking(body.chunking) });
+      const blob = await encodeAudio(pcm, provider.sampleRate, exportSettings);
+      return sendBlob(res, blob, `audio.${exportExtension(exportSettings)}`, {
+        'X-Audio-Duration': ((pcm.length >> 1) / provider.sampleRate).toFixed(3),
+        'X-Sample-Rate': String(provider.sampleRate),
+      });
+    }
+
+    case 'POST /jobs': {
+      const body = await readBody(req);
+      const job = jobs.submit({
+        doc: buildJobDocument(body),
+        provider: resolveProvider(body.provider),
+        export: resolveExport(body.export, body.format),
+        processing: resolveProcessing(body.processing),
+        queue: resolveQueue(body.queue),
+        chunking: resolveChunking(body.chunking),
+      });
+      res.setHeader('Location', `/jobs/${job.id}`);
+      return sendJson(res, 202, describeJob(jobs, job));
+    }
+
+    case 'GET /jobs':
+      return sendJson(res, 200, jobs.list().map(job => describeJob(jobs, job)));
+
+    case 'GET /jobs/:id':
+      return sendJson(res, 200, describeJob(jobs, findJob(jobs, parts[1])));
+
+    case 'DELETE /jobs/:id':
+      return sendJson(res, 200, describeJob(jobs, jobs.cancel(parts[1]) ?? findJob(jobs, parts[1])));
+
+    case 'GET /jobs/:id/zip': {
+      const job = finishedJob(jobs, parts[1]);
+      const zip = new JSZip();
+      for (const file of job.files ?? []) zip.file(file.name, await file.data.arrayBuffer());
+      zip.file('report.json', JSON.stringify(describeJob(jobs, job), null, 2));
+      const data = await zip.generateAsync({ type: 'nodebuffer' });
+      return sendBlob(res, new Blob([data], { type: 'application/zip' }), `${job.request.doc.name || 'audios'}.zip`);
+    }
+
+    case 'GET /jobs/:id/track': {
+      const job = finishedJob(jobs, parts[1]);
+      const track = jobs.trackFile(job);
+      if (!track) throw new HttpError(404, 'O job não gerou faixa única (nenhum trecho com áudio).');
+      return sendBlob(res, track.data, track.name);
+    }
+  }
+
+  throw new HttpError(404, `Rota ${req.method} ${url.pathname} não existe.`);
+}
+
+function main(argv: string[]) {
+  const { values: flags } = parseArgs({
+    args: argv,
+    options: {
+      port: { type: 'string' },
+      host: { type: 'string' },
+      retention: { type: 'string' },
+      'allow-origin': { type: 'string', multiple: true },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+  if (flags.help) {
+    console.log(SERVER_USAGE);
+    return;
+  }
+
+  const port = Number(flags.port ?? process.env.TTS_SERVER_PORT ?? 8787);
+  const host = flags.host ?? '127.0.0.1';
+  const allowedOrigins = new Set(flags['allow-origin'] ?? []);
+  const jobs = createJobManager({ retentionMs: Number(flags.retention ?? 60) * 60_000 });
+
+  const server = http.createServer((req, res) => {
+    // Só origens liberadas com --allow-origin falam com o servidor a partir do navegador: qualquer
+    // outra página aberta poderia gastar a cota Gemini do usuário.
+    const origin = req.headers.origin;
+    if (origin) {
+      if (!allowedOrigins.has(origin)) return sendJson(res, 403, { error: `Origem "${origin}" não liberada. Inicie o servidor com --allow-origin ${origin}.` });
+      res.setHeader('Access-Control-Allow-Origin', origin);
+      res.setHeader('Vary', 'Origin');
+      res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+      res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+      res.setHeader('Access-Control-Expose-Headers', 'Location, Content-Disposition, Retry-After, X-Audio-Duration, X-Sample-Rate');
+    }
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    handle(jobs, req, res).catch(err => {
+      if (res.headersSent) {
+        res.destroy();
+        return;
+      }
+      if (err instanceof HttpError) return sendJson(res, err.status, { error: err.message, details: err.details });
+      if (err instanceof MarkupError) return sendJson(res, 422, { error: err.message, kind: err.kind, issues: err.issues });
+      if (err instanceof TTSError) {
+        if (err.retryAfterMs) res.setHeader('Retry-After', String(Math.ceil(err.retryAfterMs / 1000)));
+        return sendJson(res, TTS_ERROR_STATUS[err.kind], { error: err.message, kind: err.kind, retryable: err.retryable });
+      }
+      if (err?.name === 'AbortError') return res.destroy();
+      console.error(`${req.method} ${req.url}:`, err);
+      sendJson(res, 500, { error: err?.message ?? String(err) });
+    });
+  });
+
+  server.listen(port, host, () => {
+    console.error(`Servidor TTS em http://${host}:${port} · motores: ${Array.from(providers.keys()).join(', ')}${process.env.API_KEY ? '' : ' (gemini sem chave)'}`);
+    if (allowedOrigins.size > 0) console.error(`CORS liberado para: ${Array.from(allowedOrigins).join(', ')}`);
+  });
+  process.once('SIGINT', () => {
+    console.error('\nEncerrando servidor...');
+    jobs.list().forEach(job => jobs.cancel(job.id));
+    jobs.close();
+    server.close(() => process.exit(0));
+  });
+}
+
+try {
+  main(process.argv.slice(2));
+} catch (err: any) {
+  console.error(`Erro: ${err.message}`);
+  process.exit(2);
+}
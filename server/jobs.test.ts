@@ -0,0 +1,127 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_SETTINGS } from '../types';
+import { DEFAULT_EXPORT_SETTINGS } from '../utils/encoders';
+import { DEFAULT_MIX_SETTINGS } from '../utils/mixdown';
+import { BatchDocument } from '../services/batchRender';
+import { createMockProvider } from '../services/mockService';
+import { JobManager, JobRequest, ServerJob, createJobManager } from './jobs';
+
+const doc = (texts: string[], voice = DEFAULT_SETTINGS.voice): BatchDocument => ({
+  name: 'lote',
+  blocks: texts.map((text, index) => ({ id: `b${index + 1}`, text, isGenerating: false, isPlaying: false })),
+  settings: { ...DEFAULT_SETTINGS, voice },
+  speakers: [],
+  mix: { ...DEFAULT_MIX_SETTINGS },
+  lexicon: [],
+});
+
+const request = (document: BatchDocument, latencyMs = 0): JobRequest => ({
+  doc: document,
+  provider: createMockProvider(latencyMs),
+  export: { ...DEFAULT_EXPORT_SETTINGS },
+  queue: { concurrency: 1, maxRetries: 0 },
+});
+
+const FINISHED = ['done', 'failed', 'cancelled'];
+const settle = (job: ServerJob) => vi.waitFor(() => expect(FINISHED).toContain(job.state), { timeout: 5000 });
+
+// Cada teste cria o seu; o timer de expiração é parado no afterEach.
+let current: JobManager | undefined;
+const manager = (retentionMs = 60_000) => (current = createJobManager({ retentionMs }));
+
+afterEach(() => {
+  current?.close();
+  current = undefined;
+  vi.useRealTimers();
+});
+
+describe('createJobManager', () => {
+  it('runs jobs one at a time in submission order', async () => {
+    const jobs = manager();
+    const [a, b, c] = ['Um.', 'Dois.', 'Três.'].map(text => jobs.submit(request(doc([text]), 30)));
+    expect(a.state).toBe('running');
+    expect([b.state, c.state]).toEqual(['queued', 'queued']);
+    expect([jobs.position(a.id), jobs.position(b.id), jobs.position(c.id)]).toEqual([-1, 0, 1]);
+
+    await settle(c);
+    expect([a, b, c].map(j => j.state)).toEqual(['done', 'done', 'done']);
+    expect(b.startedAt!).toBeGreaterThanOrEqual(a.finishedAt!);
+    expect(c.startedAt!).toBeGreaterThanOrEqual(b.finishedAt!);
+    expect(jobs.position(c.id)).toBe(-1);
+    expect(jobs.trackFile(a)?.name).toBe('faixa_completa.wav');
+  });
+
+  it('cancels a queued job without running it', async () => {
+    const jobs = manager();
+    const a = jobs.submit(request(doc(['Um.']), 30));
+    const b = jobs.submit(request(doc(['Dois.'])));
+    const c = jobs.submit(request(doc(['Três.'])));
+
+    expect(jobs.cancel(b.id)?.state).toBe('cancelled');
+    expect(b.finishedAt).toBeDefined();
+    expect(jobs.position(c.id)).toBe(0);
+
+    await settle(c);
+    expect([a.state, c.state]).toEqual(['done', 'done']);
+    expect(b.startedAt).toBeUndefined();
+    expect(b.report).toBeUndefined();
+  });
+
+  it('aborts a running job and moves on to the next one', async () => {
+    const jobs = manager();
+    const a = jobs.submit(request(doc(['Um.', 'Dois.', 'Três.']), 200));
+    const b = jobs.submit(request(doc(['Quatro.'])));
+
+    expect(jobs.cancel(a.id)?.state).toBe('running');
+    await settle(a);
+    expect(a.state).toBe('cancelled');
+    expect(a.files).toBeUndefined();
+    expect(a.report?.map(r => r.status)).toEqual(['cancelled', 'cancelled', 'cancelled']);
+
+    await settle(b);
+    expect(b.state).toBe('done');
+  });
+
+  it('returns undefined when cancelling an unknown job', () => {
+    expect(manager().cancel('nenhum')).toBeUndefined();
+  });
+
+  it('fails the job when every block fails', async () => {
+    const jobs = manager();
+    const job = jobs.submit(request(doc(['Um.', 'Dois.'], 'Inexistente')));
+    await settle(job);
+    expect(job.state).toBe('failed');
+    expect(job.error).toMatch(/^Todos os 2 trecho\(s\) falharam: /);
+    expect(job.report?.map(r => [r.status, r.errorKind])).toEqual([['failed', 'invalid-voice'], ['failed', 'invalid-voice']]);
+    expect(job.files).toBeUndefined();
+  });
+
+  it('still finishes a job when only some blocks fail', async () => {
+    const jobs = manager();
+    const document = doc(['Um.', 'Dois.']);
+    document.blocks[1].overrides = { voice: 'Inexistente' };
+    const job = jobs.submit(request(document));
+    await settle(job);
+    expect(job.state).toBe('done');
+    expect(job.report?.map(r => r.status)).toEqual(['done', 'failed']);
+    expect(job.files?.map(f => f.name)).toContain('audio_1.wav');
+  });
+
+  it('drops finished jobs once the retention expires', async () => {
+    const jobs = manager(1000);
+    const done = jobs.submit(request(doc(['Um.'])));
+    await settle(done);
+    const waiting = jobs.submit(request(doc(['Dois.']), 10_000));
+
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(done.finishedAt! + 500);
+    expect(jobs.get(done.id)).toBe(done);
+
+    vi.setSystemTime(done.finishedAt! + 1001);
+    expect(jobs.get(done.id)).toBeUndefined();
+    expect(jobs.list()).toEqual([waiting]);
+
+    jobs.cancel(waiting.id);
+    await settle(waiting);
+  });
+});
@@ -0,0 +1,153 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ChunkingSettings, ExportSettings, ProcessingSettings, TTSProvider } from '../types';
+import { QueueConfig, QueueProgress } from '../services/generationQueue';
+import { BatchDocument, BatchFile, BlockReport, encodeBatchOutputs, renderBatch } from '../services/batchRender';
+
+export type JobState = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface JobRequest {
+  doc: BatchDocument;
+  provider: TTSProvider;
+  export: ExportSettings;
+  processing?: ProcessingSettings;
+  queue?: Partial<QueueConfig>;
+  chunking?: ChunkingSettings;
+}
+
+export interface ServerJob {
+  id: string;
+  state: JobState;
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  request: JobRequest;
+  progress?: QueueProgress;
+  report?: BlockReport[];
+  files?: BatchFile[];
+  error?: string;
+  controller: AbortController;
+}
+
+export interface JobManagerOptions {
+  /** Finished jobs (and their audio) are dropped after this long. */
+  retentionMs: number;
+}
+
+const TRACK_NAME = 'faixa_completa';
+/** How often expired jobs are dropped while the server is otherwise idle. */
+const PRUNE_INTERVAL_MS = 60_000;
+
+/**
+ * In-memory FIFO of render jobs, run one at a time so concurrent submissions share the provider's
+ * rate limit instead of competing for it. Jobs belong to the server, not to the HTTP request that
+ * created them, so a client can disconnect and poll later.
+ */
+export function createJobManager(options: JobManagerOptions) {
+  const jobs = new Map<string, ServerJob>();
+  let running: ServerJob | null = null;
+
+  const prune = () => {
+    const limit = Date.now() - options.retentionMs;
+    jobs.forEach((job, id) => {
+      if (job.finishedAt && job.finishedAt < limit) jobs.delete(id);
+    });
+  };
+  const pruneTimer = setInterval(prune, Math.min(PRUNE_INTERVAL_MS, Math.max(1000, options.retentionMs)));
+  pruneTimer.unref();
+
+  const execute = async (job: ServerJob) => {
+    const { request } = job;
+    job.state = 'running';
+    job.startedAt = Date.now();
+    try {
+      const { blocks, report } = await renderBatch(request.doc, {
+        provider: request.provider,
+        queue: request.queue,
+        chunking: request.chunking,
+        signal: job.controller.signal,
+        onProgress: progress => { job.progress = progress; },
+      });
+      job.report = report;
+      if (job.controller.signal.aborted) {
+        job.state = 'cancelled';
+        return;
+      }
+      const failed = report.filter(r => r.status === 'failed');
+      if (failed.length > 0 && !report.some(r => r.status === 'done')) {
+        job.state = 'failed';
+        job.error = `Todos os ${failed.length} trecho(s) falharam: ${failed[0].error ?? 'erro desconhecido'}`;
+        return;
+      }
+      job.files = await encodeBatchOutputs(request.doc, blocks, request.provider.sampleRate, {
+        mode: 'both',
+        export: request.export,
+        processing: request.processing,
+        trackName: TRACK_NAME,
+      });
+      job.state = 'done';
+    } catch (err: any) {
+      job.state = 'failed';
+      job.error = err?.message ?? String(err);
+    } finally {
+      job.finishedAt = Date.now();
+    }
+  };
+
+  const pump = async () => {
+    if (running) return;
+    prune();
+    const next = Array.from(jobs.values()).find(j => j.state === 'queued');
+    if (!next) return;
+    running = next;
+    await execute(next);
+    running = null;
+    pump();
+  };
+
+  return {
+    submit(request: JobRequest): ServerJob {
+      const job: ServerJob = { id: uuidv4(), state: 'queued', createdAt: Date.now(), request, controller: new AbortController() };
+      jobs.set(job.id, job);
+      pump();
+      return job;
+    },
+
+    get(id: string): ServerJob | undefined {
+      prune();
+      return jobs.get(id);
+    },
+
+    cancel(id: string): ServerJob | undefined {
+      const job = jobs.get(id);
+      if (!job) return undefined;
+      if (job.state === 'queued') {
+        job.state = 'cancelled';
+        job.finishedAt = Date.now();
+      } else if (job.state === 'running') {
+        job.controller.abort();
+      }
+      return job;
+    },
+
+    list(): ServerJob[] {
+      prune();
+      return Array.from(jobs.values());
+    },
+
+    /** Position in the FIFO (0 = next to run), or -1 when not waiting. */
+    position(id: string): number {
+      return Array.from(jobs.values()).filter(j => j.state === 'queued').findIndex(j => j.id === id);
+    },
+
+    trackFile(job: ServerJob): BatchFile | undefined {
+      return job.files?.find(f => f.name.startsWith(`${TRACK_NAME}.`) && !/\.(srt|vtt)$/.test(f.name));
+    },
+
+    /** Stops the expiry timer. */
+    close() {
+      clearInterval(pruneTimer);
+    },
+  };
+}
+
+export type JobManager = ReturnType<typeof createJobManager>;
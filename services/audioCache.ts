@@ -0,0 +1,169 @@
+
+import { GlobalSettings, TTSProvider } from '../types';
+import { STORES, openDatabase, requestToPromise, transactionDone, withStore } from '../utils/idb';
+import { RequestUsage, synthesizeTracked } from './usageLog';
+
+interface CacheEntry {
+  key: string;
+  pcmData: Uint8Array;
+  sampleRate: number;
+}
+
+interface CacheMeta {
+  key: string;
+  size: number;
+  lastAccess: number;
+}
+
+export interface CacheStats {
+  entries: number;
+  bytes: number;
+  limitBytes: number;
+}
+
+const LIMIT_STORAGE_KEY = 'tts_cache_limit_mb';
+export const DEFAULT_CACHE_LIMIT_MB = 200;
+
+export function getCacheLimitBytes(): number {
+  const mb = Number(localStorage.getItem(LIMIT_STORAGE_KEY)) || DEFAULT_CACHE_LIMIT_MB;
+  return mb * 1024 * 1024;
+}
+
+export async function setCacheLimitMb(mb: number): Promise<void> {
+  localStorage.setItem(LIMIT_STORAGE_KEY, String(mb));
+  await evictToLimit();
+}
+
+/**
+ * Whitespace and Unicode differences don't change the spoken result, so they don't change the key.
+ */
+export function normalizeCacheText(text: string): string {
+  return text.normalize('NFC').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * SHA-256 over the normalized text, every voice setting and the provider/model that produced the audio.
+ */
+export async function audioCacheKey(text: string, settings: GlobalSettings, provider: Pick<TTSProvider, 'id' | 'model' | 'sampleRate'>): Promise<string> {
+  const payload = JSON.stringify([
+    normalizeCacheText(text),
+    settings.voice,
+    settings.speed,
+    settings.temperature,
+    settings.style.trim(),
+    settings.accent.trim(),
+    settings.seed,
+    provider.id,
+    provider.model,
+    provider.sampleRate,
+  ]);
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(payload));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export async function getCachedAudio(key: string): Promise<Uint8Array | undefined> {
+  const entry = await withStore<CacheEntry | undefined>(STORES.audioCache, 'readonly', store => store.get(key));
+  if (!entry) return undefined;
+  await withStore(STORES.audioCacheMeta, 'readwrite', store => store.put({
+    key,
+    size: entry.pcmData.byteLength,
+    lastAccess: Date.now(),
+  } satisfies CacheMeta));
+  return entry.pcmData;
+}
+
+export async function putCachedAudio(key: string, pcmData: Uint8Array, sampleRate: number): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction([STORES.audioCache, STORES.audioCacheMeta], 'readwrite');
+  tx.objectStore(STORES.audioCache).put({ key, pcmData, sampleRate } satisfies CacheEntry);
+  tx.objectStore(STORES.audioCacheMeta).put({ key, size: pcmData.byteLength, lastAccess: Date.now() } satisfies CacheMeta);
+  await transactionDone(tx);
+  await evictToLimit();
+}
+
+/**
+ * Least-recently-used eviction; only the small metadata store is scanned.
+ */
+export async function evictToLimit(): Promise<void> {
+  const metas = await withStore<CacheMeta[]>(STORES.audioCacheMeta, 'readonly', store => store.index('lastAccess').getAll());
+  const limit = getCacheLimitBytes();
+  let total = metas.reduce((acc, m) => acc + m.size, 0);
+  const evicted: string[] = [];
+  for (const meta of metas) {
+    if (total <= limit) break;
+    evicted.push(meta.key);
+    total -= meta.size;
+  }
+  if (evicted.length === 0) return;
+
+  const db = await openDatabase();
+  const tx = db.transaction([STORES.audioCache, STORES.audioCacheMeta], 'readwrite');
+  evicted.forEach(key => {
+    tx.objectStore(STORES.audioCache).delete(key);
+    tx.objectStore(STORES.audioCacheMeta).delete(key);
+  });
+  await transactionDone(tx);
+}
+
+export async function getCacheStats(): Promise<CacheStats> {
+  const metas = await withStore<CacheMeta[]>(STORES.audioCacheMeta, 'readonly', store => store.getAll());
+  return {
+    entries: metas.length,
+    bytes: metas.reduce((acc, m) => acc + m.size, 0),
+    limitBytes: getCacheLimitBytes(),
+  };
+}
+
+export async function clearAudioCache(): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction([STORES.audioCache, STORES.audioCacheMeta], 'readwrite');
+  await Promise.all([
+    requestToPromise(tx.objectStore(STORES.audioCache).clear()),
+    requestToPromise(tx.objectStore(STORES.audioCacheMeta).clear()),
+    transactionDone(tx),
+  ]);
+}
+
+/**
+ * Returns cached audio for (text, settings, provider) when available, otherwise runs `produce` and stores the result.
+ * `refresh` skips the lookup (a new take) but still stores the result. Cache failures (private mode, quota) never block generation.
+ */
+export async function withAudioCache(
+  provider: TTSProvider,
+  text: string,
+  settings: GlobalSettings,
+  produce: () => Promise<Uint8Array>,
+  refresh: boolean = false,
+): Promise<Uint8Array> {
+  // Fora do navegador (CLI, servidor) não há IndexedDB: gera direto.
+  if (typeof indexedDB === 'undefined') return produce();
+  let key: string | undefined;
+  try {
+    key = await audioCacheKey(text, settings, provider);
+    const cached = refresh ? undefined : await getCachedAudio(key);
+    if (cached) return cached;
+  } catch (err) {
+    console.warn("Cache de áudio indisponível:", err);
+  }
+
+  const pcmData = await produce();
+  if (key) putCachedAudio(key, pcmData, provider.sampleRate).catch(err => console.warn("Falha ao gravar no cache:", err));
+  return pcmData;
+}
+
+/**
+ * Cached synthesis of a single request. Requests that actually reach the provider are reported to `onRequest`.
+ */
+export function synthesizeWithCache(
+  provider: TTSProvider,
+  text: string,
+  settings: GlobalSettings,
+  signal?: AbortSignal,
+  refresh: boolean = false,
+  onRequest?: (usage: RequestUsage) => void,
+): Promise<Uint8Array> {
+  const produce = () => onRequest
+    ? synthesizeTracked(provider, text, settings, signal, onRequest)
+    : provider.synthesize(text, settings, signal);
+  return withAudioCache(provider, text, settings, produce, refresh);
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { AudioBlock, DEFAULT_SETTINGS } from '../types';
+import { DEFAULT_EXPORT_SETTINGS } from '../utils/encoders';
+import { DEFAULT_MIX_SETTINGS } from '../utils/mixdown';
+import { BatchDocument, encodeBatchOutputs, loadBatchDocument, renderBatch } from './batchRender';
+import { createMockProvider } from './mockService';
+
+const project = (fields: object) => JSON.stringify({ format: 'edson-tts-project', blocks: [], ...fields });
+
+describe('loadBatchDocument', () => {
+  it('turns a script into blocks and speakers', () => {
+    const doc = loadBatchDocument('Ana: Olá.\n\nBruno: Oi.\n\nAna: Tchau.', 'pasta/roteiro.txt');
+    expect(doc.name).toBe('roteiro');
+    expect(doc.speakers.map(s => s.name)).toEqual(['Ana', 'Bruno']);
+    expect(doc.blocks.map(b => [b.text, doc.speakers.find(s => s.id === b.speakerId)?.name])).toEqual([['Olá.', 'Ana'], ['Oi.', 'Bruno'], ['Tchau.', 'Ana']]);
+    expect(doc.settings).toEqual(DEFAULT_SETTINGS);
+  });
+
+  it('reads a project.json, filling in defaults', () => {
+    const doc = loadBatchDocument(project({
+      name: 'Aula',
+      blocks: [{ id: 'b1', text: 'Um.', pauseAfterMs: 300, overrides: { voice: 'Puck' } }, {}],
+      settings: { speed: 1.3 },
+      mix: { crossfadeMs: 50 },
+    }), 'project.json');
+    expect(doc.name).toBe('Aula');
+    expect(doc.blocks[0]).toMatchObject({ id: 'b1', text: 'Um.', pauseAfterMs: 300, overrides: { voice: 'Puck' } });
+    expect(doc.blocks[1].text).toBe('');
+    expect(doc.blocks[1].id).toBeTruthy();
+    expect(doc.settings).toEqual({ ...DEFAULT_SETTINGS, speed: 1.3 });
+    expect(doc.mix).toEqual({ ...DEFAULT_MIX_SETTINGS, crossfadeMs: 50 });
+  });
+
+  it.each([
+    ['{', 'JSON inválido'],
+    ['[]', 'não é um project.json do Edson TTS'],
+    [JSON.stringify({ format: 'outro', blocks: [] }), 'não é um project.json do Edson TTS'],
+    [JSON.stringify({ format: 'edson-tts-project' }), 'não é um project.json do Edson TTS'],
+    [project({ blocks: [null] }), 'trecho 1 inválido'],
+    [project({ blocks: [{ text: 'ok' }, { text: 5 }] }), 'texto do trecho 2 inválido'],
+    [project({ blocks: [{ overrides: 'Puck' }] }), 'ajuste de voz do trecho 1 inválido'],
+    [project({ blocks: [{ pauseAfterMs: '300' }] }), 'pausa do trecho 1 inválido'],
+    [project({ settings: 'rápido' }), '"settings" inválido'],
+    [project({ lexicon: [null] }), '"lexicon" inválido'],
+  ])('rejects %s', (content, message) => {
+    expect(() => loadBatchDocument(content, 'project.json')).toThrow(`project.json: ${message}`);
+  });
+});
+
+describe('renderBatch', () => {
+  it('generates blocks with text, reports failures and skips empty blocks', async () => {
+    const doc = loadBatchDocument(project({ blocks: [{ text: 'Olá.' }, { text: '  ' }, { text: 'Erro.', overrides: { voice: 'Inexistente' } }] }), 'project.json');
+    const { blocks, report } = await renderBatch(doc, { provider: createMockProvider(0), queue: { maxRetries: 0 } });
+    expect(report.map(r => r.status)).toEqual(['done', 'skipped', 'failed']);
+    expect(report[2]).toMatchObject({ errorKind: 'invalid-voice', attempts: 1 });
+    expect(report[0].durationSeconds).toBeGreaterThan(0);
+    expect(blocks.map(b => !!b.audioData)).toEqual([true, false, false]);
+  });
+});
+
+describe('encodeBatchOutputs', () => {
+  const doc: BatchDocument = { name: 'Teste', blocks: [], settings: DEFAULT_SETTINGS, speakers: [], mix: DEFAULT_MIX_SETTINGS, lexicon: [] };
+  const block = (id: string, samples?: number): AudioBlock => ({ id, text: id, audioData: samples ? new Uint8Array(samples * 2) : undefined, isGenerating: false, isPlaying: false });
+  const blocks = [block('a', 2400), block('b'), block('c', 2400)];
+
+  it('numbers block files among the generated blocks only', async () => {
+    const files = await encodeBatchOutputs(doc, blocks, 24000, { mode: 'blocks', export: { ...DEFAULT_EXPORT_SETTINGS, timeline: true } });
+    expect(files.map(f => f.name)).toEqual(['audio_1.wav', 'audio_2.wav', 'timeline.edl', 'timeline.fcpxml', 'marcadores.csv']);
+    const edl = await files[2].data.text();
+    expect(edl).toContain('* FROM CLIP NAME: audio_2.wav');
+    expect(edl).not.toContain('audio_3.wav');
+  });
+
+  it('writes the single track with its subtitles', async () => {
+    const files = await encodeBatchOutputs(doc, blocks, 24000, { mode: 'single', export: { ...DEFAULT_EXPORT_SETTINGS, subtitleMode: 'block' }, trackName: 'aula' });
+    expect(files.map(f => f.name)).toEqual(['aula.wav', 'aula.srt', 'aula.vtt']);
+  });
+
+  it('writes nothing when no block was generated', async () => {
+    expect(await encodeBatchOutputs(doc, [block('b')], 24000, { mode: 'both', export: DEFAULT_EXPORT_SETTINGS })).toEqual([]);
+  });
+});
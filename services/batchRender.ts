@@ -0,0 +1,232 @@
+import { v4 as uuidv4 } from 'uuid';
+import { AudioBlock, ChunkingSettings, DEFAULT_SETTINGS, ExportSettings, GlobalSettings, LexiconEntry, MixSettings, ProcessingSettings, SettingsOverrides, Speaker, TTSErrorKind, TTSProvider } from '../types';
+import { DEFAULT_PROCESSING_SETTINGS, blockFileName, encodeAudio, exportExtension, processBlocks } from '../utils/audioUtils';
+import { DEFAULT_MIX_SETTINGS, renderSingleTrack, singleTrackLayout } from '../utils/mixdown';
+import { DEFAULT_IMPORT_OPTIONS, ScriptImportOptions, detectScriptFormat, parseScript } from '../utils/scriptImport';
+import { createSpeaker, resolveBlockSettings } from '../utils/speakerUtils';
+import { buildSubtitleCues, formatSrt, formatVtt } from '../utils/subtitles';
+import { buildTimelineFiles } from '../utils/timeline';
+import { resolveOutputFormat } from '../utils/encoders';
+import { DEFAULT_QUEUE_CONFIG, QueueConfig, QueueProgress, createGenerationQueue } from './generationQueue';
+import { synthesizeText } from './blockSynthesis';
+import { errorKind } from './ttsErrors';
+
+/**
+ * Everything needed to render a script without the UI: the headless equivalent of an open project.
+ */
+export interface BatchDocument {
+  name: string;
+  blocks: AudioBlock[];
+  settings: GlobalSettings;
+  speakers: Speaker[];
+  mix: MixSettings;
+  lexicon: LexiconEntry[];
+}
+
+export type BatchOutputMode = 'blocks' | 'single' | 'both';
+
+export interface BatchRenderOptions {
+  provider: TTSProvider;
+  queue?: Partial<QueueConfig>;
+  chunking?: ChunkingSettings;
+  signal?: AbortSignal;
+  onProgress?: (progress: QueueProgress) => void;
+}
+
+export interface BlockReport {
+  index: number;
+  id: string;
+  text: string;
+  status: 'done' | 'failed' | 'cancelled' | 'skipped';
+  attempts: number;
+  error?: string;
+  errorKind?: TTSErrorKind;
+  durationSeconds?: number;
+}
+
+export interface BatchOutputOptions {
+  mode: BatchOutputMode;
+  export: ExportSettings;
+  processing?: ProcessingSettings;
+  /** Base name for the single track and its subtitles. */
+  trackName?: string;
+}
+
+export interface BatchFile {
+  name: string;
+  data: Blob;
+}
+
+const newBlock = (text: string, speakerId?: string): AudioBlock => ({ id: uuidv4(), text, speakerId, isGenerating: false, isPlaying: false });
+
+/**
+ * The part of an exported project.json that batch rendering reads; audio files are ignored.
+ */
+interface ProjectJson {
+  format: 'edson-tts-project';
+  name?: string;
+  blocks: { id?: string; text?: string; speakerId?: string; overrides?: SettingsOverrides; pauseAfterMs?: number }[];
+  settings?: Partial<GlobalSettings>;
+  speakers?: Speaker[];
+  mix?: Partial<MixSettings>;
+  lexicon?: LexiconEntry[];
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function parseProjectJson(content: string, fileName: string): ProjectJson {
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(content);
+  } catch (err: any) {
+    throw new Error(`${fileName}: JSON inválido (${err.message}).`);
+  }
+  if (!isObject(manifest) || manifest.format !== 'edson-tts-project' || !Array.isArray(manifest.blocks)) {
+    throw new Error(`${fileName}: não é um project.json do Edson TTS.`);
+  }
+  const invalid = (what: string) => new Error(`${fileName}: ${what} inválido.`);
+  manifest.blocks.forEach((block, index) => {
+    const where = `trecho ${index + 1}`;
+    if (!isObject(block)) throw invalid(where);
+    if (block.text !== undefined && typeof block.text !== 'string') throw invalid(`texto do ${where}`);
+    if (block.id !== undefined && typeof block.id !== 'string') throw invalid(`id do ${where}`);
+    if (block.speakerId !== undefined && typeof block.speakerId !== 'string') throw invalid(`locutor do ${where}`);
+    if (block.overrides !== undefined && !isObject(block.overrides)) throw invalid(`ajuste de voz do ${where}`);
+    if (block.pauseAfterMs !== undefined && typeof block.pauseAfterMs !== 'number') throw invalid(`pausa do ${where}`);
+  });
+  if (manifest.name !== undefined && typeof manifest.name !== 'string') throw invalid('nome');
+  if (manifest.settings !== undefined && !isObject(manifest.settings)) throw invalid('"settings"');
+  if (manifest.mix !== undefined && !isObject(manifest.mix)) throw invalid('"mix"');
+  if (manifest.speakers !== undefined && !(Array.isArray(manifest.speakers) && manifest.speakers.every(isObject))) throw invalid('"speakers"');
+  if (manifest.lexicon !== undefined && !(Array.isArray(manifest.lexicon) && manifest.lexicon.every(isObject))) throw invalid('"lexicon"');
+  return manifest as unknown as ProjectJson;
+}
+
+/**
+ * Reads a script (.txt, .md, .srt, .vtt) or a project.json into a batch document.
+ * Speaker names found in the script become speakers with default settings.
+ */
+export function loadBatchDocument(content: string, fileName: string, importOptions: Partial<ScriptImportOptions> = {}): BatchDocument {
+  const baseName = fileName.replace(/^.*[\\/]/, '').replace(/\.[^.]+$/, '');
+
+  if (fileName.toLowerCase().endsWith('.json')) {
+    const manifest = parseProjectJson(content, fileName);
+    return {
+      name: manifest.name || baseName,
+      blocks: manifest.blocks.map(b => ({ ...newBlock(b.text ?? '', b.speakerId), id: b.id ?? uuidv4(), overrides: b.overrides, pauseAfterMs: b.pauseAfterMs })),
+      settings: { ...DEFAULT_SETTINGS, ...manifest.settings },
+      speakers: manifest.speakers ?? [],
+      mix: { ...DEFAULT_MIX_SETTINGS, ...manifest.mix },
+      lexicon: manifest.lexicon ?? [],
+    };
+  }
+
+  const options = { ...DEFAULT_IMPORT_OPTIONS, format: detectScriptFormat(content, fileName), ...importOptions };
+  const speakers: Speaker[] = [];
+  const blocks = parseScript(content, options).map(segment => {
+    let speaker = segment.speakerName ? speakers.find(s => s.name.toLowerCase() === segment.speakerName!.toLowerCase()) : undefined;
+    if (segment.speakerName && !speaker) {
+      speaker = createSpeaker(segment.speakerName, uuidv4(), speakers);
+      speakers.push(speaker);
+    }
+    return newBlock(segment.text, speaker?.id);
+  });
+  return { name: baseName, blocks, settings: { ...DEFAULT_SETTINGS }, speakers, mix: { ...DEFAULT_MIX_SETTINGS }, lexicon: [] };
+}
+
+/**
+ * Generates every block with text through the generation queue (same concurrency, retry and
+ * rate-limit handling as the app). Resolves once all jobs settle; failures are reported, not thrown.
+ */
+export function renderBatch(doc: BatchDocument, options: BatchRenderOptions): Promise<{ blocks: AudioBlock[]; report: BlockReport[] }> {
+  const audio = new Map<string, Uint8Array>();
+  const kinds = new Map<string, TTSErrorKind>();
+  const ids = doc.blocks.filter(b => b.text.trim()).map(b => b.id);
+
+  return new Promise(resolve => {
+    const finish = (jobs: Record<string, { status: string; attempts: number; error?: string }>) => {
+      const blocks = doc.blocks.map(b => ({ ...b, audioData: audio.get(b.id) }));
+      const report: BlockReport[] = doc.blocks.map((block, index) => {
+        const job = jobs[block.id];
+        const pcm = audio.get(block.id);
+        return {
+          index,
+          id: block.id,
+          text: block.text,
+          status: !job ? 'skipped' : (job.status as BlockReport['status']),
+          attempts: job?.attempts ?? 0,
+          error: job?.status === 'failed' ? job.error : undefined,
+          errorKind: job?.status === 'failed' ? kinds.get(block.id) : undefined,
+          durationSeconds: pcm ? (pcm.length >> 1) / options.provider.sampleRate : undefined,
+        };
+      });
+      resolve({ blocks, report });
+    };
+
+    if (ids.length === 0) return finish({});
+
+    let settled = false;
+    const queue = createGenerationQueue({
+      ...DEFAULT_QUEUE_CONFIG,
+      ...options.queue,
+      run: async (id, signal) => {
+        const block = doc.blocks.find(b => b.id === id)!;
+        const pcm = await synthesizeText(options.provider, block.text, resolveBlockSettings(block, doc.speakers, doc.settings), { signal, lexicon: doc.lexicon, chunking: options.chunking });
+        audio.set(id, pcm);
+      },
+      onJobError: (id, error, willRetry) => {
+        if (!willRetry) kinds.set(id, errorKind(error));
+      },
+      onChange: snapshot => {
+        options.onProgress?.(snapshot.progress);
+        if (!settled && snapshot.progress.total > 0 && snapshot.progress.remaining === 0) {
+          settled = true;
+          options.signal?.removeEventListener('abort', abort);
+          finish(snapshot.jobs);
+        }
+      },
+    });
+    const abort = () => queue.cancelAll();
+    options.signal?.addEventListener('abort', abort);
+    queue.enqueue(ids);
+  });
+}
+
+/**
+ * Encodes the rendered blocks: one file per generated block (`audio_1.wav`...) and/or the assembled single
+ * track with its subtitles, using the same processing, mixing, encoders and file names as the app's exports.
+ */
+export async function encodeBatchOutputs(doc: BatchDocument, blocks: AudioBlock[], sampleRate: number, options: BatchOutputOptions): Promise<BatchFile[]> {
+  const processed = processBlocks(blocks, sampleRate, options.processing ?? DEFAULT_PROCESSING_SETTINGS);
+  const extension = exportExtension(options.export);
+  const fileNameFor = (index: number) => blockFileName(index, extension);
+  const files: BatchFile[] = [];
+
+  if (options.mode !== 'single') {
+    // Numerados só entre os trechos gerados, como no ZIP do app.
+    const generated = processed.filter(b => b.audioData);
+    for (const [index, block] of generated.entries()) {
+      if (block.audioData) files.push({ name: fileNameFor(index), data: await encodeAudio(block.audioData, sampleRate, options.export) });
+    }
+    if (options.export.timeline) {
+      const { sampleRate: fileRate, channels } = resolveOutputFormat(options.export, sampleRate);
+      const timeline = buildTimelineFiles(generated, singleTrackLayout(generated, sampleRate, doc.mix), fileNameFor, { title: doc.name, frameRate: options.export.timelineFrameRate, sampleRate: fileRate, channels }, doc.speakers);
+      files.push(...timeline.map(file => ({ name: file.name, data: new Blob([file.data], { type: 'text/plain' }) })));
+    }
+  }
+
+  if (options.mode !== 'blocks') {
+    const { pcmData, layout } = renderSingleTrack(processed, sampleRate, doc.mix);
+    if (layout.segments.length > 0) {
+      const trackName = options.trackName ?? 'faixa_completa';
+      files.push({ name: `${trackName}.${extension}`, data: await encodeAudio(pcmData, sampleRate, options.export) });
+      if (options.export.subtitleMode !== 'none') {
+        const cues = buildSubtitleCues(processed, layout, options.export.subtitleMode, doc.speakers);
+        files.push({ name: `${trackName}.srt`, data: new Blob([formatSrt(cues)], { type: 'application/x-subrip' }) });
+        files.push({ name: `${trackName}.vtt`, data: new Blob([formatVtt(cues)], { type: 'text/vtt' }) });
+      }
+    }
+  }
+
+  return files;
+}
@@ -0,0 +1,104 @@
+import { ChunkingSettings, GlobalSettings, LexiconEntry, TTSProvider } from '../types';
+import { applyLexicon } from '../utils/lexicon';
+import { MarkupIssue, hasMarkup, parseMarkup, segmentSettings } from '../utils/markup';
+import { DEFAULT_CHUNKING_SETTINGS, chunkBudget, splitIntoChunks, stitchChunks } from '../utils/chunking';
+import { synthesizeWithCache, withAudioCache } from './audioCache';
+import { RequestUsage } from './usageLog';
+import { TTSError } from './ttsErrors';
+
+export class MarkupError extends TTSError {
+  constructor(public issues: MarkupIssue[]) {
+    super('markup', `Marcação inválida: ${issues[0].message}`);
+    this.name = 'MarkupError';
+  }
+}
+
+function silence(sampleRate: number, durationMs: number): Uint8Array {
+  return new Uint8Array(Math.round((sampleRate * durationMs) / 1000) * 2);
+}
+
+function joinPcm(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  parts.forEach(p => {
+    result.set(p, offset);
+    offset += p.length;
+  });
+  return result;
+}
+
+export interface SynthesisOptions {
+  signal?: AbortSignal;
+  lexicon?: LexiconEntry[];
+  /** Bypasses cached audio (segments and chunks included) to get a new take. */
+  refresh?: boolean;
+  chunking?: ChunkingSettings;
+  /** Called as each request of a multi-request block (markup segments, long-text chunks) finishes. */
+  onProgress?: (done: number, total: number) => void;
+  /** Called for every request sent to the provider (cache hits send none), for usage tracking. */
+  onRequest?: (usage: RequestUsage) => void;
+}
+
+/**
+ * Synthesizes a block's text. Plain text is one request; text with inline markup is generated
+ * segment by segment and joined with real silence for pauses. Text over the chunking budget is split
+ * at sentence boundaries, generated chunk by chunk with the same settings and seed, and stitched back.
+ * Segments, chunks and the joined markup result are cached, so an unchanged block is restored without any request.
+ * The pronunciation lexicon is applied first, so the provider (and the cache key) see the spoken form.
+ */
+export async function synthesizeText(
+  provider: TTSProvider,
+  source: string,
+  settings: GlobalSettings,
+  options: SynthesisOptions = {},
+): Promise<Uint8Array> {
+  const { signal, refresh = false, chunking = DEFAULT_CHUNKING_SETTINGS, onProgress, onRequest } = options;
+  const text = applyLexicon(source, options.lexicon ?? []);
+  const chunksOf = (speech: string, speechSettings: GlobalSettings) => splitIntoChunks(speech, chunkBudget(chunking, speechSettings.speed, provider.capabilities.maxTextLength));
+
+  const checkAborted = () => {
+    if (signal?.aborted) throw new DOMException('Geração cancelada.', 'AbortError');
+  };
+  let done = 0;
+  let total = 0;
+  const speak = async (chunks: string[], speechSettings: GlobalSettings) => {
+    const parts: Uint8Array[] = [];
+    for (const chunk of chunks) {
+      checkAborted();
+      parts.push(await synthesizeWithCache(provider, chunk, speechSettings, signal, refresh, onRequest));
+      if (total > 1) onProgress?.(++done, total);
+    }
+    return stitchChunks(parts, provider.sampleRate, chunking.gapMs);
+  };
+
+  if (!hasMarkup(text)) {
+    const chunks = chunksOf(text, settings);
+    if (chunks.length === 1) return synthesizeWithCache(provider, text, settings, signal, refresh, onRequest);
+    total = chunks.length;
+    onProgress?.(0, total);
+    return speak(chunks, settings);
+  }
+
+  const { segments, issues } = parseMarkup(text, provider.voices);
+  if (issues.length > 0) throw new MarkupError(issues);
+
+  return withAudioCache(provider, text, settings, async () => {
+    const planned = segments.map(segment => segment.kind === 'pause'
+      ? segment
+      : { ...segment, settings: segmentSettings(settings, segment), chunks: [] as string[] });
+    planned.forEach(segment => {
+      if (segment.kind === 'speech') segment.chunks = chunksOf(segment.text, segment.settings);
+    });
+    total = planned.reduce((sum, segment) => sum + (segment.kind === 'speech' ? segment.chunks.length : 0), 0);
+    if (total > 1) onProgress?.(0, total);
+
+    const parts: Uint8Array[] = [];
+    for (const segment of planned) {
+      checkAborted();
+      parts.push(segment.kind === 'pause'
+        ? silence(provider.sampleRate, segment.durationMs)
+        : await speak(segment.chunks, segment.settings));
+    }
+    return joinPcm(parts);
+  }, refresh);
+}
@@ -0,0 +1,38 @@
+import { ApiError } from '@google/genai';
+import { describe, expect, it } from 'vitest';
+import { TTSErrorKind } from '../types';
+import { classifyGeminiError } from './geminiService';
+import { TTSError } from './ttsErrors';
+
+const apiError = (status: number, message: string) => new ApiError({ status, message });
+const QUOTA_BODY = '{"error":{"code":429,"status":"RESOURCE_EXHAUSTED","details":[{"@type":"type.googleapis.com/google.rpc.RetryInfo","retryDelay":"17.2s"}]}}';
+
+describe('classifyGeminiError', () => {
+  it.each<[string, unknown, TTSErrorKind, { status?: number; retryAfterMs?: number; retryable: boolean }]>([
+    ['403 permission denied', apiError(403, 'PERMISSION_DENIED'), 'auth', { status: 403, retryable: false }],
+    ['429 with a retryDelay body', apiError(429, QUOTA_BODY), 'quota', { status: 429, retryAfterMs: 17_200, retryable: true }],
+    ['RESOURCE_EXHAUSTED without a status', new Error('got status: RESOURCE_EXHAUSTED'), 'quota', { status: 429, retryable: true }],
+    ['Requested entity was not found (revoked key)', new Error('Requested entity was not found.'), 'auth', { retryable: false }],
+    ['400 voice error', apiError(400, 'Voice name Xyz is not supported'), 'invalid-voice', { status: 400, retryable: false }],
+    ['400 text too long', apiError(400, 'The input token count exceeds the maximum'), 'text-too-long', { status: 400, retryable: false }],
+    ['503 from the service', apiError(503, 'The model is overloaded'), 'server', { status: 503, retryable: true }],
+    ['network TypeError', new TypeError('fetch failed'), 'network', { retryable: true }],
+    ['thrown string', 'algo estranho', 'unknown', { retryable: false }],
+  ])('%s', (_, error, kind, expected) => {
+    const classified = classifyGeminiError(error);
+    expect(classified).toBeInstanceOf(TTSError);
+    expect(classified).toMatchObject({ kind, retryAfterMs: undefined, status: undefined, ...expected });
+    expect(classified.cause).toBe(error);
+  });
+
+  it('passes TTS errors and cancellations through', () => {
+    const ttsError = new TTSError('safety', 'Bloqueado.');
+    const abort = new DOMException('Geração cancelada.', 'AbortError');
+    expect(classifyGeminiError(ttsError)).toBe(ttsError);
+    expect(classifyGeminiError(abort)).toBe(abort);
+  });
+
+  it('keeps the message of unclassified errors', () => {
+    expect(classifyGeminiError(new Error('Algo inesperado')).message).toBe('Algo inesperado');
+  });
+});
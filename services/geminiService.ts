@@ -1,33 +1,124 @@
 
-import { GoogleGenAI, Modality } from "@google/genai";
+import { FinishReason, GoogleGenAI, Modality } from "@google/genai";
 import { decode } from "../utils/audioUtils";
-import { GlobalSettings, TONE_LABELS } from "../types";
+import { GlobalSettings, TONE_LABELS, TTSProvider, TokenUsage, VOICES } from "../types";
+import { TTSError, errorMessage, errorStatus, retryAfterMs, validateSynthesisRequest } from "./ttsErrors";
 
-export async function generateTTS(text: string, settings: GlobalSettings): Promise<Uint8Array> {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
+export const GEMINI_TTS_MODEL = "gemini-2.5-flash-preview-tts";
+export const GEMINI_SAMPLE_RATE = 24000;
+export const GEMINI_MAX_TEXT_LENGTH = 5000;
+
+const SAFETY_FINISH_REASONS: string[] = [FinishReason.SAFETY, FinishReason.BLOCKLIST, FinishReason.PROHIBITED_CONTENT, FinishReason.SPII];
+
+export interface GeminiProviderOptions {
+  apiKey?: string;
+  model?: string;
+}
+
+export function buildDirectionPrompt(text: string, settings: GlobalSettings): string {
   const toneLabel = TONE_LABELS[settings.temperature] || "Normal";
-  const prompt = `[Direction: Style: ${settings.style || 'Natural'}, Accent: ${settings.accent || 'Default'}, Speed: ${settings.speed}, ${toneLabel}] ${text}`;
-
-  const response = await ai.models.generateContent({
-    model: "gemini-2.5-flash-preview-tts",
-    contents: [{ parts: [{ text: prompt }] }],
-    config: {
-      responseModalities: [Modality.AUDIO],
-      seed: settings.seed,
-      speechConfig: {
-        voiceConfig: {
-          prebuiltVoiceConfig: { voiceName: settings.voice },
+  return `[Direction: Style: ${settings.style || 'Natural'}, Accent: ${settings.accent || 'Default'}, Speed: ${settings.speed}, ${toneLabel}] ${text}`;
+}
+
+/**
+ * Maps an SDK or network failure to a TTSError. The SDK only exposes the HTTP status and the raw
+ * error body, so the google.rpc status names in the message complete the picture.
+ */
+export function classifyGeminiError(error: unknown): TTSError | Error {
+  if (error instanceof TTSError || (error instanceof Error && error.name === 'AbortError')) return error;
+  const message = errorMessage(error);
+  const status = errorStatus(error);
+  const options = { status, cause: error, retryAfterMs: retryAfterMs(error) };
+
+  // "Requested entity was not found" é o que o AI Studio devolve quando a chave selecionada deixou de valer.
+  if (status === 401 || status === 403 || (status !== 429 && /API[_ ]key|PERMISSION_DENIED|UNAUTHENTICATED|Requested entity was not found/i.test(message))) {
+    return new TTSError('auth', 'Chave de API inválida, sem permissão ou sem faturamento ativo.', options);
+  }
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota/i.test(message)) {
+    return new TTSError('quota', 'Limite de uso da API atingido.', { ...options, status: 429 });
+  }
+  if (status === 400 && /voice|speaker/i.test(message)) {
+    return new TTSError('invalid-voice', 'O modelo não aceitou a voz escolhida.', options);
+  }
+  if (status === 400 && /token|too long|exceeds/i.test(message)) {
+    return new TTSError('text-too-long', 'O texto excede o limite do modelo.', options);
+  }
+  if (status !== undefined && status >= 500) {
+    return new TTSError('server', `O serviço do Gemini falhou (${status}).`, options);
+  }
+  if (status === 408 || /network|fetch|ECONNRESET|ENOTFOUND|ETIMEDOUT|timeout|offline/i.test(message)) {
+    return new TTSError('network', 'Falha de conexão com o Gemini.', { ...options, retryable: true });
+  }
+  return new TTSError('unknown', message, options);
+}
+
+export async function generateTTS(
+  text: string,
+  settings: GlobalSettings,
+  options: GeminiProviderOptions = {},
+  signal?: AbortSignal,
+  onUsage?: (usage: TokenUsage) => void,
+): Promise<Uint8Array> {
+  validateSynthesisRequest(text, settings, VOICES, GEMINI_MAX_TEXT_LENGTH);
+  // A chave é lida a cada chamada: o seletor do AI Studio injeta process.env.API_KEY depois do carregamento.
+  const apiKey = options.apiKey ?? process.env.API_KEY;
+  if (!apiKey) throw new TTSError('auth', 'Nenhuma chave de API configurada.');
+
+  let response;
+  try {
+    const ai = new GoogleGenAI({ apiKey });
+    response = await ai.models.generateContent({
+      model: options.model ?? GEMINI_TTS_MODEL,
+      contents: [{ parts: [{ text: buildDirectionPrompt(text, settings) }] }],
+      config: {
+        responseModalities: [Modality.AUDIO],
+        abortSignal: signal,
+        seed: settings.seed,
+        speechConfig: {
+          voiceConfig: {
+            prebuiltVoiceConfig: { voiceName: settings.voice },
+          },
         },
       },
-    },
-  });
+    });
+  } catch (error) {
+    throw classifyGeminiError(error);
+  }
 
-  const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+  // Reportado antes das verificações: um texto bloqueado também consome tokens de entrada.
+  const usage = response.usageMetadata;
+  if (usage) onUsage?.({ promptTokens: usage.promptTokenCount, outputTokens: usage.candidatesTokenCount, totalTokens: usage.totalTokenCount });
+
+  const candidate = response.candidates?.[0];
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason || (candidate?.finishReason && SAFETY_FINISH_REASONS.includes(candidate.finishReason))) {
+    throw new TTSError('safety', `O texto foi bloqueado pelo filtro de segurança (${blockReason ?? candidate?.finishReason}).`);
+  }
+
+  const base64Audio = candidate?.content?.parts?.[0]?.inlineData?.data;
   
   if (!base64Audio) {
-    throw new Error("Não foi possível gerar o áudio. O modelo não retornou dados de voz.");
+    throw new TTSError('empty-audio', "Não foi possível gerar o áudio. O modelo não retornou dados de voz.");
   }
 
   return decode(base64Audio);
 }
+
+export function createGeminiProvider(options: GeminiProviderOptions = {}): TTSProvider {
+  return {
+    id: 'gemini',
+    label: 'Gemini 2.5 Flash TTS',
+    model: options.model ?? GEMINI_TTS_MODEL,
+    sampleRate: GEMINI_SAMPLE_RATE,
+    voices: VOICES,
+    capabilities: {
+      requiresApiKey: true,
+      requiresNetwork: true,
+      supportsStyle: true,
+      supportsAccent: true,
+      supportsSeed: true,
+      maxTextLength: GEMINI_MAX_TEXT_LENGTH,
+    },
+    synthesize: (text, settings, signal, onUsage) => generateTTS(text, settings, options, signal, onUsage),
+  };
+}
@@ -0,0 +1,201 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { QueueSnapshot, backoffDelay, createGenerationQueue, isRetryableError } from './generationQueue';
+
+const config = { concurrency: 2, maxRetries: 2, baseDelayMs: 1000, maxDelayMs: 8000 };
+
+interface Deferred {
+  resolve: () => void;
+  reject: (error: unknown) => void;
+  signal: AbortSignal;
+}
+
+/** A queue whose jobs stay running until the test settles them. */
+function setup(overrides = {}) {
+  const calls: Record<string, Deferred[]> = {};
+  let snapshot: QueueSnapshot | undefined;
+  const queue = createGenerationQueue({
+    ...config,
+    ...overrides,
+    run: (id, signal) => new Promise<void>((resolve, reject) => {
+      (calls[id] ??= []).push({ resolve, reject, signal });
+    }),
+    onChange: next => { snapshot = next; },
+  });
+  const status = (id: string) => snapshot?.jobs[id]?.status;
+  const last = (id: string) => calls[id][calls[id].length - 1];
+  return { queue, calls, status, last, progress: () => snapshot!.progress };
+}
+
+beforeEach(() => { vi.useFakeTimers(); });
+afterEach(() => { vi.useRealTimers(); });
+
+describe('isRetryableError', () => {
+  it('retries rate limits, server errors and network failures only', () => {
+    expect(isRetryableError({ status: 429 })).toBe(true);
+    expect(isRetryableError({ status: 503 })).toBe(true);
+    expect(isRetryableError({ status: 400 })).toBe(false);
+    expect(isRetryableError(new Error('fetch failed'))).toBe(true);
+    expect(isRetryableError(new Error('Texto inválido'))).toBe(false);
+    expect(isRetryableError(Object.assign(new Error('aborted'), { name: 'AbortError' }))).toBe(false);
+  });
+});
+
+describe('backoffDelay', () => {
+  it('doubles per attempt within ±20% jitter and stops at the ceiling', () => {
+    for (let attempt = 1; attempt <= 6; attempt++) {
+      const expected = Math.min(8000, 1000 * 2 ** (attempt - 1));
+      const delay = backoffDelay(attempt, config);
+      expect(delay).toBeGreaterThanOrEqual(expected * 0.8);
+      expect(delay).toBeLessThanOrEqual(expected * 1.2);
+    }
+  });
+});
+
+describe('createGenerationQueue', () => {
+  it('runs at most `concurrency` jobs at a time', async () => {
+    const { queue, calls, status, last, progress } = setup();
+    queue.enqueue(['a', 'b', 'c']);
+    expect(Object.keys(calls)).toEqual(['a', 'b']);
+    expect(status('c')).toBe('queued');
+
+    last('a').resolve();
+    await vi.runAllTimersAsync();
+    expect(status('a')).toBe('done');
+    expect(status('c')).toBe('running');
+    expect(progress()).toMatchObject({ total: 3, done: 1, running: 2, remaining: 2 });
+  });
+
+  it('ignores ids that are already active', () => {
+    const { queue, calls } = setup();
+    queue.enqueue(['a']);
+    queue.enqueue(['a']);
+    expect(calls.a).toHaveLength(1);
+  });
+
+  it('retries retryable errors after a backoff and then succeeds', async () => {
+    const { queue, calls, status, last } = setup();
+    queue.enqueue(['a']);
+    last('a').reject({ status: 503, message: 'indisponível' });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(status('a')).toBe('retrying');
+
+    await vi.advanceTimersByTimeAsync(1200);
+    expect(calls.a).toHaveLength(2);
+    last('a').resolve();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(status('a')).toBe('done');
+  });
+
+  it('fails without retrying non-retryable errors, and after maxRetries otherwise', async () => {
+    const { queue, calls, status, last } = setup({ maxRetries: 1 });
+    queue.enqueue(['a', 'b']);
+    last('a').reject(new Error('Voz inválida'));
+    last('b').reject({ status: 500, message: 'erro' });
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(status('a')).toBe('failed');
+    expect(calls.b).toHaveLength(2);
+
+    last('b').reject({ status: 500, message: 'erro de novo' });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(status('b')).toBe('failed');
+  });
+
+  it('holds the whole queue during a rate-limit cooldown', async () => {
+    const { queue, calls, status, last, progress } = setup({ concurrency: 1 });
+    queue.enqueue(['a', 'b']);
+    last('a').reject({ status: 429, message: 'limite', retryAfterMs: 5000 });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(progress().cooldownUntil).not.toBeNull();
+    expect(calls.b).toBeUndefined();
+
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(status('b')).toBe('running');
+    expect(status('a')).toBe('queued');
+  });
+
+  it('aborts running jobs and drops queued ones on cancel', async () => {
+    const { queue, calls, status, last } = setup({ concurrency: 1 });
+    queue.enqueue(['a', 'b']);
+    queue.cancelAll();
+    expect(last('a').signal.aborted).toBe(true);
+    expect(status('b')).toBe('cancelled');
+
+    last('a').resolve();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(status('a')).toBe('cancelled');
+    expect(calls.b).toBeUndefined();
+  });
+
+  it('does not start jobs while the whole queue is paused', async () => {
+    const { queue, calls } = setup();
+    queue.pauseAll();
+    queue.enqueue(['a']);
+    expect(calls.a).toBeUndefined();
+    queue.resumeAll();
+    expect(calls.a).toHaveLength(1);
+  });
+
+  it('holds a single queued job while the others run', async () => {
+    const { queue, calls, status, last, progress } = setup({ concurrency: 1 });
+    queue.enqueue(['a', 'b', 'c']);
+    queue.pause('b');
+    expect(status('b')).toBe('paused');
+    expect(progress()).toMatchObject({ paused: 1, remaining: 2 });
+
+    last('a').resolve();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(calls.b).toBeUndefined();
+    expect(status('c')).toBe('running');
+
+    queue.resume('b');
+    last('c').resolve();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(status('b')).toBe('running');
+  });
+
+  it('aborts a running job on pause and starts it over on resume', async () => {
+    const { queue, calls, status, last } = setup({ concurrency: 1 });
+    queue.enqueue(['a', 'b']);
+    const first = last('a');
+    queue.pause('a');
+    expect(first.signal.aborted).toBe(true);
+    expect(status('b')).toBe('running');
+
+    // Retomado antes de a tentativa abortada terminar: ela não pode cancelar a nova.
+    queue.resume('a');
+    last('b').resolve();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(calls.a).toHaveLength(2);
+    first.reject(Object.assign(new Error('aborted'), { name: 'AbortError' }));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(status('a')).toBe('running');
+
+    last('a').resolve();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(status('a')).toBe('done');
+  });
+
+  it('stops a pending retry on pause and cancels paused jobs', async () => {
+    const { queue, calls, status, last } = setup();
+    queue.enqueue(['a']);
+    last('a').reject({ status: 503, message: 'indisponível' });
+    await vi.advanceTimersByTimeAsync(0);
+    queue.pause('a');
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(calls.a).toHaveLength(1);
+    expect(status('a')).toBe('paused');
+
+    queue.cancel('a');
+    expect(status('a')).toBe('cancelled');
+  });
+
+  it('resumes a paused job when it is enqueued again', () => {
+    const { queue, calls, status } = setup({ concurrency: 1 });
+    queue.enqueue(['a', 'b']);
+    queue.pause('b');
+    queue.enqueue(['b']);
+    expect(status('b')).toBe('queued');
+    expect(status('a')).toBe('running');
+    expect(calls.b).toBeUndefined();
+  });
+});
@@ -0,0 +1,283 @@
+import { TTSError, errorStatus, retryAfterMs } from './ttsErrors';
+
+
+export type JobStatus = 'queued' | 'running' | 'retrying' | 'paused' | 'done' | 'failed' | 'cancelled';
+
+export interface QueueJob {
+  id: string;
+  status: JobStatus;
+  attempts: number;
+  nextAttemptAt?: number;
+  error?: string;
+  startedAt?: number;
+  finishedAt?: number;
+}
+
+export interface QueueProgress {
+  total: number;
+  done: number;
+  failed: number;
+  cancelled: number;
+  /** Jobs held with `pause(id)`; they don't count as remaining until resumed. */
+  paused: number;
+  running: number;
+  remaining: number;
+  etaSeconds: number | null;
+  isPaused: boolean;
+  cooldownUntil: number | null;
+}
+
+export interface QueueSnapshot {
+  jobs: Record<string, QueueJob>;
+  progress: QueueProgress;
+}
+
+export interface QueueConfig {
+  concurrency: number;
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface GenerationQueueOptions extends QueueConfig {
+  run: (id: string, signal: AbortSignal) => Promise<void>;
+  onChange: (snapshot: QueueSnapshot) => void;
+  onJobError?: (id: string, error: unknown, willRetry: boolean) => void;
+}
+
+export type GenerationQueue = ReturnType<typeof createGenerationQueue>;
+
+export const DEFAULT_QUEUE_CONFIG: QueueConfig = {
+  concurrency: 2,
+  maxRetries: 4,
+  baseDelayMs: 2000,
+  maxDelayMs: 60000,
+};
+
+const ACTIVE: JobStatus[] = ['queued', 'running', 'retrying'];
+/** Not finished: active or paused. */
+const PENDING: JobStatus[] = [...ACTIVE, 'paused'];
+
+export function isRetryableError(error: any): boolean {
+  if (error?.name === 'AbortError') return false;
+  if (error instanceof TTSError) return error.retryable;
+  const status = errorStatus(error);
+  if (status !== undefined) return status === 429 || status === 408 || status >= 500;
+  return /network|fetch|timeout|ECONNRESET|RESOURCE_EXHAUSTED|UNAVAILABLE/i.test(String(error?.message ?? ''));
+}
+
+export function backoffDelay(attempt: number, config: Pick<QueueConfig, 'baseDelayMs' | 'maxDelayMs'>): number {
+  const exponential = Math.min(config.maxDelayMs, config.baseDelayMs * 2 ** Math.max(0, attempt - 1));
+  // Jitter de ±20% para que blocos simultâneos não tentem de novo no mesmo instante.
+  return Math.round(exponential * (0.8 + Math.random() * 0.4));
+}
+
+/**
+ * Runs jobs with bounded concurrency, exponential backoff and rate-limit cooldowns.
+ * Jobs are identified by block id; enqueueing an already active id is a no-op, and enqueueing a paused one resumes it.
+ */
+export function createGenerationQueue(options: GenerationQueueOptions) {
+  const jobs = new Map<string, QueueJob>();
+  const controllers = new Map<string, AbortController>();
+  const timers = new Map<string, ReturnType<typeof setTimeout>>();
+  const durations: number[] = [];
+  let config: QueueConfig = {
+    concurrency: options.concurrency,
+    maxRetries: options.maxRetries,
+    baseDelayMs: options.baseDelayMs,
+    maxDelayMs: options.maxDelayMs,
+  };
+  let paused = false;
+  let cooldownUntil = 0;
+  let cooldownTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const getProgress = (): QueueProgress => {
+    const list = Array.from(jobs.values());
+    const count = (status: JobStatus) => list.filter(j => j.status === status).length;
+    const running = count('running');
+    const remaining = list.filter(j => ACTIVE.includes(j.status)).length;
+    const average = durations.length > 0 ? durations.reduce((a, b) => a + b, 0) / durations.length : null;
+    return {
+      total: list.length,
+      done: count('done'),
+      failed: count('failed'),
+      cancelled: count('cancelled'),
+      paused: count('paused'),
+      running,
+      remaining,
+      etaSeconds: average === null || remaining === 0 ? null : Math.round((average * remaining) / Math.max(1, config.concurrency) / 1000),
+      isPaused: paused,
+      cooldownUntil: cooldownUntil > Date.now() ? cooldownUntil : null,
+    };
+  };
+
+  const emit = () => {
+    const snapshot: Record<string, QueueJob> = {};
+    jobs.forEach((job, id) => { snapshot[id] = { ...job }; });
+    options.onChange({ jobs: snapshot, progress: getProgress() });
+  };
+
+  const finish = (job: QueueJob, status: JobStatus, error?: string) => {
+    job.status = status;
+    job.error = error;
+    job.finishedAt = Date.now();
+    job.nextAttemptAt = undefined;
+  };
+
+  const schedulePump = (at: number) => {
+    if (cooldownTimer) clearTimeout(cooldownTimer);
+    cooldownTimer = setTimeout(() => {
+      cooldownTimer = null;
+      emit();
+      pump();
+    }, Math.max(0, at - Date.now()));
+  };
+
+  // Um bloco pausado durante a geração é interrompido e volta do início quando retomado.
+  const settleAborted = (job: QueueJob, controller: AbortController) => {
+    // Retomado antes de a tentativa abortada terminar: a nova tentativa já é a dona do job.
+    if (controllers.get(job.id) !== controller) return;
+    if (job.status !== 'paused') finish(job, 'cancelled');
+  };
+
+  const clearRetry = (job: QueueJob) => {
+    const timer = timers.get(job.id);
+    if (timer) {
+      clearTimeout(timer);
+      timers.delete(job.id);
+    }
+  };
+
+  const start = (job: QueueJob) => {
+    const controller = new AbortController();
+    controllers.set(job.id, controller);
+    job.status = 'running';
+    job.attempts += 1;
+    job.startedAt = Date.now();
+    job.error = undefined;
+
+    options.run(job.id, controller.signal)
+      .then(() => {
+        if (controller.signal.aborted) return settleAborted(job, controller);
+        durations.push(Date.now() - (job.startedAt ?? Date.now()));
+        if (durations.length > 20) durations.shift();
+        finish(job, 'done');
+      })
+      .catch(error => {
+        if (controller.signal.aborted) return settleAborted(job, controller);
+        const willRetry = isRetryableError(error) && job.attempts <= config.maxRetries;
+        options.onJobError?.(job.id, error, willRetry);
+        if (!willRetry) return finish(job, 'failed', String(error?.message ?? error));
+
+        const serverDelay = retryAfterMs(error);
+        const delay = serverDelay ?? backoffDelay(job.attempts, config);
+        if (serverDelay !== undefined || errorStatus(error) === 429) {
+          // Limite de taxa vale para a conta toda: seguramos a fila inteira, não só este bloco.
+          cooldownUntil = Math.max(cooldownUntil, Date.now() + delay);
+          schedulePump(cooldownUntil);
+        }
+        job.status = 'retrying';
+        job.error = String(error?.message ?? error);
+        job.nextAttemptAt = Date.now() + delay;
+        timers.set(job.id, setTimeout(() => {
+          timers.delete(job.id);
+          if (job.status !== 'retrying') return;
+          job.status = 'queued';
+          emit();
+          pump();
+        }, delay));
+      })
+      .finally(() => {
+        if (controllers.get(job.id) === controller) controllers.delete(job.id);
+        emit();
+        pump();
+      });
+  };
+
+  const pump = () => {
+    if (paused) return;
+    if (cooldownUntil > Date.now()) return;
+    let running = Array.from(jobs.values()).filter(j => j.status === 'running').length;
+    let started = false;
+    for (const job of jobs.values()) {
+      if (running >= config.concurrency) break;
+      if (job.status !== 'queued') continue;
+      start(job);
+      running += 1;
+      started = true;
+    }
+    if (started) emit();
+  };
+
+  const cancelJob = (job: QueueJob) => {
+    clearRetry(job);
+    const controller = controllers.get(job.id);
+    if (job.status === 'paused') finish(job, 'cancelled');
+    if (controller) controller.abort();
+    else if (ACTIVE.includes(job.status)) finish(job, 'cancelled');
+  };
+
+  return {
+    enqueue(ids: string[]) {
+      const hasPending = Array.from(jobs.values()).some(j => PENDING.includes(j.status));
+      if (!hasPending) jobs.clear();
+      ids.forEach(id => {
+        const existing = jobs.get(id);
+        if (existing && ACTIVE.includes(existing.status)) return;
+        jobs.delete(id);
+        jobs.set(id, { id, status: 'queued', attempts: 0 });
+      });
+      emit();
+      pump();
+    },
+    cancel(id: string) {
+      const job = jobs.get(id);
+      if (!job) return;
+      cancelJob(job);
+      emit();
+    },
+    cancelAll() {
+      jobs.forEach(cancelJob);
+      cooldownUntil = 0;
+      paused = false;
+      emit();
+    },
+    /** Holds one job: a queued or retrying one waits, a running one is aborted and starts over when resumed. */
+    pause(id: string) {
+      const job = jobs.get(id);
+      if (!job || !ACTIVE.includes(job.status)) return;
+      clearRetry(job);
+      job.status = 'paused';
+      job.nextAttemptAt = undefined;
+      controllers.get(id)?.abort();
+      emit();
+      pump();
+    },
+    resume(id: string) {
+      const job = jobs.get(id);
+      if (job?.status !== 'paused') return;
+      job.status = 'queued';
+      emit();
+      pump();
+    },
+    pauseAll() {
+      paused = true;
+      emit();
+    },
+    resumeAll() {
+      paused = false;
+      emit();
+      pump();
+    },
+    configure(next: Partial<QueueConfig>) {
+      config = { ...config, ...next };
+      emit();
+      pump();
+    },
+    isActive(id: string) {
+      const job = jobs.get(id);
+      return !!job && ACTIVE.includes(job.status);
+    },
+    getProgress,
+  };
+}
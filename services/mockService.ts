@@ -0,0 +1,124 @@
+
+import { GlobalSettings, TTSProvider, VOICES } from "../types";
+import { validateSynthesisRequest } from "./ttsErrors";
+
+export const MOCK_SAMPLE_RATE = 24000;
+const MOCK_MAX_TEXT_LENGTH = 20000;
+
+const VOWELS = /[aeiouáàâãéêíóôõúü]/i;
+const LETTERS = /[a-zà-ÿ0-9]/i;
+
+/**
+ * FNV-1a hash, used to derive a stable PRNG seed from the request.
+ */
+function hashString(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Mulberry32 PRNG: small, fast and fully deterministic for a given seed.
+ */
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Synthesizes a speech-like signal (voiced tones for vowels, filtered noise for
+ * consonants, silence for spaces and punctuation). The same text and settings
+ * always produce the same bytes.
+ */
+export function synthesizeMockPcm(text: string, settings: GlobalSettings, sampleRate: number = MOCK_SAMPLE_RATE): Uint8Array {
+  const random = createRandom(hashString([
+    text, settings.voice, settings.seed, settings.speed, settings.temperature, settings.style, settings.accent,
+  ].join('|')));
+
+  const voiceIndex = Math.max(0, VOICES.indexOf(settings.voice));
+  const basePitch = 95 + (voiceIndex % 10) * 16;
+  const pitchSpread = 0.05 + settings.temperature * 0.06;
+  const unit = 1 / Math.max(0.25, settings.speed);
+
+  const segments: { kind: 'tone' | 'noise' | 'silence'; duration: number; pitch: number }[] = [];
+  for (const char of text.trim()) {
+    if (VOWELS.test(char)) {
+      segments.push({ kind: 'tone', duration: (0.07 + random() * 0.05) * unit, pitch: basePitch * (1 + (random() - 0.5) * 2 * pitchSpread) });
+    } else if (LETTERS.test(char)) {
+      segments.push({ kind: 'noise', duration: (0.03 + random() * 0.03) * unit, pitch: 0 });
+    } else if (/[.!?;:]/.test(char)) {
+      segments.push({ kind: 'silence', duration: 0.35 * unit, pitch: 0 });
+    } else if (/[,\n]/.test(char)) {
+      segments.push({ kind: 'silence', duration: 0.18 * unit, pitch: 0 });
+    } else if (/\s/.test(char)) {
+      segments.push({ kind: 'silence', duration: 0.06 * unit, pitch: 0 });
+    }
+  }
+
+  const lead = Math.round(sampleRate * 0.05);
+  const totalSamples = lead * 2 + segments.reduce((acc, s) => acc + Math.round(s.duration * sampleRate), 0);
+  const samples = new Int16Array(totalSamples);
+
+  let cursor = lead;
+  let phase = 0;
+  let lowpass = 0;
+  for (const segment of segments) {
+    const length = Math.round(segment.duration * sampleRate);
+    const attack = Math.min(length / 2, sampleRate * 0.008);
+    for (let i = 0; i < length; i++) {
+      const envelope = Math.min(1, i / attack, (length - i) / attack);
+      let value = 0;
+      if (segment.kind === 'tone') {
+        phase += (2 * Math.PI * segment.pitch) / sampleRate;
+        value = 0.55 * Math.sin(phase) + 0.25 * Math.sin(phase * 2) + 0.12 * Math.sin(phase * 3);
+      } else if (segment.kind === 'noise') {
+        lowpass += 0.35 * ((random() * 2 - 1) - lowpass);
+        value = 0.3 * lowpass;
+      }
+      samples[cursor + i] = Math.round(value * envelope * 0.6 * 32767);
+    }
+    cursor += length;
+  }
+
+  return new Uint8Array(samples.buffer);
+}
+
+export function createMockProvider(latencyMs: number = 250): TTSProvider {
+  return {
+    id: 'mock',
+    label: 'Motor Offline (Demo)',
+    model: 'mock-tone-v1',
+    sampleRate: MOCK_SAMPLE_RATE,
+    voices: VOICES,
+    capabilities: {
+      requiresApiKey: false,
+      requiresNetwork: false,
+      supportsStyle: false,
+      supportsAccent: false,
+      supportsSeed: true,
+      maxTextLength: MOCK_MAX_TEXT_LENGTH,
+    },
+    synthesize: async (text, settings, signal) => {
+      validateSynthesisRequest(text, settings, VOICES, MOCK_MAX_TEXT_LENGTH);
+      if (latencyMs > 0) {
+        await new Promise<void>((resolve, reject) => {
+          const timer = setTimeout(resolve, latencyMs);
+          signal?.addEventListener('abort', () => {
+            clearTimeout(timer);
+            reject(new DOMException('Geração cancelada.', 'AbortError'));
+          }, { once: true });
+        });
+      }
+      return synthesizeMockPcm(text, settings);
+    },
+  };
+}
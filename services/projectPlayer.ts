@@ -0,0 +1,179 @@
+export interface PlayerState {
+  isPlaying: boolean;
+  isPaused: boolean;
+  /** Block currently audible, or the one being prepared when nothing is audible yet. */
+  currentBlockId: string | null;
+  currentIndex: number;
+  /** Position and length of the audible block, in seconds (zero while it is being prepared). */
+  position: number;
+  duration: number;
+}
+
+export interface ProjectPlayerOptions {
+  getContext: () => AudioContext;
+  /** Block ids in playback order; read again before each block so edits during playback are honored. */
+  getBlockIds: () => string[];
+  /** Resolves a block's audio, generating it if needed. Null skips the block. */
+  loadBuffer: (blockId: string, signal: AbortSignal) => Promise<AudioBuffer | null>;
+  /** Lets the caller start generating upcoming blocks before playback reaches them. */
+  prefetch?: (blockIds: string[]) => void;
+  /** Silence after a block, in seconds. */
+  gapAfter: (blockId: string) => number;
+  onChange: (state: PlayerState) => void;
+}
+
+export const IDLE_PLAYER_STATE: PlayerState = { isPlaying: false, isPaused: false, currentBlockId: null, currentIndex: -1, position: 0, duration: 0 };
+
+const START_DELAY = 0.05;
+const PREFETCH_BLOCKS = 2;
+const POLL_MS = 50;
+
+interface ScheduledBlock {
+  blockId: string;
+  index: number;
+  source: AudioBufferSourceNode;
+  start: number;
+  end: number;
+}
+
+interface Session {
+  controller: AbortController;
+  scheduled: ScheduledBlock[];
+  pending: { blockId: string; index: number } | null;
+}
+
+function waitForTime(ctx: AudioContext, time: number, signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const check = () => {
+      if (signal.aborted || ctx.currentTime >= time) return resolve();
+      setTimeout(check, POLL_MS);
+    };
+    check();
+  });
+}
+
+/**
+ * Plays every block of the project back to back on one AudioContext. Each block is scheduled
+ * at an exact context time as soon as the previous one starts, so joins are sample-accurate
+ * while only one block is ever queued ahead.
+ */
+export function createProjectPlayer(options: ProjectPlayerOptions) {
+  let session: Session | null = null;
+  let state: PlayerState = IDLE_PLAYER_STATE;
+  let frame = 0;
+
+  const emit = (patch: Partial<PlayerState>) => {
+    state = { ...state, ...patch };
+    options.onChange(state);
+  };
+
+  const track = () => {
+    if (!session) return;
+    const now = options.getContext().currentTime;
+    const audible = session.scheduled.find(s => now >= s.start && now < s.end);
+    const current = audible ?? session.pending;
+    const position = audible ? now - audible.start : 0;
+    const duration = audible ? audible.end - audible.start : 0;
+    if (current && (current.blockId !== state.currentBlockId || Math.abs(position - state.position) >= 0.1 || duration !== state.duration)) {
+      emit({ currentBlockId: current.blockId, currentIndex: current.index, position, duration });
+    }
+    session.scheduled = session.scheduled.filter(s => s.end > now);
+    frame = requestAnimationFrame(track);
+  };
+
+  const endSession = () => {
+    if (!session) return;
+    session.controller.abort();
+    session.scheduled.forEach(s => {
+      s.source.onended = null;
+      s.source.stop();
+    });
+    session = null;
+    cancelAnimationFrame(frame);
+  };
+
+  const run = async (current: Session, fromIndex: number) => {
+    const ctx = options.getContext();
+    const { signal } = current.controller;
+    let when = ctx.currentTime + START_DELAY;
+
+    for (let index = fromIndex; ; index++) {
+      const ids = options.getBlockIds();
+      if (index >= ids.length) break;
+      const blockId = ids[index];
+      options.prefetch?.(ids.slice(index, index + PREFETCH_BLOCKS + 1));
+
+      current.pending = { blockId, index };
+      const buffer = await options.loadBuffer(blockId, signal).catch(() => null);
+      if (signal.aborted) return;
+      current.pending = null;
+      if (!buffer) continue;
+
+      when = Math.max(when, ctx.currentTime + START_DELAY);
+      const source = ctx.createBufferSource();
+      source.buffer = buffer;
+      source.connect(ctx.destination);
+      source.start(when);
+      current.scheduled.push({ blockId, index, source, start: when, end: when + buffer.duration });
+      const startsAt = when;
+      when += buffer.duration + options.gapAfter(blockId);
+
+      await waitForTime(ctx, startsAt, signal);
+      if (signal.aborted) return;
+    }
+
+    await waitForTime(ctx, when, signal);
+    if (signal.aborted) return;
+    endSession();
+    emit(IDLE_PLAYER_STATE);
+  };
+
+  const start = async (fromIndex: number = 0) => {
+    endSession();
+    const ctx = options.getContext();
+    if (ctx.state === 'suspended') await ctx.resume();
+    const current: Session = { controller: new AbortController(), scheduled: [], pending: null };
+    session = current;
+    emit({ isPlaying: true, isPaused: false, currentIndex: fromIndex, currentBlockId: null, position: 0, duration: 0 });
+    frame = requestAnimationFrame(track);
+    run(current, fromIndex);
+  };
+
+  return {
+    start,
+
+    stop() {
+      if (!session) return;
+      endSession();
+      const ctx = options.getContext();
+      if (ctx.state === 'suspended') ctx.resume();
+      emit(IDLE_PLAYER_STATE);
+    },
+
+    /** Pausing suspends the whole context, so scheduled joins stay exact on resume. */
+    async pause() {
+      if (!session || state.isPaused) return;
+      await options.getContext().suspend();
+      emit({ isPaused: true });
+    },
+
+    async resume() {
+      if (!session || !state.isPaused) return;
+      await options.getContext().resume();
+      emit({ isPaused: false });
+    },
+
+    skip(delta: number) {
+      if (!session) return;
+      const target = Math.max(0, state.currentIndex + delta);
+      if (target >= options.getBlockIds().length) return;
+      start(target);
+    },
+
+    getState() {
+      return state;
+    },
+  };
+}
+
+export type ProjectPlayer = ReturnType<typeof createProjectPlayer>;
@@ -0,0 +1,179 @@
+
+import { v4 as uuidv4 } from 'uuid';
+import { AudioBlock, AudioTake, GlobalSettings, LexiconEntry, MixSettings, MusicBed, Project, ProjectMeta, ProjectSummary, Speaker, StoredBlock, UsageBudget } from '../types';
+import { STORES, requestToPromise, withStore, withTransaction } from '../utils/idb';
+
+export function createProject(name: string, settings: GlobalSettings, sampleRate: number): Project {
+  const now = Date.now();
+  return {
+    id: uuidv4(),
+    name,
+    createdAt: now,
+    updatedAt: now,
+    sampleRate,
+    settings,
+    speakers: [],
+    blocks: [{ id: uuidv4(), text: '' }],
+  };
+}
+
+/**
+ * Strips UI-only state (object URLs, spinners, errors) before persisting.
+ */
+export function toStoredBlock({ audioUrl, isGenerating, chunkProgress, isPlaying, error, errorKind, ...stored }: AudioBlock): StoredBlock {
+  return stored.takes ? { ...stored, takes: stored.takes.map(({ audioUrl, ...take }) => take) } : stored;
+}
+
+export function fromStoredBlock(stored: StoredBlock): AudioBlock {
+  return { ...stored, isGenerating: false, isPlaying: false };
+}
+
+export interface ProjectState {
+  blocks: AudioBlock[];
+  settings: GlobalSettings;
+  speakers: Speaker[];
+  mix: MixSettings;
+  music?: MusicBed;
+  lexicon: LexiconEntry[];
+  budget?: UsageBudget;
+}
+
+export function buildProject(meta: ProjectMeta, state: ProjectState): Project {
+  return {
+    id: meta.id,
+    name: meta.name,
+    createdAt: meta.createdAt,
+    sampleRate: meta.sampleRate,
+    updatedAt: Date.now(),
+    settings: state.settings,
+    speakers: state.speakers,
+    blocks: state.blocks.map(toStoredBlock),
+    mix: state.mix,
+    music: state.music,
+    lexicon: state.lexicon,
+    budget: state.budget,
+  };
+}
+
+/**
+ * Audio lives in its own store, one record per take (or per block without takes, and the music bed), so
+ * saving an edit rewrites the small project record and only the audio that is new.
+ */
+type RecordTake = Omit<AudioTake, 'audioData' | 'audioUrl'> & {
+  audioKey?: string;
+  /** Inline audio of records saved before audio had its own store. */
+  audioData?: Uint8Array;
+};
+
+type RecordBlock = Omit<StoredBlock, 'takes'> & { audioKey?: string; takes?: RecordTake[] };
+
+interface ProjectRecord extends Omit<Project, 'blocks' | 'music'> {
+  blocks: RecordBlock[];
+  music?: Omit<MusicBed, 'pcmData'> & { audioKey?: string; pcmData?: Uint8Array };
+}
+
+interface AudioRecord {
+  id: string;
+  projectId: string;
+  pcmData: Uint8Array;
+}
+
+/** What this page last wrote (or read) per project: the record without its timestamp and the audio by key. */
+const persisted = new Map<string, { record: string; audio: Map<string, Uint8Array> }>();
+
+const audioId = (projectId: string, key: string) => `${projectId}:${key}`;
+
+function toRecord(project: Project, audio: Map<string, Uint8Array>): ProjectRecord {
+  const blocks = project.blocks.map(({ audioData, takes, ...block }): RecordBlock => {
+    const recordTakes = takes?.map(({ audioData: takeAudio, ...take }) => {
+      audio.set(`take:${take.id}`, takeAudio);
+      return { ...take, audioKey: `take:${take.id}` };
+    });
+    // O áudio do trecho normalmente é o take escolhido; só é gravado à parte quando não há take.
+    const chosen = takes?.find(t => t.id === block.takeId);
+    if (!audioData || chosen?.audioData === audioData) return { ...block, takes: recordTakes };
+    audio.set(`block:${block.id}`, audioData);
+    return { ...block, audioKey: `block:${block.id}`, takes: recordTakes };
+  });
+  const { music, ...rest } = project;
+  if (!music) return { ...rest, blocks };
+  audio.set('music', music.pcmData);
+  return { ...rest, blocks, music: { name: music.name, sampleRate: music.sampleRate, audioKey: 'music' } };
+}
+
+function fromRecord(record: ProjectRecord, audio: Map<string, Uint8Array>): Project {
+  const read = (key?: string, inline?: Uint8Array) => (key ? audio.get(key) : undefined) ?? inline;
+  const blocks = record.blocks.map(({ audioKey, takes, ...block }): StoredBlock => {
+    const restoredTakes = takes?.flatMap(({ audioKey: takeKey, audioData, ...take }) => {
+      const takeAudio = read(takeKey, audioData);
+      return takeAudio ? [{ ...take, audioData: takeAudio }] : [];
+    });
+    const chosen = restoredTakes?.find(t => t.id === block.takeId);
+    return { ...block, audioData: read(audioKey, block.audioData) ?? chosen?.audioData, takes: restoredTakes };
+  });
+  const { music, ...rest } = record;
+  const musicData = music && read(music.audioKey, music.pcmData);
+  return { ...rest, blocks, music: music && musicData ? { name: music.name, sampleRate: music.sampleRate, pcmData: musicData } : undefined };
+}
+
+export async function listProjects(): Promise<ProjectSummary[]> {
+  const projects = await withStore<ProjectRecord[]>(STORES.projects, 'readonly', store => store.getAll());
+  return projects
+    .map(p => ({ id: p.id, name: p.name, updatedAt: p.updatedAt, blockCount: p.blocks.length }))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function loadProject(id: string): Promise<Project | undefined> {
+  const loaded = await withTransaction([STORES.projects, STORES.projectAudio], 'readonly', async tx => {
+    const record = await requestToPromise<ProjectRecord | undefined>(tx.objectStore(STORES.projects).get(id));
+    if (!record) return undefined;
+    const entries = await requestToPromise<AudioRecord[]>(tx.objectStore(STORES.projectAudio).index('projectId').getAll(id));
+    return { record, entries };
+  });
+  if (!loaded) return undefined;
+  const prefix = audioId(id, '');
+  const audio = new Map(loaded.entries.map(entry => [entry.id.slice(prefix.length), entry.pcmData]));
+  const project = fromRecord(loaded.record, audio);
+  // Registros antigos (com áudio embutido) não entram aqui, então o próximo salvamento os migra.
+  if (!loaded.record.blocks.some(b => b.audioData || b.takes?.some(t => t.audioData)) && !loaded.record.music?.pcmData) {
+    persisted.set(id, { record: JSON.stringify({ ...loaded.record, updatedAt: 0 }), audio });
+  }
+  return project;
+}
+
+/**
+ * Writes the project record when it changed and the audio that isn't stored yet, and drops audio no longer referenced.
+ */
+export async function saveProject(project: Project): Promise<void> {
+  const audio = new Map<string, Uint8Array>();
+  const record = toRecord(project, audio);
+  const serialized = JSON.stringify({ ...record, updatedAt: 0 });
+  const previous = persisted.get(project.id);
+  const added = Array.from(audio).filter(([key, pcmData]) => previous?.audio.get(key) !== pcmData);
+  const removed = previous ? Array.from(previous.audio.keys()).filter(key => !audio.has(key)) : [];
+  if (previous && previous.record === serialized && added.length === 0 && removed.length === 0) return;
+
+  await withTransaction([STORES.projects, STORES.projectAudio], 'readwrite', async tx => {
+    tx.objectStore(STORES.projects).put(record);
+    const audioStore = tx.objectStore(STORES.projectAudio);
+    added.forEach(([key, pcmData]) => audioStore.put({ id: audioId(project.id, key), projectId: project.id, pcmData } satisfies AudioRecord));
+    if (previous) {
+      removed.forEach(key => audioStore.delete(audioId(project.id, key)));
+      return;
+    }
+    // Sem histórico nesta página: compara com o que já está gravado.
+    const stored = await requestToPromise(audioStore.index('projectId').getAllKeys(project.id));
+    stored.filter(id => !audio.has(String(id).slice(audioId(project.id, '').length))).forEach(id => audioStore.delete(id));
+  });
+  persisted.set(project.id, { record: serialized, audio });
+}
+
+export async function deleteProject(id: string): Promise<void> {
+  await withTransaction([STORES.projects, STORES.projectAudio], 'readwrite', async tx => {
+    tx.objectStore(STORES.projects).delete(id);
+    const audioStore = tx.objectStore(STORES.projectAudio);
+    const keys = await requestToPromise(audioStore.index('projectId').getAllKeys(id));
+    keys.forEach(key => audioStore.delete(key));
+  });
+  persisted.delete(id);
+}
@@ -0,0 +1,26 @@
+
+import { TTSProvider } from "../types";
+import { createGeminiProvider } from "./geminiService";
+import { createMockProvider } from "./mockService";
+
+export const DEFAULT_PROVIDER_ID = 'gemini';
+
+const registry = new Map<string, TTSProvider>();
+
+export function registerProvider(provider: TTSProvider) {
+  registry.set(provider.id, provider);
+}
+
+export function listProviders(): TTSProvider[] {
+  return Array.from(registry.values());
+}
+
+/**
+ * Returns the provider with the given id, falling back to the default engine.
+ */
+export function getProvider(id: string): TTSProvider {
+  return registry.get(id) ?? registry.get(DEFAULT_PROVIDER_ID)!;
+}
+
+registerProvider(createGeminiProvider());
+registerProvider(createMockProvider());
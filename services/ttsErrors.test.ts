@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { errorStatus, retryAfterMs } from './ttsErrors';
+
+describe('errorStatus', () => {
+  it.each<[string, unknown, number | undefined]>([
+    ['SDK status field', Object.assign(new Error('Forbidden'), { status: 403 }), 403],
+    ['status in the message', new Error('got status: 503 Service Unavailable'), 503],
+    ['429 in the message', new Error('[429 Too Many Requests] quota'), 429],
+    ['status that is not retried', new Error('got status: 404'), undefined],
+    ['digits inside a longer number', new Error('id 15030'), undefined],
+    ['object without a message', {}, undefined],
+    ['non-error value', 'falhou', undefined],
+    ['null', null, undefined],
+  ])('%s', (_, error, expected) => {
+    expect(errorStatus(error)).toBe(expected);
+  });
+});
+
+describe('retryAfterMs', () => {
+  it.each<[string, unknown, number | undefined]>([
+    ['precomputed hint', { retryAfterMs: 1500 }, 1500],
+    ['google.rpc retryDelay', new Error('{"retryDelay": "12s"}'), 12_000],
+    ['fractional retryDelay', new Error('"retryDelay":"0.25s"'), 250],
+    ['Retry-After', new Error('Retry-After: 30'), 30_000],
+    ['retry after in prose', new Error('please retry after 2.5 seconds'), 2500],
+    ['no hint', new Error('quota exceeded'), undefined],
+    ['non-error value', undefined, undefined],
+  ])('%s', (_, error, expected) => {
+    expect(retryAfterMs(error)).toBe(expected);
+  });
+});
@@ -0,0 +1,86 @@
+import { GlobalSettings, TTSErrorKind } from '../types';
+
+export interface TTSErrorOptions {
+  retryable?: boolean;
+  /** Server hint for when to try again. */
+  retryAfterMs?: number;
+  /** HTTP status of the failed request, when there was one. */
+  status?: number;
+  cause?: unknown;
+}
+
+const RETRYABLE_KINDS: TTSErrorKind[] = ['quota', 'empty-audio', 'network', 'server'];
+
+/**
+ * A synthesis failure classified by cause. Providers throw it so the queue knows what to retry
+ * and the UI can explain each case without parsing messages.
+ */
+export class TTSError extends Error {
+  readonly retryable: boolean;
+  readonly retryAfterMs?: number;
+  readonly status?: number;
+
+  constructor(public readonly kind: TTSErrorKind, message: string, options: TTSErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'TTSError';
+    this.retryable = options.retryable ?? RETRYABLE_KINDS.includes(kind);
+    this.retryAfterMs = options.retryAfterMs;
+    this.status = options.status;
+  }
+}
+
+export function isTTSError(error: unknown): error is TTSError {
+  return error instanceof TTSError;
+}
+
+/** Category of any error thrown while generating; untyped errors are `unknown`. */
+export function errorKind(error: unknown): TTSErrorKind {
+  return error instanceof TTSError ? error.kind : 'unknown';
+}
+
+/**
+ * Checks what can be rejected before spending a request: unknown voice and text over the provider limit.
+ */
+export function validateSynthesisRequest(text: string, settings: GlobalSettings, voices: string[], maxTextLength: number) {
+  if (!voices.includes(settings.voice)) {
+    throw new TTSError('invalid-voice', `A voz "${settings.voice}" não existe neste motor.`);
+  }
+  if (text.length > maxTextLength) {
+    throw new TTSError('text-too-long', `Texto com ${text.length} caracteres, acima do limite de ${maxTextLength} do motor.`);
+  }
+}
+
+/** A property of a thrown value, which may be anything. */
+function errorField(error: unknown, key: string): unknown {
+  return typeof error === 'object' && error !== null ? (error as Record<string, unknown>)[key] : undefined;
+}
+
+/** Message of a thrown value; `fallback` when it has none. */
+export function errorMessage(error: unknown, fallback: string = String(error)): string {
+  const message = errorField(error, 'message');
+  return message === undefined || message === null ? fallback : String(message);
+}
+
+/**
+ * HTTP status of a failed request, when the error carries one (SDK errors expose `status`).
+ */
+export function errorStatus(error: unknown): number | undefined {
+  const status = errorField(error, 'status');
+  if (typeof status === 'number') return status;
+  const match = errorMessage(error, '').match(/\b(429|500|502|503|504)\b/);
+  return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * Server-provided wait, from a `Retry-After` value or a google.rpc.RetryInfo `retryDelay` in the error body.
+ */
+export function retryAfterMs(error: unknown): number | undefined {
+  const hint = errorField(error, 'retryAfterMs');
+  if (typeof hint === 'number') return hint;
+  const message = errorMessage(error, '');
+  const retryDelay = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  if (retryDelay) return Math.ceil(parseFloat(retryDelay[1]) * 1000);
+  const retryAfter = message.match(/retry[- ]after[:\s]+(\d+(?:\.\d+)?)/i);
+  if (retryAfter) return Math.ceil(parseFloat(retryAfter[1]) * 1000);
+  return undefined;
+}
@@ -0,0 +1,41 @@
+import { GlobalSettings, TTSProvider, TokenUsage, UsageRecord } from '../types';
+import { STORES, withStore } from '../utils/idb';
+import { errorKind } from './ttsErrors';
+
+/** What a single provider request cost, before the caller adds where it came from (project, block). */
+export type RequestUsage = Omit<UsageRecord, 'id' | 'timestamp' | 'projectId' | 'blockId'>;
+
+/**
+ * Calls the provider and reports the request to `onRequest`, whether it succeeds or fails.
+ * Cancelled requests are not reported.
+ */
+export async function synthesizeTracked(
+  provider: TTSProvider,
+  text: string,
+  settings: GlobalSettings,
+  signal: AbortSignal | undefined,
+  onRequest: (usage: RequestUsage) => void,
+): Promise<Uint8Array> {
+  let tokens: TokenUsage | undefined;
+  const base = { providerId: provider.id, model: provider.model, characters: text.length };
+  try {
+    const pcmData = await provider.synthesize(text, settings, signal, usage => { tokens = usage; });
+    onRequest({ ...base, audioSeconds: pcmData.length / 2 / provider.sampleRate, tokens, status: 'success' });
+    return pcmData;
+  } catch (error: any) {
+    if (error?.name !== 'AbortError') onRequest({ ...base, audioSeconds: 0, tokens, status: 'error', errorKind: errorKind(error) });
+    throw error;
+  }
+}
+
+export async function appendUsage(record: UsageRecord): Promise<void> {
+  await withStore(STORES.usage, 'readwrite', store => store.put(record));
+}
+
+export async function listUsage(): Promise<UsageRecord[]> {
+  return withStore<UsageRecord[]>(STORES.usage, 'readonly', store => store.index('timestamp').getAll());
+}
+
+export async function clearUsage(): Promise<void> {
+  await withStore(STORES.usage, 'readwrite', store => store.clear());
+}
@@ -2,11 +2,35 @@
 export interface AudioBlock {
   id: string;
   text: string;
+  speakerId?: string;
+  overrides?: SettingsOverrides;
+  pauseAfterMs?: number;
   audioData?: Uint8Array;
   audioUrl?: string;
+  /** Every generated version of this block; `audioData`/`audioUrl` mirror the chosen one. */
+  takes?: AudioTake[];
+  /** The chosen take, used for playback and exports. Cleared when the text or voice changes. */
+  takeId?: string;
   isGenerating: boolean;
+  /** Requests finished so far while a long or marked-up block is generated in several parts. */
+  chunkProgress?: { done: number; total: number };
   isPlaying: boolean;
   error?: string;
+  errorKind?: TTSErrorKind;
+}
+
+/**
+ * One generation of a block, with the text and settings that produced it.
+ */
+export interface AudioTake {
+  id: string;
+  audioData: Uint8Array;
+  audioUrl?: string;
+  text: string;
+  settings: GlobalSettings;
+  /** Missing on takes migrated from projects saved before take history existed. */
+  providerId?: string;
+  createdAt: number;
 }
 
 export interface GlobalSettings {
@@ -18,6 +42,134 @@ export interface GlobalSettings {
   seed: number;
 }
 
+export const DEFAULT_SETTINGS: GlobalSettings = {
+  voice: 'Kore',
+  speed: 1.0,
+  temperature: 1.0,
+  style: '',
+  accent: '',
+  seed: 42
+};
+
+/**
+ * Any subset of the global settings. Unset fields inherit from the level below.
+ */
+export type SettingsOverrides = Partial<GlobalSettings>;
+
+export interface Speaker {
+  id: string;
+  name: string;
+  color: string;
+  settings: SettingsOverrides;
+}
+
+export interface LexiconEntry {
+  id: string;
+  /** Word, phrase or (with `regex`) pattern to find. */
+  term: string;
+  /** How it should be spoken. With `regex`, `$1`... refer to capture groups. */
+  replacement: string;
+  wholeWord: boolean;
+  caseSensitive: boolean;
+  regex: boolean;
+}
+
+export interface VoicePreset {
+  id: string;
+  name: string;
+  settings: GlobalSettings;
+}
+
+export type StoredBlock = Omit<AudioBlock, 'audioUrl' | 'isGenerating' | 'chunkProgress' | 'isPlaying' | 'error' | 'errorKind'>;
+
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  sampleRate: number;
+  settings: GlobalSettings;
+  speakers: Speaker[];
+  blocks: StoredBlock[];
+  mix?: MixSettings;
+  music?: MusicBed;
+  lexicon?: LexiconEntry[];
+  budget?: UsageBudget;
+}
+
+export type ProjectMeta = Pick<Project, 'id' | 'name' | 'createdAt' | 'sampleRate'>;
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  updatedAt: number;
+  blockCount: number;
+}
+
+export type ExportFormat = 'wav' | 'mp3' | 'flac' | 'opus';
+export type SubtitleMode = 'none' | 'block' | 'sentence';
+
+export interface ExportSettings {
+  format: ExportFormat;
+  mp3Bitrate: number;
+  opusBitrate: number;
+  subtitleMode: SubtitleMode;
+  /** Adds an EDL, an FCPXML and a marker list placing each block file on the narration timeline. */
+  timeline: boolean;
+  /** Frames per second of the timeline files (non-drop-frame timecode). */
+  timelineFrameRate: number;
+  /** Output sample rate in Hz; 0 keeps the provider's rate. Opus always runs at 48 kHz. */
+  sampleRate: number;
+  /** 1 or 2; stereo carries the narration on both channels. */
+  channels: number;
+  /** 16 or 24 bits per sample for WAV and FLAC; MP3 and Opus ignore it. */
+  bitDepth: number;
+}
+
+export interface MixSettings {
+  defaultPauseMs: number;
+  crossfadeMs: number;
+  musicVolumeDb: number;
+  musicDuckDb: number;
+  duckAttackMs: number;
+  duckReleaseMs: number;
+  musicLeadInMs: number;
+  musicTailMs: number;
+  musicFadeMs: number;
+}
+
+/**
+ * Background music, stored as mono 16-bit PCM already resampled to the track rate.
+ */
+export interface MusicBed {
+  name: string;
+  pcmData: Uint8Array;
+  sampleRate: number;
+}
+
+export interface ProcessingSettings {
+  trimSilence: boolean;
+  silenceThresholdDb: number;
+  normalize: boolean;
+  targetLufs: number;
+  peakCeilingDb: number;
+  fadeInMs: number;
+  fadeOutMs: number;
+}
+
+/**
+ * Long blocks are generated in sentence-aligned chunks and stitched back into one audio.
+ */
+export interface ChunkingSettings {
+  enabled: boolean;
+  /** Character budget per request (also capped by the provider's own limit). */
+  maxChars: number;
+  /** Estimated speech duration budget per request, in seconds. */
+  maxSeconds: number;
+  /** Silence between stitched chunks, in ms. */
+  gapMs: number;
+}
+
 export const VOICES = [
   'Zephyr', 'Puck', 'Caronte', 'Kore', 'Fenrir', 'Leda', 'Orus', 'Aoede', 
   'Calirrhoe', 'Autonoe', 'Encélado', 'Jápeto', 'Umbriel', 'Algieba', 
@@ -35,3 +187,79 @@ export const TONE_LABELS: Record<number, string> = {
   2.5: "Tone: Very Emotional",
   3: "Tone: Dramatic"
 };
+
+export interface TTSProviderCapabilities {
+  requiresApiKey: boolean;
+  requiresNetwork: boolean;
+  supportsStyle: boolean;
+  supportsAccent: boolean;
+  supportsSeed: boolean;
+  maxTextLength: number;
+}
+
+/**
+ * Why a generation failed. Providers throw `TTSError` (services/ttsErrors.ts) with one of these;
+ * `markup` comes from the block's own inline tags.
+ */
+export type TTSErrorKind = 'auth' | 'quota' | 'safety' | 'empty-audio' | 'network' | 'invalid-voice' | 'text-too-long' | 'server' | 'markup' | 'unknown';
+
+/** Token counts a provider reports for one request. */
+export interface TokenUsage {
+  promptTokens?: number;
+  outputTokens?: number;
+  totalTokens?: number;
+}
+
+/**
+ * One request sent to a provider (cache hits are not requests), for usage and cost tracking.
+ */
+export interface UsageRecord {
+  id: string;
+  timestamp: number;
+  projectId?: string;
+  /** Missing for previews and auditions. */
+  blockId?: string;
+  providerId: string;
+  model: string;
+  characters: number;
+  audioSeconds: number;
+  tokens?: TokenUsage;
+  status: 'success' | 'error';
+  errorKind?: TTSErrorKind;
+}
+
+/** Price of a model in US dollars per million tokens. */
+export interface ModelPrice {
+  inputPerMillionTokens: number;
+  outputPerMillionTokens: number;
+}
+
+/** Spending limit of a project; `warn` asks before a Generate All that would exceed it, `block` refuses it. */
+export interface UsageBudget {
+  limitUsd: number;
+  mode: 'warn' | 'block';
+}
+
+/**
+ * A text-to-speech engine. Implementations return raw 16-bit little-endian
+ * mono PCM at `sampleRate`.
+ */
+export interface TTSProvider {
+  id: string;
+  label: string;
+  model: string;
+  sampleRate: number;
+  voices: string[];
+  capabilities: TTSProviderCapabilities;
+  /** Engines that report token counts pass them to `onUsage`, also when the request then fails. */
+  synthesize(text: string, settings: GlobalSettings, signal?: AbortSignal, onUsage?: (usage: TokenUsage) => void): Promise<Uint8Array>;
+}
+
+declare global {
+  interface Window {
+    aistudio?: {
+      hasSelectedApiKey(): Promise<boolean>;
+      openSelectKey(): Promise<void>;
+    };
+  }
+}
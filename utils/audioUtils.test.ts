@@ -0,0 +1,228 @@
+import { describe, expect, it } from 'vitest';
+import { AudioBlock } from '../types';
+import { DEFAULT_PROCESSING_SETTINGS, createWavBlob, float32ToPcm, layoutTrack, measureIntegratedLoudness, mixTrack, normalizeLoudness, parseWav, pcmToFloat32, processPcm, trimSilence } from './audioUtils';
+
+function block(id: string, samples: number, extra: Partial<AudioBlock> = {}): AudioBlock {
+  return { id, text: id, audioData: new Uint8Array(samples * 2), isGenerating: false, isPlaying: false, ...extra };
+}
+
+/** A block whose samples all hold `value` (a fraction of full scale). */
+function constantBlock(id: string, samples: number, value: number, extra: Partial<AudioBlock> = {}): AudioBlock {
+  const pcm = new Int16Array(samples).fill(Math.round(value * 32768));
+  return block(id, 0, { audioData: new Uint8Array(pcm.buffer), ...extra });
+}
+
+function sine(frequency: number, sampleRate: number, seconds: number, amplitude: number): Float32Array {
+  return Float32Array.from({ length: Math.round(sampleRate * seconds) }, (_, i) => amplitude * Math.sin((2 * Math.PI * frequency * i) / sampleRate));
+}
+
+/** Silence, then the given samples, then silence. */
+function padded(samples: Float32Array, silence: number): Float32Array {
+  const result = new Float32Array(samples.length + 2 * silence);
+  result.set(samples, silence);
+  return result;
+}
+
+const peakOf = (samples: Float32Array) => samples.reduce((max, s) => Math.max(max, Math.abs(s)), 0);
+
+describe('measureIntegratedLoudness', () => {
+  it('reads a full-scale 997 Hz sine at 48 kHz as -3.01 LUFS (BS.1770 reference)', () => {
+    expect(measureIntegratedLoudness(sine(997, 48000, 2, 1), 48000)).toBeCloseTo(-3.01, 1);
+  });
+
+  it('follows the signal level and ignores silence below the gates', () => {
+    const quiet = measureIntegratedLoudness(sine(997, 48000, 2, 0.1), 48000);
+    expect(quiet).toBeCloseTo(-23.01, 1);
+    // Blocos só de silêncio ficam abaixo do gate absoluto: o tamanho do silêncio em volta não muda a leitura.
+    const short = measureIntegratedLoudness(padded(sine(997, 48000, 2, 0.1), 48000), 48000);
+    const long = measureIntegratedLoudness(padded(sine(997, 48000, 2, 0.1), 480000), 48000);
+    expect(long).toBeCloseTo(short, 5);
+  });
+
+  it('is -Infinity for silence and empty input', () => {
+    expect(measureIntegratedLoudness(new Float32Array(48000), 48000)).toBe(-Infinity);
+    expect(measureIntegratedLoudness(new Float32Array(0), 48000)).toBe(-Infinity);
+  });
+});
+
+describe('normalizeLoudness', () => {
+  it('lands on the target loudness', () => {
+    const result = normalizeLoudness(sine(997, 48000, 2, 0.05), 48000, -16, -1);
+    expect(measureIntegratedLoudness(result, 48000)).toBeCloseTo(-16, 1);
+  });
+
+  it('lowers the gain so the sample peak stays under the ceiling', () => {
+    // Um pico isolado limita o ganho antes de a sonoridade chegar ao alvo.
+    const samples = sine(997, 48000, 2, 0.05);
+    samples[1000] = 0.5;
+    const result = normalizeLoudness(samples, 48000, -16, -1);
+    expect(peakOf(result)).toBeCloseTo(10 ** (-1 / 20), 5);
+    expect(measureIntegratedLoudness(result, 48000)).toBeLessThan(-16);
+  });
+
+  it('returns silent and empty input unchanged', () => {
+    const silent = new Float32Array(4800);
+    expect(normalizeLoudness(silent, 48000, -16, -1)).toBe(silent);
+    const empty = new Float32Array(0);
+    expect(normalizeLoudness(empty, 48000, -16, -1)).toBe(empty);
+  });
+
+  it('handles input shorter than one gating block without NaN', () => {
+    const result = normalizeLoudness(sine(997, 48000, 0.1, 0.05), 48000, -16, -1);
+    expect(result.every(s => Number.isFinite(s))).toBe(true);
+    expect(peakOf(result)).toBeGreaterThan(0.05);
+  });
+});
+
+describe('trimSilence', () => {
+  const tone = sine(440, 8000, 0.5, 0.5);
+
+  it('cuts leading and trailing silence down to the margin', () => {
+    // Janelas de 80 amostras; a margem padrão de 40 ms é de 320 amostras.
+    const trimmed = trimSilence(padded(tone, 4000), 8000, -50);
+    expect(trimmed.byteOffset / 4).toBe(3680);
+    expect(trimmed).toHaveLength(4000 + 2 * 320);
+    expect(trimSilence(padded(tone, 4000), 8000, -50, 0)).toHaveLength(4000);
+  });
+
+  it('keeps the margin within the input', () => {
+    const trimmed = trimSilence(padded(tone, 100), 8000, -50);
+    expect(trimmed).toHaveLength(tone.length + 200);
+  });
+
+  it('returns silent, empty and very short input unchanged', () => {
+    const silent = new Float32Array(8000);
+    expect(trimSilence(silent, 8000, -50)).toBe(silent);
+    const empty = new Float32Array(0);
+    expect(trimSilence(empty, 8000, -50)).toBe(empty);
+    const short = Float32Array.from([0.5, -0.5, 0.5]);
+    expect(trimSilence(short, 8000, -50)).toEqual(short);
+  });
+});
+
+describe('processPcm', () => {
+  const settings = { ...DEFAULT_PROCESSING_SETTINGS, trimSilence: true, normalize: true, targetLufs: -16, peakCeilingDb: -1, fadeInMs: 10, fadeOutMs: 10 };
+
+  it('trims, normalizes and fades', () => {
+    const pcm = float32ToPcm(padded(sine(997, 48000, 1, 0.05), 24000));
+    const result = pcmToFloat32(processPcm(pcm, 48000, settings));
+    expect(result.length).toBe(48000 + 2 * 1920);
+    expect(result[0]).toBe(0);
+    expect(result[result.length - 1]).toBe(0);
+    expect(measureIntegratedLoudness(result, 48000)).toBeCloseTo(-16, 0);
+  });
+
+  it('keeps silent blocks silent and the same length', () => {
+    const pcm = new Uint8Array(4800 * 2);
+    expect(processPcm(pcm, 48000, settings)).toEqual(pcm);
+    expect(processPcm(new Uint8Array(0), 48000, settings)).toHaveLength(0);
+  });
+});
+
+describe('layoutTrack', () => {
+  it('places generated blocks back to back and skips the rest', () => {
+    const layout = layoutTrack([block('a', 100), block('b', 0, { audioData: undefined }), block('c', 50)], 1000);
+    expect(layout.segments.map(s => [s.blockId, s.blockIndex, s.startSample, s.endSample])).toEqual([['a', 0, 0, 100], ['c', 2, 100, 150]]);
+    expect(layout.totalSamples).toBe(150);
+    expect(layout.sampleRate).toBe(1000);
+  });
+
+  it('adds lead-in and tail around the blocks', () => {
+    const layout = layoutTrack([block('a', 100)], 1000, { leadInSamples: 20, tailSamples: 30 });
+    expect(layout.segments[0].startSample).toBe(20);
+    expect(layout.totalSamples).toBe(150);
+  });
+});
+
+describe('layoutTrack with mix settings', () => {
+  const mix = { defaultPauseMs: 100, crossfadeMs: 20 };
+
+  it('inserts each block\'s pause, falling back to the default', () => {
+    const layout = layoutTrack([block('a', 100, { pauseAfterMs: 50 }), block('b', 100), block('c', 100)], 1000, { mix });
+    expect(layout.segments.map(s => s.startSample)).toEqual([0, 150, 350]);
+    expect(layout.segments.every(s => s.fadeInSamples === 0 && s.fadeOutSamples === 0)).toBe(true);
+  });
+
+  it('overlaps neighbours by the crossfade where the pause is zero', () => {
+    const layout = layoutTrack([block('a', 100, { pauseAfterMs: 0 }), block('b', 100)], 1000, { mix });
+    const [a, b] = layout.segments;
+    expect(b.startSample).toBe(80);
+    expect(a.fadeOutSamples).toBe(20);
+    expect(b.fadeInSamples).toBe(20);
+    expect(layout.totalSamples).toBe(180);
+  });
+
+  it('never crossfades longer than the shorter block', () => {
+    const layout = layoutTrack([block('a', 10, { pauseAfterMs: 0 }), block('b', 100)], 1000, { mix });
+    expect(layout.segments[1]).toMatchObject({ startSample: 0, fadeInSamples: 10 });
+  });
+});
+
+describe('mixTrack', () => {
+  it('copies blocks to their positions and leaves pauses silent', () => {
+    const blocks = [constantBlock('a', 10, 0.5, { pauseAfterMs: 5 }), constantBlock('b', 10, -0.25)];
+    const mix = mixTrack(blocks, layoutTrack(blocks, 1000, { mix: { defaultPauseMs: 0, crossfadeMs: 0 } }));
+    expect(mix).toHaveLength(25);
+    expect(mix[0]).toBe(0.5);
+    expect(mix[12]).toBe(0);
+    expect(mix[24]).toBe(-0.25);
+  });
+
+  it('applies equal-power ramps across a crossfade', () => {
+    const blocks = [constantBlock('a', 100, 0.5, { pauseAfterMs: 0 }), constantBlock('b', 100, 0.5)];
+    const layout = layoutTrack(blocks, 1000, { mix: { defaultPauseMs: 0, crossfadeMs: 40 } });
+    const mix = mixTrack(blocks, layout);
+    expect(mix).toHaveLength(160);
+    expect(mix[59]).toBe(0.5);
+    const ramp = (i: number) => Math.sin((Math.PI / 2) * (i / 40));
+    for (const j of [0, 10, 20, 39]) {
+      const fadeOut = ramp(39 - j);
+      const fadeIn = ramp(j);
+      expect(mix[60 + j]).toBeCloseTo(0.5 * (fadeOut + fadeIn), 5);
+      expect(fadeOut ** 2 + fadeIn ** 2).toBeCloseTo(1, 1);
+    }
+    expect(mix[100]).toBe(0.5);
+  });
+});
+
+describe('createWavBlob', () => {
+  const header = async (blob: Blob) => new DataView(await blob.arrayBuffer());
+
+  it('writes a plain PCM header for 16-bit mono and stereo', async () => {
+    const view = await header(createWavBlob(new Uint8Array(8), 24000, { channels: 2, bitDepth: 16 }));
+    expect(view.byteLength).toBe(44 + 8);
+    expect(view.getUint32(16, true)).toBe(16);
+    expect(view.getUint16(20, true)).toBe(1);
+    expect(view.getUint32(28, true)).toBe(24000 * 4);
+    expect(view.getUint16(32, true)).toBe(4);
+  });
+
+  it('uses WAVE_FORMAT_EXTENSIBLE above 16 bits, with valid bits, speaker mask and PCM sub-format', async () => {
+    const pcm = new Uint8Array(12);
+    const view = await header(createWavBlob(pcm, 48000, { channels: 2, bitDepth: 24 }));
+    expect(view.byteLength).toBe(68 + 12);
+    expect(view.getUint32(4, true)).toBe(60 + 12);
+    expect(view.getUint32(16, true)).toBe(40);
+    expect(view.getUint16(20, true)).toBe(0xfffe);
+    expect(view.getUint32(28, true)).toBe(48000 * 6);
+    expect(view.getUint16(32, true)).toBe(6);
+    expect(view.getUint16(34, true)).toBe(24);
+    expect(view.getUint16(36, true)).toBe(22);
+    expect(view.getUint16(38, true)).toBe(24);
+    expect(view.getUint32(40, true)).toBe(0x3);
+    expect(Array.from(new Uint8Array(view.buffer, 44, 16))).toEqual([0x01, 0x00, 0x00, 0x00, 0x00, 0x00, 0x10, 0x00, 0x80, 0x00, 0x00, 0xaa, 0x00, 0x38, 0x9b, 0x71]);
+    expect(String.fromCharCode(...new Uint8Array(view.buffer, 60, 4))).toBe('data');
+    expect(view.getUint32(64, true)).toBe(12);
+  });
+
+  it('marks 24-bit mono as front center', async () => {
+    const view = await header(createWavBlob(new Uint8Array(3), 48000, { channels: 1, bitDepth: 24 }));
+    expect(view.getUint32(40, true)).toBe(0x4);
+  });
+
+  it('is read back by parseWav', async () => {
+    const pcm = Uint8Array.from({ length: 12 }, (_, i) => i);
+    const parsed = parseWav(new Uint8Array(await createWavBlob(pcm, 44100, { channels: 2, bitDepth: 24 }).arrayBuffer()));
+    expect(parsed).toEqual({ pcmData: pcm, sampleRate: 44100, numChannels: 2, bitsPerSample: 24 });
+  });
+});
@@ -1,5 +1,7 @@
 
-import { AudioBlock } from '../types';
+import { AudioBlock, ExportSettings, MixSettings, ProcessingSettings } from '../types';
+import { DEFAULT_EXPORT_SETTINGS, EXPORT_FORMATS, OutputFormat, encodeCompressedAudio, resolveOutputFormat } from './encoders';
+import { packPcm, quantize, resample } from './sampleFormat';
 
 /**
  * Encodes Uint8Array (PCM) to base64
@@ -26,39 +28,60 @@ export function decode(base64: string) {
   return bytes;
 }
 
+export interface WavFormat {
+  channels: number;
+  bitDepth: number;
+}
+
+/** KSDATAFORMAT_SUBTYPE_PCM, the sub-format GUID of an extensible integer PCM file. */
+const PCM_SUBFORMAT = [0x01, 0x00, 0x00, 0x00, 0x00, 0x00, 0x10, 0x00, 0x80, 0x00, 0x00, 0xaa, 0x00, 0x38, 0x9b, 0x71];
+
 /**
- * Converts raw PCM data to a WAV Blob
+ * Converts raw interleaved PCM data to a WAV Blob
  */
-export function createWavBlob(pcmData: Uint8Array, sampleRate: number = 24000): Blob {
-  const header = new ArrayBuffer(44);
+export function createWavBlob(pcmData: Uint8Array, sampleRate: number = 24000, format: WavFormat = { channels: 1, bitDepth: 16 }): Blob {
+  const { channels, bitDepth } = format;
+  // Above 16 bits or 2 channels the format must be WAVE_FORMAT_EXTENSIBLE, which adds valid bits and the speaker mask
+  const extensible = bitDepth > 16 || channels > 2;
+  const fmtLength = extensible ? 40 : 16;
+  const dataOffset = 20 + fmtLength;
+  const blockAlign = channels * (bitDepth / 8);
+  const header = new ArrayBuffer(dataOffset + 8);
   const view = new DataView(header);
 
   // RIFF identifier
   writeString(view, 0, 'RIFF');
   // RIFF chunk length
-  view.setUint32(4, 36 + pcmData.length, true);
+  view.setUint32(4, dataOffset + pcmData.length, true);
   // RIFF type
   writeString(view, 8, 'WAVE');
   // format chunk identifier
   writeString(view, 12, 'fmt ');
   // format chunk length
-  view.setUint32(16, 16, true);
-  // sample format (raw)
-  view.setUint16(20, 1, true); // PCM
+  view.setUint32(16, fmtLength, true);
+  // sample format: PCM, or extensible
+  view.setUint16(20, extensible ? 0xfffe : 1, true);
   // channel count
-  view.setUint16(22, 1, true); // Mono
+  view.setUint16(22, channels, true);
   // sample rate
   view.setUint32(24, sampleRate, true);
   // byte rate (sample rate * block align)
-  view.setUint32(28, sampleRate * 2, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
   // block align (channel count * bytes per sample)
-  view.setUint16(32, 2, true);
+  view.setUint16(32, blockAlign, true);
   // bits per sample
-  view.setUint16(34, 16, true);
+  view.setUint16(34, bitDepth, true);
+  if (extensible) {
+    // extension size, valid bits per sample, channel mask (front center / front left + right), sub-format
+    view.setUint16(36, 22, true);
+    view.setUint16(38, bitDepth, true);
+    view.setUint32(40, channels === 1 ? 0x4 : channels === 2 ? 0x3 : 0, true);
+    PCM_SUBFORMAT.forEach((byte, i) => view.setUint8(44 + i, byte));
+  }
   // data chunk identifier
-  writeString(view, 36, 'data');
+  writeString(view, dataOffset, 'data');
   // data chunk length
-  view.setUint32(40, pcmData.length, true);
+  view.setUint32(dataOffset + 4, pcmData.length, true);
 
   return new Blob([header, pcmData], { type: 'audio/wav' });
 }
@@ -69,6 +92,271 @@ function writeString(view: DataView, offset: number, string: string) {
   }
 }
 
+function readString(view: DataView, offset: number, length: number) {
+  let result = '';
+  for (let i = 0; i < length; i++) {
+    result += String.fromCharCode(view.getUint8(offset + i));
+  }
+  return result;
+}
+
+export interface ParsedWav {
+  pcmData: Uint8Array;
+  sampleRate: number;
+  numChannels: number;
+  bitsPerSample: number;
+}
+
+/**
+ * Extracts the PCM payload and format from a WAV file
+ */
+export function parseWav(bytes: Uint8Array): ParsedWav {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (readString(view, 0, 4) !== 'RIFF' || readString(view, 8, 4) !== 'WAVE') {
+    throw new Error('Arquivo WAV inválido.');
+  }
+
+  let offset = 12;
+  let format: Omit<ParsedWav, 'pcmData'> | null = null;
+  while (offset + 8 <= view.byteLength) {
+    const chunkId = readString(view, offset, 4);
+    const chunkSize = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+    if (chunkId === 'fmt ') {
+      format = {
+        numChannels: view.getUint16(body + 2, true),
+        sampleRate: view.getUint32(body + 4, true),
+        bitsPerSample: view.getUint16(body + 14, true),
+      };
+    } else if (chunkId === 'data') {
+      if (!format) break;
+      const end = Math.min(body + chunkSize, view.byteLength);
+      return { ...format, pcmData: bytes.slice(body, end) };
+    }
+    offset = body + chunkSize + (chunkSize % 2);
+  }
+  throw new Error('Arquivo WAV sem dados de áudio.');
+}
+
+/**
+ * Views 16-bit PCM bytes as samples, copying only when the bytes are misaligned
+ */
+export function pcmToInt16(pcmData: Uint8Array): Int16Array {
+  if (pcmData.byteOffset % 2 === 0) return new Int16Array(pcmData.buffer, pcmData.byteOffset, pcmData.byteLength >> 1);
+  return new Int16Array(pcmData.slice().buffer, 0, pcmData.byteLength >> 1);
+}
+
+/**
+ * Converts mono 16-bit PCM into integer channels of the output format. At the same rate the samples carry over
+ * exactly; resampled audio is requantized with dither
+ */
+export function toOutputChannels(pcmData: Uint8Array, sampleRate: number, output: OutputFormat): (Int16Array | Int32Array)[] {
+  let samples: Int16Array | Int32Array;
+  if (output.sampleRate !== sampleRate) {
+    samples = quantize(resample(pcmToFloat32(pcmData), sampleRate, output.sampleRate), output.bitDepth);
+  } else if (output.bitDepth === 16) {
+    samples = pcmToInt16(pcmData);
+  } else {
+    const shift = output.bitDepth - 16;
+    samples = Int32Array.from(pcmToInt16(pcmData), s => s * 2 ** shift);
+  }
+  return Array.from({ length: output.channels }, () => samples);
+}
+
+/**
+ * Encodes raw PCM into the chosen export format (WAV, MP3, FLAC or Ogg/Opus), at the output rate, channels and bit depth
+ */
+export async function encodeAudio(pcmData: Uint8Array, sampleRate: number, settings: ExportSettings): Promise<Blob> {
+  const output = resolveOutputFormat(settings, sampleRate);
+  const channels = toOutputChannels(pcmData, sampleRate, output);
+  if (settings.format === 'wav') return createWavBlob(packPcm(channels, output.bitDepth), output.sampleRate, output);
+  const encoded = await encodeCompressedAudio(channels, output, settings, sampleRate);
+  return new Blob([encoded], { type: EXPORT_FORMATS[settings.format].mimeType });
+}
+
+export function exportExtension(settings: ExportSettings): string {
+  return EXPORT_FORMATS[settings.format].extension;
+}
+
+export const DEFAULT_PROCESSING_SETTINGS: ProcessingSettings = {
+  trimSilence: true,
+  silenceThresholdDb: -50,
+  normalize: true,
+  targetLufs: -16,
+  peakCeilingDb: -1,
+  fadeInMs: 10,
+  fadeOutMs: 30,
+};
+
+export function pcmToFloat32(pcmData: Uint8Array): Float32Array {
+  const samples = pcmToInt16(pcmData);
+  const result = new Float32Array(samples.length);
+  for (let i = 0; i < samples.length; i++) result[i] = samples[i] / 32768;
+  return result;
+}
+
+export function float32ToPcm(samples: Float32Array): Uint8Array {
+  const result = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    result[i] = Math.round(s < 0 ? s * 32768 : s * 32767);
+  }
+  return new Uint8Array(result.buffer);
+}
+
+/**
+ * Removes leading/trailing audio whose 10 ms RMS stays under the threshold, keeping a short margin.
+ * Audio that never crosses the threshold is returned as is rather than trimmed to nothing
+ */
+export function trimSilence(samples: Float32Array, sampleRate: number, thresholdDb: number, marginMs: number = 40): Float32Array {
+  const windowSize = Math.max(1, Math.round(sampleRate * 0.01));
+  const threshold = 10 ** (thresholdDb / 20);
+  const windowCount = Math.ceil(samples.length / windowSize);
+
+  const isLoud = (w: number) => {
+    const from = w * windowSize;
+    const to = Math.min(samples.length, from + windowSize);
+    let sum = 0;
+    for (let i = from; i < to; i++) sum += samples[i] * samples[i];
+    return Math.sqrt(sum / Math.max(1, to - from)) >= threshold;
+  };
+
+  let first = 0;
+  while (first < windowCount && !isLoud(first)) first++;
+  if (first === windowCount) return samples;
+  let last = windowCount - 1;
+  while (last > first && !isLoud(last)) last--;
+
+  const margin = Math.round((sampleRate * marginMs) / 1000);
+  const start = Math.max(0, first * windowSize - margin);
+  const end = Math.min(samples.length, (last + 1) * windowSize + margin);
+  return samples.subarray(start, end);
+}
+
+/**
+ * Biquad coefficients of the ITU-R BS.1770 K-weighting filter (shelf + high-pass) for any sample rate
+ */
+function kWeightingFilters(sampleRate: number) {
+  const shelfK = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  const shelfQ = 0.7071752369554196;
+  const vh = 10 ** (3.999843853973347 / 20);
+  const vb = vh ** 0.4996667741545416;
+  const shelfA0 = 1 + shelfK / shelfQ + shelfK * shelfK;
+
+  const hpK = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  const hpQ = 0.5003270373238773;
+  const hpA0 = 1 + hpK / hpQ + hpK * hpK;
+
+  return [
+    {
+      b: [(vh + (vb * shelfK) / shelfQ + shelfK * shelfK) / shelfA0, (2 * (shelfK * shelfK - vh)) / shelfA0, (vh - (vb * shelfK) / shelfQ + shelfK * shelfK) / shelfA0],
+      a: [(2 * (shelfK * shelfK - 1)) / shelfA0, (1 - shelfK / shelfQ + shelfK * shelfK) / shelfA0],
+    },
+    {
+      b: [1, -2, 1],
+      a: [(2 * (hpK * hpK - 1)) / hpA0, (1 - hpK / hpQ + hpK * hpK) / hpA0],
+    },
+  ];
+}
+
+/**
+ * Gated integrated loudness (BS.1770 / EBU R128) of a mono signal, in LUFS
+ */
+export function measureIntegratedLoudness(samples: Float32Array, sampleRate: number): number {
+  const weighted = new Float32Array(samples);
+  kWeightingFilters(sampleRate).forEach(({ b, a }) => {
+    let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+    for (let i = 0; i < weighted.length; i++) {
+      const x = weighted[i];
+      const y = b[0] * x + b[1] * x1 + b[2] * x2 - a[0] * y1 - a[1] * y2;
+      x2 = x1; x1 = x;
+      y2 = y1; y1 = y;
+      weighted[i] = y;
+    }
+  });
+
+  const blockSize = Math.round(sampleRate * 0.4);
+  const step = Math.round(blockSize / 4);
+  const powers: number[] = [];
+  if (weighted.length < blockSize) {
+    let sum = 0;
+    for (let i = 0; i < weighted.length; i++) sum += weighted[i] * weighted[i];
+    if (weighted.length > 0) powers.push(sum / weighted.length);
+  } else {
+    for (let start = 0; start + blockSize <= weighted.length; start += step) {
+      let sum = 0;
+      for (let i = start; i < start + blockSize; i++) sum += weighted[i] * weighted[i];
+      powers.push(sum / blockSize);
+    }
+  }
+
+  const loudness = (power: number) => -0.691 + 10 * Math.log10(power);
+  const mean = (values: number[]) => values.reduce((acc, v) => acc + v, 0) / values.length;
+
+  const absoluteGated = powers.filter(p => loudness(p) > -70);
+  if (absoluteGated.length === 0) return -Infinity;
+  const relativeThreshold = loudness(mean(absoluteGated)) - 10;
+  const relativeGated = absoluteGated.filter(p => loudness(p) > relativeThreshold);
+  return loudness(mean(relativeGated.length > 0 ? relativeGated : absoluteGated));
+}
+
+/**
+ * Gain towards the target loudness, reduced if needed so the sample peak stays under the ceiling
+ */
+export function normalizeLoudness(samples: Float32Array, sampleRate: number, targetLufs: number, peakCeilingDb: number): Float32Array {
+  const loudness = measureIntegratedLoudness(samples, sampleRate);
+  if (!isFinite(loudness)) return samples;
+
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) peak = Math.max(peak, Math.abs(samples[i]));
+  const gain = Math.min(10 ** ((targetLufs - loudness) / 20), peak > 0 ? 10 ** (peakCeilingDb / 20) / peak : Infinity);
+
+  const result = new Float32Array(samples.length);
+  for (let i = 0; i < samples.length; i++) result[i] = samples[i] * gain;
+  return result;
+}
+
+export function applyFades(samples: Float32Array, sampleRate: number, fadeInMs: number, fadeOutMs: number): Float32Array {
+  const result = new Float32Array(samples);
+  const fadeIn = Math.min(result.length, Math.round((sampleRate * fadeInMs) / 1000));
+  const fadeOut = Math.min(result.length, Math.round((sampleRate * fadeOutMs) / 1000));
+  for (let i = 0; i < fadeIn; i++) result[i] *= Math.sin((Math.PI / 2) * (i / fadeIn));
+  for (let i = 0; i < fadeOut; i++) result[result.length - 1 - i] *= Math.sin((Math.PI / 2) * (i / fadeOut));
+  return result;
+}
+
+/**
+ * Post-processing chain applied to every block before playback or export: trim, normalize, fade
+ */
+export function processPcm(pcmData: Uint8Array, sampleRate: number, settings: ProcessingSettings): Uint8Array {
+  let samples = pcmToFloat32(pcmData);
+  if (settings.trimSilence) samples = trimSilence(samples, sampleRate, settings.silenceThresholdDb);
+  if (settings.normalize) samples = normalizeLoudness(samples, sampleRate, settings.targetLufs, settings.peakCeilingDb);
+  if (settings.fadeInMs > 0 || settings.fadeOutMs > 0) samples = applyFades(samples, sampleRate, settings.fadeInMs, settings.fadeOutMs);
+  return float32ToPcm(samples);
+}
+
+const processedCache = new WeakMap<Uint8Array, { key: string; pcmData: Uint8Array }>();
+
+/**
+ * Memoized `processPcm`: results are kept per source buffer until the settings change
+ */
+export function getProcessedPcm(pcmData: Uint8Array, sampleRate: number, settings: ProcessingSettings): Uint8Array {
+  const key = JSON.stringify([sampleRate, settings]);
+  const cached = processedCache.get(pcmData);
+  if (cached && cached.key === key) return cached.pcmData;
+  const processed = processPcm(pcmData, sampleRate, settings);
+  processedCache.set(pcmData, { key, pcmData: processed });
+  return processed;
+}
+
+/**
+ * Same blocks with their audio replaced by the post-processed version
+ */
+export function processBlocks(blocks: AudioBlock[], sampleRate: number, settings: ProcessingSettings): AudioBlock[] {
+  return blocks.map(block => block.audioData ? { ...block, audioData: getProcessedPcm(block.audioData, sampleRate, settings) } : block);
+}
+
 /**
  * Decodes PCM bytes into an AudioBuffer for playback
  */
@@ -78,7 +366,7 @@ export async function decodeAudioToBuffer(
   sampleRate: number = 24000,
   numChannels: number = 1,
 ): Promise<AudioBuffer> {
-  const dataInt16 = new Int16Array(data.buffer);
+  const dataInt16 = pcmToInt16(data);
   const frameCount = dataInt16.length / numChannels;
   const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
 
@@ -91,37 +379,124 @@ export async function decodeAudioToBuffer(
   return buffer;
 }
 
+/** Name of a block's file inside the ZIP. */
+export function blockFileName(index: number, extension: string): string {
+  return `audio_${index + 1}.${extension}`;
+}
+
 /**
- * Generates a ZIP file of all generated audios
+ * Generates a ZIP file of all generated audios, plus any extra files (timeline, marker list)
  */
-export async function generateZip(blocks: AudioBlock[]): Promise<Blob> {
+export async function generateZip(blocks: AudioBlock[], sampleRate: number = 24000, settings: ExportSettings = DEFAULT_EXPORT_SETTINGS, extraFiles: { name: string; data: string | Blob }[] = []): Promise<Blob> {
   // @ts-ignore - JSZip is loaded via CDN
   const zip = new window.JSZip();
+  const extension = exportExtension(settings);
   
-  blocks.forEach((block, index) => {
+  for (const [index, block] of blocks.entries()) {
     if (block.audioData) {
-      const wavBlob = createWavBlob(block.audioData);
-      zip.file(`audio_${index + 1}.wav`, wavBlob);
+      const audioBlob = await encodeAudio(block.audioData, sampleRate, settings);
+      zip.file(blockFileName(index, extension), audioBlob);
     }
-  });
+  }
+  extraFiles.forEach(file => zip.file(file.name, file.data));
 
   return await zip.generateAsync({ type: 'blob' });
 }
 
+export interface TrackSegment {
+  blockId: string;
+  blockIndex: number;
+  startSample: number;
+  endSample: number;
+  fadeInSamples: number;
+  fadeOutSamples: number;
+}
+
+export interface TrackLayout {
+  segments: TrackSegment[];
+  totalSamples: number;
+  sampleRate: number;
+}
+
+export interface LayoutOptions {
+  mix?: Pick<MixSettings, 'defaultPauseMs' | 'crossfadeMs'>;
+  leadInSamples?: number;
+  tailSamples?: number;
+}
+
 /**
- * Concatenates multiple PCM buffers into one WAV Blob
+ * Computes where each generated block lands in the single track. Blocks without audio are skipped.
+ * Each block is followed by its pause (or the default one); where the pause is zero, neighbours overlap by the crossfade.
  */
-export function concatenateToSingleWav(blocks: AudioBlock[]): Blob {
-  const totalLength = blocks.reduce((acc, b) => acc + (b.audioData?.length || 0), 0);
-  const result = new Uint8Array(totalLength);
-  
-  let offset = 0;
-  blocks.forEach(block => {
-    if (block.audioData) {
-      result.set(block.audioData, offset);
-      offset += block.audioData.length;
+export function layoutTrack(blocks: AudioBlock[], sampleRate: number = 24000, options: LayoutOptions = {}): TrackLayout {
+  const msToSamples = (ms: number) => Math.max(0, Math.round((sampleRate * ms) / 1000));
+  const segments: TrackSegment[] = [];
+  let cursor = options.leadInSamples ?? 0;
+  let pendingPause = 0;
+
+  blocks.forEach((block, blockIndex) => {
+    if (!block.audioData) return;
+    const length = block.audioData.length >> 1;
+    const previous = segments[segments.length - 1];
+    let overlap = 0;
+    if (previous && pendingPause === 0 && options.mix?.crossfadeMs) {
+      overlap = Math.min(msToSamples(options.mix.crossfadeMs), previous.endSample - previous.startSample, length);
+      previous.fadeOutSamples = overlap;
     }
+    const start = cursor + pendingPause - overlap;
+    segments.push({
+      blockId: block.id,
+      blockIndex,
+      startSample: start,
+      endSample: start + length,
+      fadeInSamples: overlap,
+      fadeOutSamples: 0,
+    });
+    cursor = start + length;
+    pendingPause = msToSamples(block.pauseAfterMs ?? options.mix?.defaultPauseMs ?? 0);
   });
 
-  return createWavBlob(result);
+  return { segments, totalSamples: cursor + (options.tailSamples ?? 0), sampleRate };
+}
+
+/**
+ * Mixes all blocks into one float buffer following the track layout, with equal-power ramps where blocks overlap
+ */
+export function mixTrack(blocks: AudioBlock[], layout: TrackLayout): Float32Array {
+  const mix = new Float32Array(layout.totalSamples);
+  layout.segments.forEach(segment => {
+    const audioData = blocks[segment.blockIndex].audioData;
+    if (!audioData) return;
+    const samples = pcmToInt16(audioData);
+    const length = segment.endSample - segment.startSample;
+    for (let i = 0; i < length; i++) {
+      let gain = 1;
+      if (i < segment.fadeInSamples) gain *= Math.sin((Math.PI / 2) * (i / segment.fadeInSamples));
+      const fromEnd = length - 1 - i;
+      if (fromEnd < segment.fadeOutSamples) gain *= Math.sin((Math.PI / 2) * (fromEnd / segment.fadeOutSamples));
+      mix[segment.startSample + i] += (samples[i] / 32768) * gain;
+    }
+  });
+  return mix;
+}
+
+/**
+ * Joins the PCM of all blocks following the track layout
+ */
+export function concatenatePcm(blocks: AudioBlock[], layout: TrackLayout = layoutTrack(blocks)): Uint8Array {
+  return float32ToPcm(mixTrack(blocks, layout));
+}
+
+/**
+ * Concatenates multiple PCM buffers into one WAV Blob
+ */
+export function concatenateToSingleWav(blocks: AudioBlock[], sampleRate: number = 24000): Blob {
+  return createWavBlob(concatenatePcm(blocks, layoutTrack(blocks, sampleRate)), sampleRate);
+}
+
+/**
+ * Concatenates all blocks into a single file in the chosen export format
+ */
+export async function concatenateToSingleFile(blocks: AudioBlock[], sampleRate: number, settings: ExportSettings, layout: TrackLayout = layoutTrack(blocks, sampleRate)): Promise<Blob> {
+  return encodeAudio(concatenatePcm(blocks, layout), sampleRate, settings);
 }
@@ -0,0 +1,146 @@
+import { AudioBlock, AudioTake, GlobalSettings, SettingsOverrides, Speaker } from '../types';
+import { addTake, createTake, takeMatches } from './takes';
+import { stitchChunks } from './chunking';
+
+/** Blocks removed from the editor whose audio is kept around so undo can bring them back with it. */
+export const MAX_DETACHED_BLOCKS = 50;
+
+/** The editable part of a block: what undo/redo restores. Audio is reattached from the live blocks. */
+export type BlockDraft = Pick<AudioBlock, 'id' | 'text' | 'speakerId' | 'overrides' | 'pauseAfterMs'>;
+
+export interface EditorSnapshot {
+  blocks: BlockDraft[];
+  settings: GlobalSettings;
+  speakers: Speaker[];
+}
+
+export function takeSnapshot(blocks: AudioBlock[], settings: GlobalSettings, speakers: Speaker[]): EditorSnapshot {
+  return {
+    blocks: blocks.map(({ id, text, speakerId, overrides, pauseAfterMs }) => ({ id, text, speakerId, overrides, pauseAfterMs })),
+    settings,
+    speakers,
+  };
+}
+
+function sameOverrides(a?: SettingsOverrides, b?: SettingsOverrides): boolean {
+  return JSON.stringify(a ?? {}) === JSON.stringify(b ?? {});
+}
+
+/** True when the draft would be voiced exactly like the block (same text and voice). */
+function sameVoicing(draft: BlockDraft, block: AudioBlock): boolean {
+  return draft.text === block.text && draft.speakerId === block.speakerId && sameOverrides(draft.overrides, block.overrides);
+}
+
+/**
+ * Rebuilds the block list of an undo/redo snapshot. Each block keeps its takes, taken from the live list or
+ * from `detached` (and removed from it) when it had been deleted; the chosen audio is dropped where the text
+ * or voice differ, and the cache-restore pass then picks the matching take again. Live blocks missing from
+ * the snapshot are returned in `removed`.
+ */
+export function restoreDrafts(drafts: BlockDraft[], live: AudioBlock[], detached: Map<string, AudioBlock>): { blocks: AudioBlock[]; removed: AudioBlock[] } {
+  const blocks = drafts.map(draft => {
+    const existing = live.find(b => b.id === draft.id) ?? detached.get(draft.id);
+    detached.delete(draft.id);
+    if (!existing) return { ...draft, isGenerating: false, isPlaying: false };
+    const next: AudioBlock = { ...existing, ...draft };
+    return sameVoicing(draft, existing) ? next : { ...next, takeId: undefined, audioData: undefined, audioUrl: undefined, error: undefined, errorKind: undefined };
+  });
+  return { blocks, removed: live.filter(b => !drafts.some(d => d.id === b.id)) };
+}
+
+/**
+ * Keeps removed blocks (with their takes) for undo. Returns the oldest ones pushed out beyond `limit`,
+ * whose object URLs the caller should revoke.
+ */
+export function detachBlocks(detached: Map<string, AudioBlock>, blocks: AudioBlock[], limit: number = MAX_DETACHED_BLOCKS): AudioBlock[] {
+  blocks.forEach(b => {
+    detached.delete(b.id);
+    detached.set(b.id, { ...b, isGenerating: false, isPlaying: false, chunkProgress: undefined });
+  });
+  const evicted: AudioBlock[] = [];
+  for (const [id, block] of detached) {
+    if (detached.size <= limit) break;
+    detached.delete(id);
+    evicted.push(block);
+  }
+  return evicted;
+}
+
+export function moveBlock(blocks: AudioBlock[], id: string, toIndex: number): AudioBlock[] {
+  const from = blocks.findIndex(b => b.id === id);
+  if (from < 0) return blocks;
+  const next = [...blocks];
+  const [block] = next.splice(from, 1);
+  next.splice(Math.max(0, Math.min(toIndex, next.length)), 0, block);
+  return next;
+}
+
+/** Text before and after the cursor, without the whitespace around the cut. */
+export function splitText(text: string, at: number): [string, string] {
+  return [text.slice(0, at).trimEnd(), text.slice(at).trimStart()];
+}
+
+export function joinText(first: string, second: string): string {
+  if (!first.trim()) return second;
+  if (!second.trim()) return first;
+  return `${first.trimEnd()} ${second.trimStart()}`;
+}
+
+/**
+ * Splits a block at the cursor. When the cut leaves one side empty the text is unchanged and the audio stays
+ * with it; otherwise both halves need new audio and the first keeps the take history.
+ */
+export function splitBlock(block: AudioBlock, at: number, newId: string): [AudioBlock, AudioBlock] {
+  const [head, tail] = splitText(block.text, at);
+  const fresh = (text: string): AudioBlock => ({ id: newId, text, speakerId: block.speakerId, overrides: block.overrides, isGenerating: false, isPlaying: false });
+  if (!tail) return [block, fresh('')];
+  if (!head) return [fresh(''), block];
+  return [
+    { ...block, text: head, pauseAfterMs: undefined, takeId: undefined, audioData: undefined, audioUrl: undefined, error: undefined, errorKind: undefined },
+    { ...fresh(tail), pauseAfterMs: block.pauseAfterMs },
+  ];
+}
+
+function chosenTake(block: AudioBlock): AudioTake | undefined {
+  return block.takes?.find(t => t.id === block.takeId);
+}
+
+export interface MergeResult {
+  block: AudioBlock;
+  /** The block absorbed by the merge, with its takes untouched. */
+  removed: AudioBlock;
+  /** Takes pushed out of the merged block's history, whose object URLs the caller should revoke. */
+  discarded: AudioTake[];
+}
+
+/**
+ * Merges a block with the next one. Merging with an empty block keeps the other as it is; when both have
+ * audio generated with the same settings, the two takes are stitched (with `gapMs` between them) into a take
+ * of the merged text, so nothing needs to be generated again.
+ */
+export function mergeBlocks(first: AudioBlock, second: AudioBlock, sampleRate: number, gapMs: number, newId: string): MergeResult {
+  if (!second.text.trim()) return { block: { ...first, pauseAfterMs: second.pauseAfterMs }, removed: second, discarded: [] };
+  if (!first.text.trim()) return { block: second, removed: first, discarded: [] };
+
+  const merged: AudioBlock = { ...first, text: joinText(first.text, second.text), pauseAfterMs: second.pauseAfterMs, takeId: undefined, audioData: undefined, audioUrl: undefined, error: undefined, errorKind: undefined };
+  const a = chosenTake(first);
+  const b = chosenTake(second);
+  if (!a || !b || !takeMatches(b, second.text, a.settings, a.providerId ?? '')) return { block: merged, removed: second, discarded: [] };
+
+  const stitched = stitchChunks([a.audioData, b.audioData], sampleRate, gapMs);
+  const take = { ...createTake(newId, stitched, sampleRate, merged.text, a.settings, a.providerId ?? ''), providerId: a.providerId };
+  const { block, discarded } = addTake(merged, take);
+  return { block, removed: second, discarded };
+}
+
+/**
+ * Copy of a block with the same text and voice. The chosen take is copied with its own object URL,
+ * so either block can be deleted without breaking the other.
+ */
+export function duplicateBlock(block: AudioBlock, sampleRate: number, newId: () => string): AudioBlock {
+  const copy: AudioBlock = { id: newId(), text: block.text, speakerId: block.speakerId, overrides: block.overrides, pauseAfterMs: block.pauseAfterMs, isGenerating: false, isPlaying: false };
+  const take = chosenTake(block);
+  if (!take) return copy;
+  const copied = { ...createTake(newId(), take.audioData, sampleRate, take.text, take.settings, take.providerId ?? ''), providerId: take.providerId };
+  return addTake(copy, copied).block;
+}
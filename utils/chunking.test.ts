@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { float32ToPcm, pcmToFloat32 } from './audioUtils';
+import { DEFAULT_CHUNKING_SETTINGS, chunkBudget, splitIntoChunks, stitchChunks } from './chunking';
+
+const SAMPLE_RATE = 8000;
+
+/** Half a second of tone and half a second of silence, in the given order. */
+function part(amplitude: number, toneFirst: boolean): Uint8Array {
+  const samples = new Float32Array(SAMPLE_RATE);
+  const offset = toneFirst ? 0 : SAMPLE_RATE / 2;
+  for (let i = 0; i < SAMPLE_RATE / 2; i++) samples[offset + i] = amplitude * Math.sin((2 * Math.PI * 440 * i) / SAMPLE_RATE);
+  return float32ToPcm(samples);
+}
+
+function rms(samples: Float32Array): number {
+  return Math.sqrt(samples.reduce((sum, s) => sum + s * s, 0) / samples.length);
+}
+
+describe('chunkBudget', () => {
+  it('takes the smallest of the character, duration and provider limits', () => {
+    expect(chunkBudget(DEFAULT_CHUNKING_SETTINGS, 1, 5000)).toBe(1350);
+    expect(chunkBudget(DEFAULT_CHUNKING_SETTINGS, 2, 5000)).toBe(1500);
+    expect(chunkBudget(DEFAULT_CHUNKING_SETTINGS, 1, 800)).toBe(800);
+    expect(chunkBudget({ ...DEFAULT_CHUNKING_SETTINGS, maxSeconds: 10 }, 0.1, 5000)).toBe(75);
+  });
+
+  it('applies only the provider limit when chunking is off', () => {
+    expect(chunkBudget({ ...DEFAULT_CHUNKING_SETTINGS, enabled: false }, 1, 5000)).toBe(5000);
+  });
+});
+
+describe('splitIntoChunks', () => {
+  it('keeps text that fits as a single chunk', () => {
+    expect(splitIntoChunks('  Curto.  ', 100)).toEqual(['Curto.']);
+  });
+
+  it('splits at sentence boundaries within the budget', () => {
+    const chunks = splitIntoChunks('Primeira frase. Segunda frase. Terceira frase.', 32);
+    expect(chunks).toEqual(['Primeira frase. Segunda frase.', 'Terceira frase.']);
+  });
+});
+
+describe('stitchChunks', () => {
+  it('returns a single part untouched', () => {
+    const only = part(0.3, true);
+    expect(stitchChunks([only], SAMPLE_RATE, 250)).toBe(only);
+  });
+
+  it('replaces the silence at inner edges with the gap and keeps the outer edges', () => {
+    const stitched = pcmToFloat32(stitchChunks([part(0.3, true), part(0.3, false)], SAMPLE_RATE, 250));
+    // 4000 amostras de tom + 320 de margem de cada lado da junção, mais 2000 de intervalo.
+    expect(stitched.length).toBe(4320 + 2000 + 4320);
+    expect(stitched[0]).toBe(0);
+    expect(rms(stitched.subarray(4320, 4320 + 2000))).toBe(0);
+  });
+
+  it('matches the loudness of later parts to the first', () => {
+    const stitched = pcmToFloat32(stitchChunks([part(0.3, true), part(0.1, false)], SAMPLE_RATE, 0));
+    const first = rms(stitched.subarray(0, 4000));
+    const second = rms(stitched.subarray(stitched.length - 4000));
+    expect(second / first).toBeCloseTo(1, 1);
+  });
+});
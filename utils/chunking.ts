@@ -0,0 +1,69 @@
+import { ChunkingSettings } from '../types';
+import { applyFades, float32ToPcm, measureIntegratedLoudness, normalizeLoudness, pcmToFloat32, trimSilence } from './audioUtils';
+import { packByChars } from './scriptImport';
+
+export const DEFAULT_CHUNKING_SETTINGS: ChunkingSettings = {
+  enabled: true,
+  maxChars: 1500,
+  maxSeconds: 90,
+  gapMs: 250,
+};
+
+/** Rough narration rate at 1.0x, used to turn the duration budget into characters. */
+export const CHARS_PER_SECOND = 15;
+
+const JOIN_FADE_MS = 15;
+const JOIN_THRESHOLD_DB = -50;
+
+/**
+ * Largest text (in characters) sent in a single request. With chunking off only the provider limit applies.
+ */
+export function chunkBudget(settings: ChunkingSettings, speed: number, providerMaxChars: number): number {
+  if (!settings.enabled) return providerMaxChars;
+  const byDuration = settings.maxSeconds * CHARS_PER_SECOND * Math.max(0.5, speed);
+  return Math.max(1, Math.floor(Math.min(settings.maxChars, byDuration, providerMaxChars)));
+}
+
+/**
+ * Splits text at sentence boundaries into chunks within the budget (a single chunk when it already fits).
+ */
+export function splitIntoChunks(text: string, budget: number): string[] {
+  const trimmed = text.trim();
+  if (trimmed.length <= budget) return [trimmed];
+  return packByChars(trimmed, budget);
+}
+
+/**
+ * Joins separately generated chunks into one take: the silence the model leaves at each inner edge is
+ * trimmed and replaced by a fixed gap, edges get short fades, and every chunk is matched to the loudness
+ * of the first so the voice doesn't jump between requests. The outer edges are left as generated.
+ */
+export function stitchChunks(parts: Uint8Array[], sampleRate: number, gapMs: number): Uint8Array {
+  if (parts.length === 1) return parts[0];
+
+  const trimmed = parts.map((pcm, index) => {
+    const samples = pcmToFloat32(pcm);
+    const voiced = trimSilence(samples, sampleRate, JOIN_THRESHOLD_DB);
+    const voicedStart = (voiced.byteOffset - samples.byteOffset) / Float32Array.BYTES_PER_ELEMENT;
+    const start = index === 0 ? 0 : voicedStart;
+    const end = index === parts.length - 1 ? samples.length : voicedStart + voiced.length;
+    return samples.subarray(start, end);
+  });
+  // A referência é medida depois do corte, sobre o mesmo trecho que vai ao resultado.
+  const referenceLufs = measureIntegratedLoudness(trimmed[0], sampleRate);
+
+  const pieces = trimmed.map((samples, index) => {
+    const matched = index > 0 && isFinite(referenceLufs) ? normalizeLoudness(samples, sampleRate, referenceLufs, -1) : samples;
+    return applyFades(matched, sampleRate, index === 0 ? 0 : JOIN_FADE_MS, index === parts.length - 1 ? 0 : JOIN_FADE_MS);
+  });
+
+  const gap = Math.round((sampleRate * gapMs) / 1000);
+  const result = new Float32Array(pieces.reduce((sum, p) => sum + p.length, 0) + gap * (pieces.length - 1));
+  let offset = 0;
+  pieces.forEach((piece, index) => {
+    if (index > 0) offset += gap;
+    result.set(piece, offset);
+    offset += piece.length;
+  });
+  return float32ToPcm(result);
+}
@@ -0,0 +1,69 @@
+
+/**
+ * MSB-first bit writer backed by a growable byte buffer.
+ */
+export class BitWriter {
+  private buffer = new Uint8Array(1 << 16);
+  private bytePos = 0;
+  private bitBuffer = 0;
+  private bitCount = 0;
+
+  private ensure(extra: number) {
+    if (this.bytePos + extra <= this.buffer.length) return;
+    let size = this.buffer.length * 2;
+    while (size < this.bytePos + extra) size *= 2;
+    const next = new Uint8Array(size);
+    next.set(this.buffer.subarray(0, this.bytePos));
+    this.buffer = next;
+  }
+
+  /**
+   * Writes the low `bits` bits of `value` (bits <= 32).
+   */
+  write(value: number, bits: number) {
+    if (bits > 24) {
+      this.write(Math.floor(value / 0x1000000) & ((1 << (bits - 24)) - 1), bits - 24);
+      this.write(value & 0xffffff, 24);
+      return;
+    }
+    this.ensure(4);
+    this.bitBuffer = (this.bitBuffer << bits) | (value & ((1 << bits) - 1));
+    this.bitCount += bits;
+    while (this.bitCount >= 8) {
+      this.bitCount -= 8;
+      this.buffer[this.bytePos++] = (this.bitBuffer >>> this.bitCount) & 0xff;
+    }
+    this.bitBuffer &= (1 << this.bitCount) - 1;
+  }
+
+  writeSigned(value: number, bits: number) {
+    this.write(value < 0 ? value + 2 ** bits : value, bits);
+  }
+
+  writeUnary(zeros: number) {
+    while (zeros >= 24) {
+      this.write(0, 24);
+      zeros -= 24;
+    }
+    this.write(1, zeros + 1);
+  }
+
+  writeBytes(bytes: Uint8Array) {
+    this.alignToByte();
+    this.ensure(bytes.length);
+    this.buffer.set(bytes, this.bytePos);
+    this.bytePos += bytes.length;
+  }
+
+  alignToByte() {
+    if (this.bitCount > 0) this.write(0, 8 - this.bitCount);
+  }
+
+  get byteLength() {
+    return this.bytePos;
+  }
+
+  bytes(start: number = 0, end: number = this.bytePos): Uint8Array {
+    return this.buffer.subarray(start, end);
+  }
+}
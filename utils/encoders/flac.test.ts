@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { encodeFlac } from './flac';
+
+class BitReader {
+  pos = 0;
+  constructor(private bytes: Uint8Array) {}
+  read(bits: number): number {
+    let value = 0;
+    for (let i = 0; i < bits; i++, this.pos++) value = value * 2 + ((this.bytes[this.pos >> 3] >> (7 - (this.pos & 7))) & 1);
+    return value;
+  }
+  readSigned(bits: number): number {
+    const value = this.read(bits);
+    return value >= 2 ** (bits - 1) ? value - 2 ** bits : value;
+  }
+  readUnary(): number {
+    let zeros = 0;
+    while (this.read(1) === 0) zeros++;
+    return zeros;
+  }
+  align() {
+    this.pos = Math.ceil(this.pos / 8) * 8;
+  }
+}
+
+const FIXED_COEFFS = [[], [1], [2, -1], [3, -3, 1], [4, -6, 4, -1]];
+
+/** Minimal decoder for the subset the encoder emits: fixed block size, independent channels, no wasted bits. */
+function decodeFlac(bytes: Uint8Array) {
+  const reader = new BitReader(bytes);
+  expect(new TextDecoder().decode(bytes.subarray(0, 4))).toBe('fLaC');
+  reader.pos = 32;
+  expect(reader.read(1)).toBe(1); // último bloco de metadados
+  expect(reader.read(7)).toBe(0); // STREAMINFO
+  expect(reader.read(24)).toBe(34);
+  reader.read(16 + 16 + 24 + 24);
+  const sampleRate = reader.read(20);
+  const numChannels = reader.read(3) + 1;
+  const bitsPerSample = reader.read(5) + 1;
+  const totalSamples = reader.read(36);
+  reader.read(128);
+
+  const channels = Array.from({ length: numChannels }, () => new Int32Array(totalSamples));
+  let decoded = 0;
+  while (decoded < totalSamples) {
+    expect(reader.read(14)).toBe(0b11111111111110);
+    reader.read(2);
+    expect(reader.read(4)).toBe(0b0111);
+    const rateCode = reader.read(4);
+    expect(reader.read(4)).toBe(numChannels - 1);
+    reader.read(4);
+    // Número do quadro em UTF-8: os 1s iniciais contam os bytes de continuação.
+    let length = 0;
+    while (reader.read(1) === 1) length++;
+    reader.align();
+    reader.read(8 * Math.max(0, length - 1));
+    const blockSize = reader.read(16) + 1;
+    if (rateCode === 0b1101 || rateCode === 0b1110) reader.read(16);
+    reader.read(8);
+
+    for (const samples of channels) {
+      expect(reader.read(1)).toBe(0);
+      const type = reader.read(6);
+      expect(reader.read(1)).toBe(0);
+      const out = samples.subarray(decoded, decoded + blockSize);
+      if (type === 0) {
+        out.fill(reader.readSigned(bitsPerSample));
+      } else if (type === 1) {
+        for (let i = 0; i < blockSize; i++) out[i] = reader.readSigned(bitsPerSample);
+      } else {
+        expect(type >> 3).toBe(1);
+        const order = type & 7;
+        for (let i = 0; i < order; i++) out[i] = reader.readSigned(bitsPerSample);
+        expect(reader.read(2)).toBe(0);
+        const partitions = 1 << reader.read(4);
+        let i = order;
+        for (let p = 0; p < partitions; p++) {
+          const k = reader.read(4);
+          const count = blockSize / partitions - (p === 0 ? order : 0);
+          for (let n = 0; n < count; n++, i++) {
+            const u = reader.readUnary() * 2 ** k + reader.read(k);
+            const residual = u % 2 === 0 ? u / 2 : -(u + 1) / 2;
+            out[i] = residual + FIXED_COEFFS[order].reduce((acc, c, j) => acc + c * out[i - 1 - j], 0);
+          }
+        }
+      }
+    }
+    reader.align();
+    reader.read(16);
+    decoded += blockSize;
+  }
+  expect(reader.pos / 8).toBe(bytes.length);
+  return { sampleRate, bitsPerSample, channels };
+}
+
+function tone(length: number, amplitude: number, seed: number): Int32Array {
+  const samples = new Int32Array(length);
+  for (let i = 0; i < length; i++) samples[i] = Math.round(amplitude * Math.sin(i / (7 + seed)) + ((i * 7919 * (seed + 1)) % 13) - 6);
+  return samples;
+}
+
+describe('encodeFlac', () => {
+  it('round-trips 16-bit stereo across several frames', () => {
+    const left = tone(10000, 20000, 0);
+    const right = tone(10000, 12000, 3);
+    const flac = encodeFlac([left, right], 44100, 16);
+    const decoded = decodeFlac(flac);
+    expect(decoded.sampleRate).toBe(44100);
+    expect(decoded.bitsPerSample).toBe(16);
+    expect(decoded.channels).toEqual([left, right]);
+    expect(flac.length).toBeLessThan(10000 * 2 * 2);
+  });
+
+  it('round-trips 24-bit audio at a rate without a frame-header code', () => {
+    const samples = tone(5000, 4_000_000, 1);
+    const decoded = decodeFlac(encodeFlac([samples], 22000, 24));
+    expect(decoded.sampleRate).toBe(22000);
+    expect(decoded.channels[0]).toEqual(samples);
+  });
+
+  it('round-trips silence, full-scale noise and a one-sample frame', () => {
+    const silence = new Int32Array(4097);
+    const noise = Int32Array.from({ length: 4097 }, (_, i) => ((i * 2654435761) % 65536) - 32768);
+    const decoded = decodeFlac(encodeFlac([silence, noise], 24000, 16));
+    expect(decoded.channels).toEqual([silence, noise]);
+  });
+});
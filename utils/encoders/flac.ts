@@ -0,0 +1,250 @@
+
+import { BitWriter } from './bitWriter';
+
+const BLOCK_SIZE = 4096;
+const MAX_FIXED_ORDER = 4;
+const MAX_PARTITION_ORDER = 6;
+const MAX_RICE_PARAM = 14;
+
+const CRC8_TABLE = (() => {
+  const table = new Uint8Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i;
+    for (let j = 0; j < 8; j++) crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xff : (crc << 1) & 0xff;
+    table[i] = crc;
+  }
+  return table;
+})();
+
+const CRC16_TABLE = (() => {
+  const table = new Uint16Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i << 8;
+    for (let j = 0; j < 8; j++) crc = crc & 0x8000 ? ((crc << 1) ^ 0x8005) & 0xffff : (crc << 1) & 0xffff;
+    table[i] = crc;
+  }
+  return table;
+})();
+
+function crc8(bytes: Uint8Array) {
+  let crc = 0;
+  for (let i = 0; i < bytes.length; i++) crc = CRC8_TABLE[crc ^ bytes[i]];
+  return crc;
+}
+
+function crc16(bytes: Uint8Array) {
+  let crc = 0;
+  for (let i = 0; i < bytes.length; i++) crc = ((crc << 8) & 0xffff) ^ CRC16_TABLE[(crc >> 8) ^ bytes[i]];
+  return crc;
+}
+
+/**
+ * Residual of the FLAC fixed polynomial predictor of the given order.
+ */
+function fixedResidual(samples: ArrayLike<number>, start: number, length: number, order: number): Int32Array {
+  const residual = new Int32Array(length - order);
+  for (let i = order; i < length; i++) {
+    const n = start + i;
+    let r: number;
+    switch (order) {
+      case 0: r = samples[n]; break;
+      case 1: r = samples[n] - samples[n - 1]; break;
+      case 2: r = samples[n] - 2 * samples[n - 1] + samples[n - 2]; break;
+      case 3: r = samples[n] - 3 * samples[n - 1] + 3 * samples[n - 2] - samples[n - 3]; break;
+      default: r = samples[n] - 4 * samples[n - 1] + 6 * samples[n - 2] - 4 * samples[n - 3] + samples[n - 4]; break;
+    }
+    residual[i - order] = r;
+  }
+  return residual;
+}
+
+function zigzag(value: number) {
+  return value >= 0 ? value * 2 : -value * 2 - 1;
+}
+
+function riceBits(residual: Int32Array, from: number, to: number, k: number) {
+  let bits = (to - from) * (k + 1);
+  for (let i = from; i < to; i++) bits += Math.floor(zigzag(residual[i]) / 2 ** k);
+  return bits;
+}
+
+function bestRiceParam(residual: Int32Array, from: number, to: number): { k: number; bits: number } {
+  const count = to - from;
+  if (count === 0) return { k: 0, bits: 0 };
+  let sum = 0;
+  for (let i = from; i < to; i++) sum += zigzag(residual[i]);
+  const estimate = Math.min(MAX_RICE_PARAM, Math.max(0, Math.floor(Math.log2(sum / count + 1))));
+  let best = { k: estimate, bits: riceBits(residual, from, to, estimate) };
+  for (const k of [estimate - 1, estimate + 1]) {
+    if (k < 0 || k > MAX_RICE_PARAM) continue;
+    const bits = riceBits(residual, from, to, k);
+    if (bits < best.bits) best = { k, bits };
+  }
+  return best;
+}
+
+interface ResidualPlan {
+  partitionOrder: number;
+  params: number[];
+  bits: number;
+}
+
+function planResidual(residual: Int32Array, blockSize: number, order: number): ResidualPlan {
+  let best: ResidualPlan | null = null;
+  for (let p = 0; p <= MAX_PARTITION_ORDER; p++) {
+    const partitions = 1 << p;
+    if (blockSize % partitions !== 0 || blockSize / partitions <= order) break;
+    const partitionSize = blockSize / partitions;
+    const params: number[] = [];
+    let bits = 2 + 4;
+    let offset = 0;
+    for (let i = 0; i < partitions; i++) {
+      const count = i === 0 ? partitionSize - order : partitionSize;
+      const choice = bestRiceParam(residual, offset, offset + count);
+      params.push(choice.k);
+      bits += 4 + choice.bits;
+      offset += count;
+    }
+    if (!best || bits < best.bits) best = { partitionOrder: p, params, bits };
+  }
+  return best!;
+}
+
+function writeSubframe(writer: BitWriter, samples: ArrayLike<number>, start: number, blockSize: number, bps: number) {
+  let constant = true;
+  for (let i = 1; i < blockSize && constant; i++) constant = samples[start + i] === samples[start];
+  if (constant) {
+    writer.write(0b00000000, 8);
+    writer.writeSigned(samples[start], bps);
+    return;
+  }
+
+  let bestOrder = -1;
+  let bestPlan: ResidualPlan | null = null;
+  let bestResidual: Int32Array | null = null;
+  let bestBits = bps * blockSize;
+  for (let order = 0; order <= Math.min(MAX_FIXED_ORDER, blockSize - 1); order++) {
+    const residual = fixedResidual(samples, start, blockSize, order);
+    const plan = planResidual(residual, blockSize, order);
+    const bits = order * bps + plan.bits;
+    if (bits < bestBits) {
+      bestBits = bits;
+      bestOrder = order;
+      bestPlan = plan;
+      bestResidual = residual;
+    }
+  }
+
+  if (!bestPlan || !bestResidual) {
+    writer.write(0b00000010, 8);
+    for (let i = 0; i < blockSize; i++) writer.writeSigned(samples[start + i], bps);
+    return;
+  }
+
+  writer.write(0b00010000 | (bestOrder << 1), 8);
+  for (let i = 0; i < bestOrder; i++) writer.writeSigned(samples[start + i], bps);
+  writer.write(0, 2);
+  writer.write(bestPlan.partitionOrder, 4);
+  const partitions = 1 << bestPlan.partitionOrder;
+  const partitionSize = blockSize / partitions;
+  let offset = 0;
+  for (let p = 0; p < partitions; p++) {
+    const k = bestPlan.params[p];
+    const count = p === 0 ? partitionSize - bestOrder : partitionSize;
+    writer.write(k, 4);
+    const divisor = 2 ** k;
+    for (let i = offset; i < offset + count; i++) {
+      const u = zigzag(bestResidual[i]);
+      writer.writeUnary(Math.floor(u / divisor));
+      if (k > 0) writer.write(u % divisor, k);
+    }
+    offset += count;
+  }
+}
+
+function writeUtf8Number(writer: BitWriter, value: number) {
+  if (value < 0x80) {
+    writer.write(value, 8);
+    return;
+  }
+  const bytes: number[] = [];
+  let remaining = value;
+  let firstMax = 0x3f;
+  while (remaining > firstMax) {
+    bytes.unshift(0x80 | (remaining & 0x3f));
+    remaining = Math.floor(remaining / 64);
+    firstMax >>= 1;
+  }
+  const prefix = (0xff << (7 - bytes.length)) & 0xff;
+  writer.write(prefix | remaining, 8);
+  bytes.forEach(b => writer.write(b, 8));
+}
+
+const SAMPLE_SIZE_CODES: Record<number, number> = { 8: 0b001, 12: 0b010, 16: 0b100, 20: 0b101, 24: 0b110 };
+
+const SAMPLE_RATE_CODES: Record<number, number> = {
+  88200: 0b0001, 176400: 0b0010, 192000: 0b0011, 8000: 0b0100, 16000: 0b0101, 22050: 0b0110,
+  24000: 0b0111, 32000: 0b1000, 44100: 0b1001, 48000: 0b1010, 96000: 0b1011,
+};
+
+/**
+ * Frame-header sample rate code plus any trailing bits it requires. Every frame is then self-describing.
+ */
+function sampleRateCode(sampleRate: number): { code: number; extra?: { value: number; bits: number } } {
+  if (SAMPLE_RATE_CODES[sampleRate] !== undefined) return { code: SAMPLE_RATE_CODES[sampleRate] };
+  if (sampleRate < 65536) return { code: 0b1101, extra: { value: sampleRate, bits: 16 } };
+  if (sampleRate % 10 === 0 && sampleRate / 10 < 65536) return { code: 0b1110, extra: { value: sampleRate / 10, bits: 16 } };
+  return { code: 0b0000 };
+}
+
+/**
+ * Encodes integer PCM channels (one array per channel, values in the signed range of `bitsPerSample`) to FLAC.
+ * Uses fixed predictors with partitioned Rice coding; MD5 is left unset, which the spec allows.
+ */
+export function encodeFlac(channels: ArrayLike<number>[], sampleRate: number, bitsPerSample: number): Uint8Array {
+  const numChannels = channels.length;
+  const totalSamples = channels[0]?.length ?? 0;
+  const writer = new BitWriter();
+
+  writer.writeBytes(new TextEncoder().encode('fLaC'));
+  writer.write(1, 1);
+  writer.write(0, 7);
+  writer.write(34, 24);
+  writer.write(BLOCK_SIZE, 16);
+  writer.write(BLOCK_SIZE, 16);
+  writer.write(0, 24);
+  writer.write(0, 24);
+  writer.write(sampleRate, 20);
+  writer.write(numChannels - 1, 3);
+  writer.write(bitsPerSample - 1, 5);
+  writer.write(Math.floor(totalSamples / 2 ** 32), 4);
+  writer.write(totalSamples >>> 0, 32);
+  for (let i = 0; i < 16; i++) writer.write(0, 8);
+
+  const rateCode = sampleRateCode(sampleRate);
+  let frameNumber = 0;
+  for (let start = 0; start < totalSamples; start += BLOCK_SIZE) {
+    const blockSize = Math.min(BLOCK_SIZE, totalSamples - start);
+    const frameStart = writer.byteLength;
+
+    writer.write(0b11111111111110, 14);
+    writer.write(0, 1);
+    writer.write(0, 1);
+    writer.write(0b0111, 4);
+    writer.write(rateCode.code, 4);
+    writer.write(numChannels - 1, 4);
+    writer.write(SAMPLE_SIZE_CODES[bitsPerSample] ?? 0, 3);
+    writer.write(0, 1);
+    writeUtf8Number(writer, frameNumber);
+    writer.write(blockSize - 1, 16);
+    if (rateCode.extra) writer.write(rateCode.extra.value, rateCode.extra.bits);
+    writer.write(crc8(writer.bytes(frameStart)), 8);
+
+    channels.forEach(samples => writeSubframe(writer, samples, start, blockSize, bitsPerSample));
+    writer.alignToByte();
+    writer.write(crc16(writer.bytes(frameStart)), 16);
+    frameNumber++;
+  }
+
+  return writer.bytes().slice();
+}
@@ -0,0 +1,84 @@
+
+import { ExportFormat, ExportSettings } from '../../types';
+import { encodeFlac } from './flac';
+import { encodeMp3 } from './mp3';
+import { OPUS_SAMPLE_RATE, encodeOggOpus, isOpusEncodingSupported } from './ogg';
+
+export { isOpusEncodingSupported };
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  wav: { label: 'WAV', extension: 'wav', mimeType: 'audio/wav' },
+  mp3: { label: 'MP3', extension: 'mp3', mimeType: 'audio/mpeg' },
+  flac: { label: 'FLAC', extension: 'flac', mimeType: 'audio/flac' },
+  opus: { label: 'Ogg/Opus', extension: 'ogg', mimeType: 'audio/ogg; codecs=opus' },
+};
+
+export const MP3_BITRATES = [64, 96, 128, 160, 192, 256, 320];
+export const OPUS_BITRATES = [24, 32, 48, 64, 96, 128];
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  format: 'wav',
+  mp3Bitrate: 128,
+  opusBitrate: 48,
+  subtitleMode: 'none',
+  timeline: false,
+  timelineFrameRate: 30,
+  sampleRate: 0,
+  channels: 1,
+  bitDepth: 16,
+};
+
+export const TIMELINE_FRAME_RATES = [24, 25, 30, 50, 60];
+export const OUTPUT_SAMPLE_RATES = [22050, 24000, 32000, 44100, 48000, 96000];
+export const OUTPUT_CHANNELS = [1, 2];
+export const OUTPUT_BIT_DEPTHS = [16, 24];
+
+/** Highest rate MPEG-1 Layer III can carry. */
+const MP3_MAX_SAMPLE_RATE = 48000;
+
+/** Rate, channel count and bit depth an export is actually written with. */
+export interface OutputFormat {
+  sampleRate: number;
+  channels: number;
+  bitDepth: number;
+}
+
+/**
+ * Applies the export's output choices to audio rendered at `sourceRate`, within what each format can carry.
+ */
+export function resolveOutputFormat(settings: ExportSettings, sourceRate: number): OutputFormat {
+  const sampleRate = settings.format === 'opus' ? OPUS_SAMPLE_RATE : settings.sampleRate || sourceRate;
+  return {
+    sampleRate: settings.format === 'mp3' ? Math.min(sampleRate, MP3_MAX_SAMPLE_RATE) : sampleRate,
+    channels: settings.channels,
+    bitDepth: settings.format === 'wav' || settings.format === 'flac' ? settings.bitDepth : 16,
+  };
+}
+
+/** Why the output choices can't be used, for the CLI and server to report; undefined when they're valid. */
+export function outputSettingsError(settings: ExportSettings): string | undefined {
+  if (settings.sampleRate !== 0 && !OUTPUT_SAMPLE_RATES.includes(settings.sampleRate)) {
+    return `Taxa de amostragem deve ser ${OUTPUT_SAMPLE_RATES.join(', ')} (ou 0 para a do motor), recebeu "${settings.sampleRate}".`;
+  }
+  if (!OUTPUT_CHANNELS.includes(settings.channels)) return `Canais devem ser 1 ou 2, recebeu "${settings.channels}".`;
+  if (!OUTPUT_BIT_DEPTHS.includes(settings.bitDepth)) return `Resolução deve ser ${OUTPUT_BIT_DEPTHS.join(' ou ')} bits, recebeu "${settings.bitDepth}".`;
+  return undefined;
+}
+
+/**
+ * Encodes integer channels, already converted to `output`, into one of the compressed export formats.
+ * `sourceRate` is the rate the audio was rendered at, recorded in the Opus header.
+ */
+export async function encodeCompressedAudio(channels: (Int16Array | Int32Array)[], output: OutputFormat, settings: ExportSettings, sourceRate: number): Promise<Uint8Array> {
+  switch (settings.format) {
+    case 'mp3':
+      // resolveOutputFormat keeps MP3 at 16 bits
+      return encodeMp3(channels as Int16Array[], output.sampleRate, settings.mp3Bitrate);
+    case 'flac':
+      return encodeFlac(channels, output.sampleRate, output.bitDepth);
+    case 'opus':
+      return encodeOggOpus(channels.map(samples => Float32Array.from(samples, s => s / 32768)), settings.opusBitrate, sourceRate);
+    default:
+      throw new Error(`Formato sem compressão: ${settings.format}`);
+  }
+}
@@ -0,0 +1,41 @@
+
+import { Mp3Encoder } from '@breezystack/lamejs';
+
+const MPEG1_BITRATES = [32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+const MPEG2_BITRATES = [8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160];
+const MPEG25_BITRATES = [8, 16, 24, 32, 40, 48, 56, 64];
+
+const SAMPLES_PER_CHUNK = 1152 * 16;
+
+/**
+ * Bitrates differ per MPEG version, which is implied by the sample rate: 24 kHz audio can't go above 160 kbps.
+ */
+export function clampMp3Bitrate(kbps: number, sampleRate: number): number {
+  const allowed = sampleRate >= 32000 ? MPEG1_BITRATES : sampleRate >= 16000 ? MPEG2_BITRATES : MPEG25_BITRATES;
+  const fitting = allowed.filter(b => b <= kbps);
+  return fitting.length > 0 ? fitting[fitting.length - 1] : allowed[0];
+}
+
+/**
+ * Encodes 16-bit PCM channels (mono or stereo) to MP3 with LAME.
+ */
+export function encodeMp3(channels: Int16Array[], sampleRate: number, kbps: number): Uint8Array {
+  const encoder = new Mp3Encoder(channels.length, sampleRate, clampMp3Bitrate(kbps, sampleRate));
+  const parts: Uint8Array[] = [];
+  const [left, right] = channels;
+
+  for (let i = 0; i < left.length; i += SAMPLES_PER_CHUNK) {
+    const chunk = encoder.encodeBuffer(left.subarray(i, i + SAMPLES_PER_CHUNK), right?.subarray(i, i + SAMPLES_PER_CHUNK));
+    if (chunk.length > 0) parts.push(new Uint8Array(chunk));
+  }
+  const tail = encoder.flush();
+  if (tail.length > 0) parts.push(new Uint8Array(tail));
+
+  const result = new Uint8Array(parts.reduce((acc, p) => acc + p.length, 0));
+  let offset = 0;
+  parts.forEach(p => {
+    result.set(p, offset);
+    offset += p.length;
+  });
+  return result;
+}
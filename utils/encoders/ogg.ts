@@ -0,0 +1,189 @@
+
+export const OPUS_SAMPLE_RATE = 48000;
+const DEFAULT_PRE_SKIP = 312;
+const MAX_SEGMENTS_PER_PAGE = 255;
+
+const CRC32_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i << 24;
+    for (let j = 0; j < 8; j++) crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+    table[i] = crc >>> 0;
+  }
+  return table;
+})();
+
+function oggCrc32(bytes: Uint8Array) {
+  let crc = 0;
+  for (let i = 0; i < bytes.length; i++) crc = ((crc << 8) ^ CRC32_TABLE[((crc >>> 24) ^ bytes[i]) & 0xff]) >>> 0;
+  return crc;
+}
+
+interface OggPacket {
+  data: Uint8Array;
+  granule: number;
+}
+
+/**
+ * Lays packets out in Ogg pages (RFC 3533). Each page's granule is the one of its last completed packet.
+ */
+function writeOggPages(packets: OggPacket[], serial: number, flags: { bos?: boolean; eos?: boolean }, startSequence: number): { pages: Uint8Array[]; nextSequence: number } {
+  const pages: Uint8Array[] = [];
+  let sequence = startSequence;
+  let segments: number[] = [];
+  let bodies: Uint8Array[] = [];
+  let granule = -1;
+
+  const flush = (isLast: boolean) => {
+    if (segments.length === 0) return;
+    const bodyLength = bodies.reduce((acc, b) => acc + b.length, 0);
+    const page = new Uint8Array(27 + segments.length + bodyLength);
+    const view = new DataView(page.buffer);
+    page.set([0x4f, 0x67, 0x67, 0x53], 0);
+    page[4] = 0;
+    page[5] = (flags.bos && sequence === startSequence ? 0x02 : 0) | (flags.eos && isLast ? 0x04 : 0);
+    view.setUint32(6, granule === -1 ? 0xffffffff : granule >>> 0, true);
+    view.setUint32(10, granule === -1 ? 0xffffffff : Math.floor(granule / 2 ** 32), true);
+    view.setUint32(14, serial, true);
+    view.setUint32(18, sequence++, true);
+    page[26] = segments.length;
+    page.set(segments, 27);
+    let offset = 27 + segments.length;
+    bodies.forEach(b => {
+      page.set(b, offset);
+      offset += b.length;
+    });
+    view.setUint32(22, oggCrc32(page), true);
+    pages.push(page);
+    segments = [];
+    bodies = [];
+    granule = -1;
+  };
+
+  packets.forEach((packet, index) => {
+    const lacing: number[] = [];
+    for (let remaining = packet.data.length; ; remaining -= 255) {
+      lacing.push(Math.min(255, remaining));
+      if (remaining < 255) break;
+    }
+    if (segments.length + lacing.length > MAX_SEGMENTS_PER_PAGE) flush(false);
+    segments.push(...lacing);
+    bodies.push(packet.data);
+    granule = packet.granule;
+    if (index === packets.length - 1) flush(true);
+  });
+
+  return { pages, nextSequence: sequence };
+}
+
+function opusHead(channels: number, preSkip: number, inputSampleRate: number): Uint8Array {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set(new TextEncoder().encode('OpusHead'), 0);
+  head[8] = 1;
+  head[9] = channels;
+  view.setUint16(10, preSkip, true);
+  view.setUint32(12, inputSampleRate, true);
+  view.setInt16(16, 0, true);
+  head[18] = 0;
+  return head;
+}
+
+function opusTags(vendor: string): Uint8Array {
+  const vendorBytes = new TextEncoder().encode(vendor);
+  const tags = new Uint8Array(8 + 4 + vendorBytes.length + 4);
+  const view = new DataView(tags.buffer);
+  tags.set(new TextEncoder().encode('OpusTags'), 0);
+  view.setUint32(8, vendorBytes.length, true);
+  tags.set(vendorBytes, 12);
+  view.setUint32(12 + vendorBytes.length, 0, true);
+  return tags;
+}
+
+/**
+ * Wraps raw Opus packets (48 kHz timing) in an Ogg Opus file (RFC 7845).
+ */
+export function muxOggOpus(packets: { data: Uint8Array; samples: number }[], options: { channels: number; preSkip: number; inputSampleRate: number; totalSamples: number }): Uint8Array {
+  const serial = (Math.random() * 0xffffffff) >>> 0;
+  const header = writeOggPages([{ data: opusHead(options.channels, options.preSkip, options.inputSampleRate), granule: 0 }], serial, { bos: true }, 0);
+  const tags = writeOggPages([{ data: opusTags('Edson Automacao TTS'), granule: 0 }], serial, {}, header.nextSequence);
+
+  const endGranule = options.preSkip + options.totalSamples;
+  let granule = 0;
+  const audio = writeOggPages(packets.map(p => {
+    granule = Math.min(granule + p.samples, endGranule);
+    return { data: p.data, granule };
+  }), serial, { eos: true }, tags.nextSequence);
+
+  const pages = [...header.pages, ...tags.pages, ...audio.pages];
+  const result = new Uint8Array(pages.reduce((acc, p) => acc + p.length, 0));
+  let offset = 0;
+  pages.forEach(p => {
+    result.set(p, offset);
+    offset += p.length;
+  });
+  return result;
+}
+
+export async function isOpusEncodingSupported(channels: number = 1): Promise<boolean> {
+  if (typeof AudioEncoder === 'undefined') return false;
+  try {
+    const { supported } = await AudioEncoder.isConfigSupported({ codec: 'opus', sampleRate: OPUS_SAMPLE_RATE, numberOfChannels: channels, bitrate: 64000 });
+    return !!supported;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Encodes float PCM channels (already at 48 kHz) to Ogg Opus with the browser's WebCodecs encoder.
+ */
+export async function encodeOggOpus(channels: Float32Array[], kbps: number, inputSampleRate: number): Promise<Uint8Array> {
+  if (!(await isOpusEncodingSupported(channels.length))) {
+    throw new Error('Este navegador não suporta codificação Opus (WebCodecs).');
+  }
+
+  const packets: { data: Uint8Array; samples: number }[] = [];
+  let preSkip = DEFAULT_PRE_SKIP;
+  let failure: unknown = null;
+
+  const encoder = new AudioEncoder({
+    output: (chunk, metadata) => {
+      const description = metadata?.decoderConfig?.description;
+      if (description) {
+        const bytes = description instanceof ArrayBuffer ? new Uint8Array(description) : new Uint8Array(description.buffer, description.byteOffset, description.byteLength);
+        if (bytes.length >= 12 && new TextDecoder().decode(bytes.subarray(0, 8)) === 'OpusHead') {
+          preSkip = bytes[10] | (bytes[11] << 8);
+        }
+      }
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      packets.push({ data, samples: Math.round(((chunk.duration ?? 20000) * OPUS_SAMPLE_RATE) / 1e6) });
+    },
+    error: (err) => { failure = err; },
+  });
+  encoder.configure({ codec: 'opus', sampleRate: OPUS_SAMPLE_RATE, numberOfChannels: channels.length, bitrate: kbps * 1000 });
+
+  const frameCount = channels[0].length;
+  const chunkFrames = OPUS_SAMPLE_RATE;
+  for (let start = 0; start < frameCount; start += chunkFrames) {
+    const length = Math.min(chunkFrames, frameCount - start);
+    const planar = new Float32Array(length * channels.length);
+    channels.forEach((channel, c) => planar.set(channel.subarray(start, start + length), c * length));
+    const data = new AudioData({
+      format: 'f32-planar',
+      sampleRate: OPUS_SAMPLE_RATE,
+      numberOfFrames: length,
+      numberOfChannels: channels.length,
+      timestamp: Math.round((start / OPUS_SAMPLE_RATE) * 1e6),
+      data: planar,
+    });
+    encoder.encode(data);
+    data.close();
+  }
+  await encoder.flush();
+  encoder.close();
+  if (failure) throw failure;
+
+  return muxOggOpus(packets, { channels: channels.length, preSkip, inputSampleRate, totalSamples: frameCount });
+}
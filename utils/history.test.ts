@@ -0,0 +1,65 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { HistoryStatus, createUndoHistory } from './history';
+
+beforeEach(() => { vi.useFakeTimers(); });
+afterEach(() => { vi.useRealTimers(); });
+
+describe('createUndoHistory', () => {
+  it('undoes and redoes recorded snapshots in order', () => {
+    const history = createUndoHistory<string>({ limit: 10, mergeWindowMs: 500 });
+    history.record('a');
+    history.record('b');
+    expect(history.undo('c')).toBe('b');
+    expect(history.undo('b')).toBe('a');
+    expect(history.undo('a')).toBeUndefined();
+    expect(history.redo('a')).toBe('b');
+    expect(history.redo('b')).toBe('c');
+    expect(history.redo('c')).toBeUndefined();
+    expect(history.undo('c')).toBe('b');
+  });
+
+  it('drops the redo stack when a new change is recorded', () => {
+    const history = createUndoHistory<string>({ limit: 10, mergeWindowMs: 500 });
+    history.record('a');
+    history.undo('b');
+    history.record('a');
+    expect(history.getStatus()).toEqual({ canUndo: true, canRedo: false });
+  });
+
+  it('merges changes with the same key inside the window', () => {
+    const history = createUndoHistory<string>({ limit: 10, mergeWindowMs: 500 });
+    history.record('', 'texto');
+    vi.advanceTimersByTime(300);
+    history.record('O', 'texto');
+    vi.advanceTimersByTime(300);
+    history.record('Ol', 'texto');
+    vi.advanceTimersByTime(600);
+    history.record('Olá', 'texto');
+    history.record('Olá!', 'outro');
+    expect(history.undo('Olá!?')).toBe('Olá!');
+    expect(history.undo('Olá!')).toBe('Olá');
+    expect(history.undo('Olá')).toBe('');
+    expect(history.getStatus().canUndo).toBe(false);
+  });
+
+  it('forgets the oldest entries beyond the limit', () => {
+    const history = createUndoHistory<number>({ limit: 2, mergeWindowMs: 0 });
+    [1, 2, 3].forEach(n => history.record(n));
+    expect(history.undo(4)).toBe(3);
+    expect(history.undo(3)).toBe(2);
+    expect(history.undo(2)).toBeUndefined();
+  });
+
+  it('reports status changes and clears both stacks', () => {
+    const statuses: HistoryStatus[] = [];
+    const history = createUndoHistory<number>({ limit: 10, mergeWindowMs: 0, onChange: status => statuses.push(status) });
+    history.record(1);
+    history.undo(2);
+    history.clear();
+    expect(statuses).toEqual([
+      { canUndo: true, canRedo: false },
+      { canUndo: false, canRedo: true },
+      { canUndo: false, canRedo: false },
+    ]);
+  });
+});
@@ -0,0 +1,67 @@
+export interface HistoryStatus {
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+export interface UndoHistoryOptions {
+  /** Oldest entries beyond this are forgotten. */
+  limit: number;
+  /** Changes recorded with the same key within this window become one undo step (typing, slider drags). */
+  mergeWindowMs: number;
+  onChange?: (status: HistoryStatus) => void;
+}
+
+interface HistoryEntry<T> {
+  state: T;
+  key?: string;
+  at: number;
+}
+
+/**
+ * Snapshot-based undo/redo. Callers `record` the state as it is right before a change; `undo`/`redo`
+ * take the current state (so it can be restored in the other direction) and return the one to apply.
+ */
+export function createUndoHistory<T>(options: UndoHistoryOptions) {
+  let past: HistoryEntry<T>[] = [];
+  let future: T[] = [];
+
+  const getStatus = (): HistoryStatus => ({ canUndo: past.length > 0, canRedo: future.length > 0 });
+  const notify = () => options.onChange?.(getStatus());
+
+  return {
+    record(state: T, key?: string) {
+      const now = Date.now();
+      const last = past[past.length - 1];
+      if (key && last?.key === key && now - last.at < options.mergeWindowMs && future.length === 0) {
+        last.at = now;
+        return;
+      }
+      past.push({ state, key, at: now });
+      if (past.length > options.limit) past.shift();
+      future = [];
+      notify();
+    },
+    undo(current: T): T | undefined {
+      const entry = past.pop();
+      if (!entry) return undefined;
+      future.push(current);
+      notify();
+      return entry.state;
+    },
+    redo(current: T): T | undefined {
+      const next = future.pop();
+      if (next === undefined) return undefined;
+      past.push({ state: current, at: 0 });
+      notify();
+      return next;
+    },
+    clear() {
+      past = [];
+      future = [];
+      notify();
+    },
+    getStatus,
+  };
+}
+
+export type UndoHistory<T> = ReturnType<typeof createUndoHistory<T>>;
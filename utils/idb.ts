@@ -0,0 +1,102 @@
+
+const DB_NAME = 'edson-tts';
+const DB_VERSION = 4;
+
+export const STORES = {
+  projects: 'projects',
+  audioCache: 'audioCache',
+  audioCacheMeta: 'audioCacheMeta',
+  usage: 'usage',
+  projectAudio: 'projectAudio',
+} as const;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Opens (and upgrades) the app database once per page load.
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORES.projects)) {
+          db.createObjectStore(STORES.projects, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(STORES.audioCache)) {
+          db.createObjectStore(STORES.audioCache, { keyPath: 'key' });
+        }
+        if (!db.objectStoreNames.contains(STORES.audioCacheMeta)) {
+          const meta = db.createObjectStore(STORES.audioCacheMeta, { keyPath: 'key' });
+          meta.createIndex('lastAccess', 'lastAccess');
+        }
+        if (!db.objectStoreNames.contains(STORES.usage)) {
+          db.createObjectStore(STORES.usage, { keyPath: 'id' }).createIndex('timestamp', 'timestamp');
+        }
+        if (!db.objectStoreNames.contains(STORES.projectAudio)) {
+          db.createObjectStore(STORES.projectAudio, { keyPath: 'id' }).createIndex('projectId', 'projectId');
+        }
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Lets another tab upgrade the schema instead of waiting on this connection forever.
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+      request.onblocked = () => {
+        dbPromise = null;
+        reject(new Error('O banco de dados está aberto em outra aba com uma versão antiga do app. Feche as outras abas e recarregue.'));
+      };
+    });
+  }
+  return dbPromise;
+}
+
+/** Resolves when the transaction commits, rejects when it fails or is aborted. */
+export function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/**
+ * Runs `run` in a transaction over several stores and waits for it to commit as well.
+ */
+export async function withTransaction<T>(storeNames: string[], mode: IDBTransactionMode, run: (tx: IDBTransaction) => Promise<T>): Promise<T> {
+  const db = await openDatabase();
+  const tx = db.transaction(storeNames, mode);
+  const [result] = await Promise.all([run(tx), transactionDone(tx)]);
+  return result;
+}
+
+/**
+ * Runs one request and waits for its transaction to commit. Both are awaited together, so a failed request
+ * doesn't leave the transaction's rejection unhandled.
+ */
+export async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, mode);
+  const [result] = await Promise.all([requestToPromise(run(tx.objectStore(storeName))), transactionDone(tx)]);
+  return result;
+}
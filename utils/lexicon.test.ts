@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { LexiconEntry } from '../types';
+import { applyLexicon, exportLexiconFile, parseLexiconFile, validateEntry } from './lexicon';
+
+function entry(term: string, replacement: string, extra: Partial<LexiconEntry> = {}): LexiconEntry {
+  return { id: term, term, replacement, wholeWord: true, caseSensitive: false, regex: false, ...extra };
+}
+
+describe('applyLexicon', () => {
+  it('replaces whole words only, including next to accented letters', () => {
+    const entries = [entry('API', 'a pê í')];
+    expect(applyLexicon('A api e a APIs, mas não APIé.', entries)).toBe('A a pê í e a APIs, mas não APIé.');
+  });
+
+  it('honours case sensitivity and substring rules', () => {
+    expect(applyLexicon('Sr. e sr.', [entry('Sr.', 'Senhor', { caseSensitive: true, wholeWord: false })])).toBe('Senhor e sr.');
+    expect(applyLexicon('kmh', [entry('km', 'quilômetros', { wholeWord: false })])).toBe('quilômetrosh');
+  });
+
+  it('applies entries in order and keeps "$" literal outside regex rules', () => {
+    const entries = [entry('US$', 'dólares $1', { wholeWord: false }), entry('dólares', 'dólares americanos')];
+    expect(applyLexicon('10 US$', entries)).toBe('10 dólares americanos $1');
+  });
+
+  it('supports capture groups in regex rules', () => {
+    expect(applyLexicon('Cap. 12', [entry('Cap\\. (\\d+)', 'capítulo $1', { regex: true })])).toBe('capítulo 12');
+  });
+
+  it('leaves markup tags untouched', () => {
+    const entries = [entry('pausa', 'parada'), entry('voz', 'fala')];
+    expect(applyLexicon('Uma pausa [pausa 1s] {voz: Kore} voz \\*', entries)).toBe('Uma parada [pausa 1s] {voz: Kore} fala \\*');
+  });
+
+  it('skips invalid entries', () => {
+    expect(applyLexicon('abc', [entry('(', 'x', { regex: true }), entry('', 'x'), entry('b', 'B', { wholeWord: false })])).toBe('aBc');
+  });
+});
+
+describe('validateEntry', () => {
+  it('rejects empty terms, broken patterns and patterns that match nothing', () => {
+    expect(validateEntry(entry(' ', 'x'))).toBe('Termo vazio.');
+    expect(validateEntry(entry('(', 'x', { regex: true }))).toMatch(/^Expressão regular inválida/);
+    expect(validateEntry(entry('a*', 'x', { regex: true, wholeWord: false }))).toBe('A expressão aceita texto vazio.');
+    expect(validateEntry(entry('ok', 'x'))).toBeUndefined();
+  });
+});
+
+describe('lexicon files', () => {
+  it('round-trips entries with fresh ids', async () => {
+    const entries = [entry('API', 'a pê í'), entry('\\d+%', 'por cento', { regex: true, caseSensitive: true })];
+    let next = 0;
+    const parsed = parseLexiconFile(await exportLexiconFile(entries).text(), () => `novo-${++next}`);
+    expect(parsed).toEqual(entries.map((e, i) => ({ ...e, id: `novo-${i + 1}` })));
+  });
+
+  it('rejects foreign files and drops malformed rows', () => {
+    expect(() => parseLexiconFile('{', () => 'x')).toThrow('JSON malformado');
+    expect(() => parseLexiconFile('{"format":"outro","entries":[]}', () => 'x')).toThrow('Arquivo de pronúncias inválido.');
+    const content = JSON.stringify({ format: 'edson-tts-lexicon', version: 1, entries: [{ term: 'a' }, { term: 'b', replacement: 'B' }] });
+    expect(parseLexiconFile(content, () => 'x')).toEqual([entry('b', 'B', { id: 'x' })]);
+  });
+});
@@ -0,0 +1,105 @@
+import { LexiconEntry } from '../types';
+
+const STORAGE_KEY = 'tts_global_lexicon';
+const FILE_FORMAT = 'edson-tts-lexicon';
+
+// Letras e dígitos Unicode: \b do JavaScript não reconhece acentos como parte da palavra.
+const WORD_BEFORE = '(?<![\\p{L}\\p{N}_])';
+const WORD_AFTER = '(?![\\p{L}\\p{N}_])';
+
+// Tags de marcação ficam fora das substituições para que uma regra nunca quebre uma pausa ou diretiva.
+const MARKUP_TAG = /(\[\s*pausa\b[^\]]*\]|\{[^{}]*\}|\\[*[\]{}])/i;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Builds the matcher for an entry, or throws when a regex entry has invalid syntax.
+ */
+export function compileEntry(entry: LexiconEntry): RegExp {
+  const body = entry.regex ? entry.term : escapeRegExp(entry.term);
+  const pattern = entry.wholeWord ? `${WORD_BEFORE}(?:${body})${WORD_AFTER}` : body;
+  return new RegExp(pattern, entry.caseSensitive ? 'gu' : 'giu');
+}
+
+/**
+ * Error message for an entry that can't be applied, if any.
+ */
+export function validateEntry(entry: LexiconEntry): string | undefined {
+  if (!entry.term.trim()) return 'Termo vazio.';
+  try {
+    const matcher = compileEntry(entry);
+    if (matcher.test('')) return 'A expressão aceita texto vazio.';
+  } catch (err: any) {
+    return `Expressão regular inválida: ${err.message}`;
+  }
+  return undefined;
+}
+
+function replaceAll(text: string, entries: LexiconEntry[]): string {
+  return entries.reduce((result, entry) => {
+    if (validateEntry(entry)) return result;
+    const matcher = compileEntry(entry);
+    // Regras literais não interpretam "$" na pronúncia; regras regex podem usar $1, $2...
+    return entry.regex ? result.replace(matcher, entry.replacement) : result.replace(matcher, () => entry.replacement);
+  }, text);
+}
+
+/**
+ * Rewrites block text with the lexicon, in entry order, leaving inline markup tags untouched.
+ */
+export function applyLexicon(text: string, entries: LexiconEntry[]): string {
+  if (entries.length === 0) return text;
+  return text
+    .split(MARKUP_TAG)
+    .map((part, i) => i % 2 === 1 ? part : replaceAll(part, entries))
+    .join('');
+}
+
+export function loadGlobalLexicon(): LexiconEntry[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveGlobalLexicon(entries: LexiconEntry[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+}
+
+export function exportLexiconFile(entries: LexiconEntry[]): Blob {
+  const file = {
+    format: FILE_FORMAT,
+    version: 1,
+    entries: entries.map(({ id, ...entry }) => entry),
+  };
+  return new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+}
+
+/**
+ * Parses a shared lexicon file. Entries get local ids; invalid rows are skipped.
+ */
+export function parseLexiconFile(content: string, newId: () => string): LexiconEntry[] {
+  let file: any;
+  try {
+    file = JSON.parse(content);
+  } catch {
+    throw new Error('Arquivo de pronúncias inválido: JSON malformado.');
+  }
+  if (file?.format !== FILE_FORMAT || !Array.isArray(file.entries)) {
+    throw new Error('Arquivo de pronúncias inválido.');
+  }
+  return file.entries
+    .filter((e: any) => typeof e?.term === 'string' && typeof e?.replacement === 'string')
+    .map((e: any) => ({
+      id: newId(),
+      term: e.term,
+      replacement: e.replacement,
+      wholeWord: e.wholeWord !== false,
+      caseSensitive: !!e.caseSensitive,
+      regex: !!e.regex,
+    }));
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SETTINGS, SettingsOverrides } from '../types';
+import { SpeechSegment, hasMarkup, parseMarkup, segmentSettings, stripMarkup } from './markup';
+
+const speech = (text: string, overrides: SettingsOverrides = {}, emphasis = false): SpeechSegment => ({ kind: 'speech', text, overrides, emphasis });
+
+describe('hasMarkup', () => {
+  it('detects pauses, directives, emphasis and escapes', () => {
+    expect(hasMarkup('Oi [pausa 1s] tchau')).toBe(true);
+    expect(hasMarkup('{voz: Kore} Oi')).toBe(true);
+    expect(hasMarkup('Isso é *muito* bom')).toBe(true);
+    expect(hasMarkup('Preço \\* 2')).toBe(true);
+  });
+
+  it('treats lone asterisks and braces as plain text', () => {
+    expect(hasMarkup('5 * 3 = 15')).toBe(false);
+    expect(hasMarkup('* item de lista')).toBe(false);
+    expect(hasMarkup('o conjunto {1, 2}')).toBe(false);
+    expect(hasMarkup('fecha }')).toBe(false);
+  });
+});
+
+describe('parseMarkup', () => {
+  it('splits speech around pauses and merges consecutive pauses', () => {
+    expect(parseMarkup('Olá. [pausa 800ms] [pausa 1,5s] Tudo bem?')).toEqual({
+      segments: [speech('Olá.'), { kind: 'pause', durationMs: 2300 }, speech('Tudo bem?')],
+      issues: [],
+    });
+  });
+
+  it('generates emphasis as its own segment and keeps trailing punctuation with it', () => {
+    expect(parseMarkup('Isso é *muito*! [pausa 1s] Sim.').segments).toEqual([
+      speech('Isso é'),
+      speech('muito!', {}, true),
+      { kind: 'pause', durationMs: 1000 },
+      speech('Sim.'),
+    ]);
+  });
+
+  it('applies directives until the end of the block and resets them', () => {
+    const { segments, issues } = parseMarkup('{voz: kore}{ritmo: 1,2} Um. {estilo: sussurrando} Dois. {estilo:} Três. {padrão} Quatro.', ['Kore', 'Puck']);
+    expect(issues).toEqual([]);
+    expect(segments).toEqual([
+      speech('Um.', { voice: 'Kore', speed: 1.2 }),
+      speech('Dois.', { voice: 'Kore', speed: 1.2, style: 'sussurrando' }),
+      speech('Três.', { voice: 'Kore', speed: 1.2 }),
+      speech('Quatro.'),
+    ]);
+  });
+
+  it('reads escapes, lone asterisks and non-directive braces literally', () => {
+    expect(parseMarkup('\\*a\\* 5 * 3 {chaves} { }').segments).toEqual([speech('*a* 5 * 3 {chaves} { }')]);
+  });
+
+  it('reports malformed tags with their offsets', () => {
+    const { issues } = parseMarkup('A [pausa longa] {voz: Nada} {tom: x} {ritmo: 9} [pausa 20s] [pausa 1s', ['Kore']);
+    expect(issues.map(i => i.index)).toEqual([2, 16, 28, 37, 48, 60]);
+    expect(issues[1].message).toContain('Voz "Nada"');
+    expect(issues[2].message).toContain('Diretiva desconhecida');
+    expect(issues[4].message).toContain('acima do máximo');
+    expect(issues[5].message).toContain('sem "]"');
+  });
+});
+
+describe('stripMarkup', () => {
+  it('returns the spoken text only', () => {
+    expect(stripMarkup('{estilo: alegre} Oi, *você*! [pausa 1s] Tchau.')).toBe('Oi, você! Tchau.');
+    expect(stripMarkup('Sem tags.')).toBe('Sem tags.');
+  });
+});
+
+describe('segmentSettings', () => {
+  it('layers overrides over the base settings and appends emphasis to the style', () => {
+    const base = { ...DEFAULT_SETTINGS, voice: 'Puck', style: 'calmo' };
+    expect(segmentSettings(base, speech('x', { voice: 'Kore' }, true))).toMatchObject({ voice: 'Kore', style: 'calmo, com ênfase forte' });
+    expect(segmentSettings({ ...base, style: '' }, speech('x', {}, true)).style).toBe('com ênfase forte');
+  });
+});
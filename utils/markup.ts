@@ -0,0 +1,227 @@
+import { GlobalSettings, SettingsOverrides } from '../types';
+
+export interface SpeechSegment {
+  kind: 'speech';
+  text: string;
+  overrides: SettingsOverrides;
+  emphasis: boolean;
+}
+
+export interface PauseSegment {
+  kind: 'pause';
+  durationMs: number;
+}
+
+export type MarkupSegment = SpeechSegment | PauseSegment;
+
+export interface MarkupIssue {
+  /** Character offset of the offending tag in the block text. */
+  index: number;
+  message: string;
+}
+
+export interface ParsedMarkup {
+  segments: MarkupSegment[];
+  issues: MarkupIssue[];
+}
+
+export const MAX_PAUSE_MS = 10000;
+
+const PAUSE_TAG = /^\[\s*pausa\b/i;
+/** `{chave: valor}`, `{padrão}` or `{/}`; other text between braces is read literally. */
+const DIRECTIVE_BODY = /^\s*(?:padrão|padrao|\/|\p{L}+\s*:[^]*)$/iu;
+const DIRECTIVE_TAG = /\{\s*(?:padrão|padrao|\/|\p{L}+\s*:[^{}]*)\}/iu;
+/** `*texto*`: the opening `*` is followed and the closing one preceded by a non-space, as in Markdown. */
+const EMPHASIS_SPAN = /\*(?=\S)[^*]*?[^\s\\]\*/;
+const ESCAPE = /\\[*[\]{}]/;
+const PAUSE_BODY = /^pausa\s+(\d+(?:[.,]\d+)?)\s*(ms|s)$/i;
+const EMPHASIS_STYLE = 'com ênfase forte';
+
+type DirectiveKey = 'voice' | 'style' | 'accent' | 'speed' | 'temperature';
+
+const DIRECTIVE_KEYS: Record<string, DirectiveKey> = {
+  voz: 'voice',
+  estilo: 'style',
+  sotaque: 'accent',
+  ritmo: 'speed',
+  velocidade: 'speed',
+  'emoção': 'temperature',
+  emocao: 'temperature',
+};
+
+const RESET_DIRECTIVES = ['padrão', 'padrao', '/'];
+
+/**
+ * True when the text uses any inline tag, so plain blocks keep the single-request path. A lone `*`, `{` or
+ * `}` (math, a Markdown bullet) is plain text.
+ */
+export function hasMarkup(text: string): boolean {
+  return /\[\s*pausa\b/i.test(text) || DIRECTIVE_TAG.test(text) || EMPHASIS_SPAN.test(text) || ESCAPE.test(text);
+}
+
+/** Whether the `*` at `index` opens an emphasis that a later `*` closes. */
+function opensEmphasis(text: string, index: number): boolean {
+  if (!/\S/.test(text[index + 1] ?? '')) return false;
+  for (let j = index + 2; j < text.length; j++) {
+    if (text[j] === '*' && /[^\s\\]/.test(text[j - 1])) return true;
+  }
+  return false;
+}
+
+function parseDirective(body: string, voices: string[] | undefined, overrides: SettingsOverrides): string | undefined {
+  const trimmed = body.trim();
+  if (RESET_DIRECTIVES.includes(trimmed.toLowerCase())) {
+    (Object.keys(overrides) as (keyof SettingsOverrides)[]).forEach(key => delete overrides[key]);
+    return undefined;
+  }
+
+  const separator = trimmed.indexOf(':');
+  if (separator < 0) return `Diretiva "{${trimmed}}" sem valor: use {chave: valor} ou {padrão}.`;
+  const name = trimmed.slice(0, separator).trim().toLowerCase();
+  const value = trimmed.slice(separator + 1).trim();
+  const key = DIRECTIVE_KEYS[name];
+  if (!key) return `Diretiva desconhecida "${name}". Use voz, estilo, sotaque, ritmo ou emoção.`;
+
+  // Valor vazio volta ao ajuste do trecho para esta chave.
+  if (!value) {
+    delete overrides[key];
+    return undefined;
+  }
+
+  if (key === 'voice') {
+    const voice = voices?.find(v => v.toLowerCase() === value.toLowerCase());
+    if (voices && !voice) return `Voz "${value}" não existe neste motor.`;
+    overrides.voice = voice ?? value;
+  } else if (key === 'speed' || key === 'temperature') {
+    const number = parseFloat(value.replace(',', '.'));
+    const [min, max] = key === 'speed' ? [0.5, 2.5] : [0, 3];
+    if (isNaN(number) || number < min || number > max) return `Valor inválido para ${name}: use um número entre ${min} e ${max}.`;
+    overrides[key] = key === 'temperature' ? Math.round(number * 2) / 2 : number;
+  } else {
+    overrides[key] = value;
+  }
+  return undefined;
+}
+
+/**
+ * Splits block text into speech and pause segments.
+ *
+ * - `[pausa 800ms]` / `[pausa 1,5s]` inserts real silence
+ * - `*texto*` is generated as a separate, emphasised segment
+ * - `{estilo: sussurrando}`, `{voz: Kore}`, `{sotaque: ...}`, `{ritmo: 1.2}`, `{emoção: 2}` apply until
+ *   the end of the block, `{estilo:}` clears one key and `{padrão}` clears all
+ * - `\*`, `\[`, `\{` and `\}` are literal characters, and so are a `*` that doesn't open or close an emphasis,
+ *   unmatched braces and braces around anything that isn't a directive
+ *
+ * `voices` enables validation of `{voz: ...}`. Malformed tags are reported in `issues`.
+ */
+export function parseMarkup(text: string, voices?: string[]): ParsedMarkup {
+  const segments: MarkupSegment[] = [];
+  const issues: MarkupIssue[] = [];
+  const overrides: SettingsOverrides = {};
+  let emphasisStart = -1;
+  let buffer = '';
+
+  const flush = () => {
+    const spoken = buffer.replace(/\s+/g, ' ').trim();
+    buffer = '';
+    if (!spoken) return;
+    // Pontuação solta depois de uma tag fica com o segmento anterior em vez de virar uma requisição.
+    if (!/[\p{L}\p{N}]/u.test(spoken)) {
+      const previous = segments[segments.length - 1];
+      if (previous?.kind === 'speech') previous.text += spoken;
+      return;
+    }
+    segments.push({ kind: 'speech', text: spoken, overrides: { ...overrides }, emphasis: emphasisStart >= 0 });
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (ch === '\\' && '*[]{}'.includes(text[i + 1] ?? '')) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (ch === '*') {
+      const toggles = emphasisStart >= 0 ? /\S/.test(text[i - 1] ?? '') : opensEmphasis(text, i);
+      if (toggles) {
+        flush();
+        emphasisStart = emphasisStart >= 0 ? -1 : i;
+      } else {
+        buffer += ch;
+      }
+      i++;
+      continue;
+    }
+
+    if (ch === '[' && PAUSE_TAG.test(text.slice(i))) {
+      const end = text.indexOf(']', i);
+      if (end < 0) {
+        issues.push({ index: i, message: 'Tag de pausa sem "]" de fechamento.' });
+        break;
+      }
+      const match = text.slice(i + 1, end).trim().match(PAUSE_BODY);
+      if (!match) {
+        issues.push({ index: i, message: `Pausa inválida "${text.slice(i, end + 1)}": use por exemplo [pausa 800ms] ou [pausa 1,5s].` });
+      } else {
+        const amount = parseFloat(match[1].replace(',', '.'));
+        const durationMs = Math.round(match[2].toLowerCase() === 's' ? amount * 1000 : amount);
+        if (durationMs > MAX_PAUSE_MS) {
+          issues.push({ index: i, message: `Pausa de ${durationMs}ms acima do máximo de ${MAX_PAUSE_MS / 1000}s.` });
+        } else if (durationMs > 0) {
+          flush();
+          const previous = segments[segments.length - 1];
+          if (previous?.kind === 'pause') previous.durationMs += durationMs;
+          else segments.push({ kind: 'pause', durationMs });
+        }
+      }
+      i = end + 1;
+      continue;
+    }
+
+    if (ch === '{') {
+      const end = text.indexOf('}', i);
+      const nextOpen = text.indexOf('{', i + 1);
+      if (end < 0 || (nextOpen >= 0 && nextOpen < end) || !DIRECTIVE_BODY.test(text.slice(i + 1, end))) {
+        buffer += ch;
+        i++;
+        continue;
+      }
+      flush();
+      const issue = parseDirective(text.slice(i + 1, end), voices, overrides);
+      if (issue) issues.push({ index: i, message: issue });
+      i = end + 1;
+      continue;
+    }
+
+    buffer += ch;
+    i++;
+  }
+
+  flush();
+  if (emphasisStart >= 0) issues.push({ index: emphasisStart, message: 'Ênfase "*" sem "*" de fechamento.' });
+  return { segments, issues };
+}
+
+/**
+ * Block text without tags, as it will be heard (used for subtitles).
+ */
+export function stripMarkup(text: string): string {
+  if (!hasMarkup(text)) return text;
+  return parseMarkup(text).segments
+    .filter((s): s is SpeechSegment => s.kind === 'speech')
+    .map(s => s.text)
+    .join(' ');
+}
+
+/**
+ * Settings for one speech segment: directive overrides on top of the block settings, plus emphasis in the style.
+ */
+export function segmentSettings(base: GlobalSettings, segment: SpeechSegment): GlobalSettings {
+  const settings = { ...base, ...segment.overrides };
+  if (segment.emphasis) settings.style = settings.style ? `${settings.style}, ${EMPHASIS_STYLE}` : EMPHASIS_STYLE;
+  return settings;
+}
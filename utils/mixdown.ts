@@ -0,0 +1,105 @@
+
+import { AudioBlock, MixSettings, MusicBed } from '../types';
+import { TrackLayout, float32ToPcm, layoutTrack, mixTrack, pcmToFloat32 } from './audioUtils';
+
+export const DEFAULT_MIX_SETTINGS: MixSettings = {
+  defaultPauseMs: 0,
+  crossfadeMs: 0,
+  musicVolumeDb: -18,
+  musicDuckDb: -12,
+  duckAttackMs: 120,
+  duckReleaseMs: 500,
+  musicLeadInMs: 2000,
+  musicTailMs: 2500,
+  musicFadeMs: 1500,
+};
+
+const SPEECH_THRESHOLD_DB = -45;
+const DETECTION_WINDOW_MS = 10;
+
+/**
+ * Decodes any browser-supported audio file, downmixes to mono and resamples to the track rate.
+ */
+export async function decodeMusicFile(file: File, sampleRate: number): Promise<MusicBed> {
+  const ctx = new AudioContext();
+  try {
+    const decoded = await ctx.decodeAudioData(await file.arrayBuffer());
+    const length = Math.max(1, Math.ceil((decoded.length * sampleRate) / decoded.sampleRate));
+    const offline = new OfflineAudioContext(1, length, sampleRate);
+    const source = offline.createBufferSource();
+    source.buffer = decoded;
+    source.connect(offline.destination);
+    source.start();
+    const rendered = await offline.startRendering();
+    return { name: file.name, pcmData: float32ToPcm(rendered.getChannelData(0)), sampleRate };
+  } finally {
+    ctx.close();
+  }
+}
+
+/**
+ * Marks 10 ms windows containing speech, extended backwards by the attack time so the music
+ * is already down when the voice starts.
+ */
+function detectSpeechWindows(voice: Float32Array, windowSize: number, lookaheadWindows: number): Uint8Array {
+  const threshold = 10 ** (SPEECH_THRESHOLD_DB / 20);
+  const windows = new Uint8Array(Math.ceil(voice.length / windowSize));
+  for (let w = 0; w < windows.length; w++) {
+    const start = w * windowSize;
+    const end = Math.min(voice.length, start + windowSize);
+    let sum = 0;
+    for (let i = start; i < end; i++) sum += voice[i] * voice[i];
+    if (Math.sqrt(sum / (end - start)) >= threshold) windows.fill(1, Math.max(0, w - lookaheadWindows), w + 1);
+  }
+  return windows;
+}
+
+/**
+ * Loops the music under the voice, ducking it while speech is present and fading it in/out at the track edges.
+ */
+export function mixMusicBed(voice: Float32Array, sampleRate: number, music: MusicBed, mix: MixSettings): Float32Array {
+  const bed = pcmToFloat32(music.pcmData);
+  if (bed.length === 0) return voice;
+
+  const windowSize = Math.max(1, Math.round((sampleRate * DETECTION_WINDOW_MS) / 1000));
+  const speech = detectSpeechWindows(voice, windowSize, Math.ceil(mix.duckAttackMs / DETECTION_WINDOW_MS));
+  const baseGain = 10 ** (mix.musicVolumeDb / 20);
+  const duckedGain = 10 ** ((mix.musicVolumeDb + mix.musicDuckDb) / 20);
+  const attack = Math.exp(-1 / Math.max(1, (sampleRate * mix.duckAttackMs) / 1000));
+  const release = Math.exp(-1 / Math.max(1, (sampleRate * mix.duckReleaseMs) / 1000));
+  const fade = Math.min(Math.floor(voice.length / 2), Math.round((sampleRate * mix.musicFadeMs) / 1000));
+
+  const result = new Float32Array(voice.length);
+  let gain = baseGain;
+  for (let i = 0; i < voice.length; i++) {
+    const target = speech[Math.floor(i / windowSize)] ? duckedGain : baseGain;
+    gain = target + (gain - target) * (target < gain ? attack : release);
+    let edge = 1;
+    if (i < fade) edge = i / fade;
+    else if (voice.length - 1 - i < fade) edge = (voice.length - 1 - i) / fade;
+    result[i] = voice[i] + bed[i % bed.length] * gain * edge;
+  }
+  return result;
+}
+
+/**
+ * Where each block lands in the single track, including the music lead-in and tail when there is a bed.
+ */
+export function singleTrackLayout(blocks: AudioBlock[], sampleRate: number, mix: MixSettings, music?: MusicBed): TrackLayout {
+  const msToSamples = (ms: number) => Math.round((sampleRate * ms) / 1000);
+  return layoutTrack(blocks, sampleRate, {
+    mix,
+    leadInSamples: music ? msToSamples(mix.musicLeadInMs) : 0,
+    tailSamples: music ? msToSamples(mix.musicTailMs) : 0,
+  });
+}
+
+/**
+ * Renders the final single track: blocks with pauses/crossfades, plus the music bed when one is loaded.
+ */
+export function renderSingleTrack(blocks: AudioBlock[], sampleRate: number, mix: MixSettings, music?: MusicBed): { pcmData: Uint8Array; layout: TrackLayout } {
+  const layout = singleTrackLayout(blocks, sampleRate, mix, music);
+  const voice = mixTrack(blocks, layout);
+  const final = music ? mixMusicBed(voice, sampleRate, music, mix) : voice;
+  return { pcmData: float32ToPcm(final), layout };
+}
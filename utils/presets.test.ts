@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SETTINGS, VoicePreset } from '../types';
+import { exportPresetsFile, parsePresetsFile, uniquePresetName } from './presets';
+
+function preset(name: string, settings = {}): VoicePreset {
+  return { id: name, name, settings: { ...DEFAULT_SETTINGS, ...settings } };
+}
+
+function counter() {
+  let next = 0;
+  return () => `novo-${++next}`;
+}
+
+describe('uniquePresetName', () => {
+  it('adds the first free numeric suffix, ignoring case', () => {
+    expect(uniquePresetName('Narrador', [])).toBe('Narrador');
+    expect(uniquePresetName('Narrador', [preset('narrador')])).toBe('Narrador (2)');
+    expect(uniquePresetName('Narrador', [preset('Narrador'), preset('Narrador (2)'), preset('Narrador (4)')])).toBe('Narrador (3)');
+  });
+});
+
+describe('preset files', () => {
+  it('round-trips names and settings with fresh ids', async () => {
+    const presets = [preset('Calmo', { voice: 'Puck', speed: 0.9, style: 'calmo' }), preset('Rápido', { speed: 1.4 })];
+    const parsed = parsePresetsFile(await exportPresetsFile(presets).text(), DEFAULT_SETTINGS, [], counter());
+    expect(parsed).toEqual(presets.map((p, i) => ({ ...p, id: `novo-${i + 1}` })));
+  });
+
+  it('falls back to the defaults for missing or mistyped settings', () => {
+    const content = JSON.stringify({
+      format: 'edson-tts-presets',
+      version: 1,
+      presets: [{ name: 'Misto', settings: { voice: 'Puck', speed: '2', temperature: null, style: 3, extra: true } }, { name: 'Vazio' }],
+    });
+    const [misto, vazio] = parsePresetsFile(content, DEFAULT_SETTINGS, [], counter());
+    expect(misto.settings).toEqual({ ...DEFAULT_SETTINGS, voice: 'Puck' });
+    expect(vazio.settings).toEqual(DEFAULT_SETTINGS);
+  });
+
+  it('renames presets that collide with existing or earlier imported ones', () => {
+    const content = JSON.stringify({ format: 'edson-tts-presets', version: 1, presets: [{ name: ' Calmo ' }, { name: 'calmo' }, { name: 'Outro' }] });
+    const parsed = parsePresetsFile(content, DEFAULT_SETTINGS, [preset('Calmo')], counter());
+    expect(parsed.map(p => p.name)).toEqual(['Calmo (2)', 'calmo (3)', 'Outro']);
+  });
+
+  it('skips unnamed entries and rejects foreign files', () => {
+    const content = JSON.stringify({ format: 'edson-tts-presets', version: 1, presets: [null, { name: '  ' }, { name: 7 }, { name: 'Ok' }] });
+    expect(parsePresetsFile(content, DEFAULT_SETTINGS, [], counter()).map(p => p.name)).toEqual(['Ok']);
+    expect(() => parsePresetsFile('{', DEFAULT_SETTINGS, [], counter())).toThrow('JSON malformado');
+    expect(() => parsePresetsFile('{"format":"edson-tts-lexicon","entries":[]}', DEFAULT_SETTINGS, [], counter())).toThrow('Arquivo de presets inválido.');
+  });
+});
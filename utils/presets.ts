@@ -0,0 +1,80 @@
+import { GlobalSettings, VoicePreset } from '../types';
+
+const STORAGE_KEY = 'tts_voice_presets';
+const FILE_FORMAT = 'edson-tts-presets';
+
+interface PresetFile {
+  format: typeof FILE_FORMAT;
+  version: 1;
+  presets: { name: string; settings: GlobalSettings }[];
+}
+
+export function loadPresets(): VoicePreset[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export function savePresets(presets: VoicePreset[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+}
+
+/**
+ * Picks the first free "Name", "Name (2)", "Name (3)"... among the existing presets.
+ */
+export function uniquePresetName(name: string, existing: VoicePreset[]): string {
+  const taken = new Set(existing.map(p => p.name.toLowerCase()));
+  if (!taken.has(name.toLowerCase())) return name;
+  let n = 2;
+  while (taken.has(`${name} (${n})`.toLowerCase())) n++;
+  return `${name} (${n})`;
+}
+
+export function exportPresetsFile(presets: VoicePreset[]): Blob {
+  const file: PresetFile = {
+    format: FILE_FORMAT,
+    version: 1,
+    presets: presets.map(({ name, settings }) => ({ name, settings })),
+  };
+  return new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+}
+
+function assignSetting<K extends keyof GlobalSettings>(target: GlobalSettings, key: K, value: GlobalSettings[K]) {
+  target[key] = value;
+}
+
+/** Whether an imported value has the same type as the default for `key`. */
+function matchesDefault<K extends keyof GlobalSettings>(value: unknown, defaults: GlobalSettings, key: K): value is GlobalSettings[K] {
+  return typeof value === typeof defaults[key];
+}
+
+/**
+ * Parses a shared presets file. Missing settings fall back to `defaults`; ids are generated locally
+ * and names that collide with `existing` get a numeric suffix.
+ */
+export function parsePresetsFile(content: string, defaults: GlobalSettings, existing: VoicePreset[], newId: () => string): VoicePreset[] {
+  let file: Partial<PresetFile>;
+  try {
+    file = JSON.parse(content);
+  } catch {
+    throw new Error('Arquivo de presets inválido: JSON malformado.');
+  }
+  if (file.format !== FILE_FORMAT || !Array.isArray(file.presets)) {
+    throw new Error('Arquivo de presets inválido.');
+  }
+
+  const imported: VoicePreset[] = [];
+  file.presets.forEach(entry => {
+    if (!entry || typeof entry.name !== 'string' || !entry.name.trim()) return;
+    const settings = { ...defaults };
+    (Object.keys(defaults) as (keyof GlobalSettings)[]).forEach(key => {
+      const value: unknown = entry.settings?.[key];
+      if (matchesDefault(value, defaults, key)) assignSetting(settings, key, value);
+    });
+    imported.push({ id: newId(), name: uniquePresetName(entry.name.trim(), [...existing, ...imported]), settings });
+  });
+  return imported;
+}
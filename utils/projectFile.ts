@@ -0,0 +1,106 @@
+
+import { v4 as uuidv4 } from 'uuid';
+import { AudioTake, Project } from '../types';
+import { ParsedWav, createWavBlob, parseWav } from './audioUtils';
+
+export const PROJECT_FILE_VERSION = 1;
+export const PROJECT_FILE_EXTENSION = '.ttsproj';
+
+interface ProjectManifest extends Omit<Project, 'blocks' | 'music'> {
+  format: 'edson-tts-project';
+  version: number;
+  blocks: (Omit<Project['blocks'][number], 'audioData' | 'takes'> & { audioFile?: string; takes?: (Omit<AudioTake, 'audioData' | 'audioUrl'> & { audioFile: string })[] })[];
+  music?: { name: string; audioFile: string };
+}
+
+/**
+ * Packs a project into a ZIP with `project.json` and one WAV per generated block and per take.
+ */
+export async function exportProjectFile(project: Project): Promise<Blob> {
+  // @ts-ignore - JSZip is loaded via CDN
+  const zip = new window.JSZip();
+
+  const { music, ...rest } = project;
+  if (music) zip.file('music.wav', createWavBlob(music.pcmData, music.sampleRate));
+
+  const manifest: ProjectManifest = {
+    ...rest,
+    music: music ? { name: music.name, audioFile: 'music.wav' } : undefined,
+    format: 'edson-tts-project',
+    version: PROJECT_FILE_VERSION,
+    blocks: project.blocks.map(({ audioData, takes, ...block }, index) => {
+      const prefix = `audio/${String(index + 1).padStart(3, '0')}_${block.id}`;
+      // O take escolhido reaproveita o arquivo do trecho.
+      const storedTakes = takes?.map(({ audioData: takeAudio, audioUrl, ...take }) => {
+        const audioFile = take.id === block.takeId && audioData ? `${prefix}.wav` : `${prefix}_take_${take.id}.wav`;
+        if (audioFile !== `${prefix}.wav`) zip.file(audioFile, createWavBlob(takeAudio, project.sampleRate));
+        return { ...take, audioFile };
+      });
+      if (!audioData) return { ...block, takes: storedTakes };
+      const audioFile = `${prefix}.wav`;
+      zip.file(audioFile, createWavBlob(audioData, project.sampleRate));
+      return { ...block, audioFile, takes: storedTakes };
+    }),
+  };
+  zip.file('project.json', JSON.stringify(manifest, null, 2));
+
+  return await zip.generateAsync({ type: 'blob' });
+}
+
+/**
+ * Reads a project bundle (or a bare `project.json`). The imported project gets a new id so it never overwrites a local one.
+ */
+export async function importProjectFile(file: File): Promise<Project> {
+  let manifest: ProjectManifest;
+  let readAudio: (path: string) => Promise<ParsedWav | undefined> = async () => undefined;
+
+  if (file.name.toLowerCase().endsWith('.json')) {
+    manifest = JSON.parse(await file.text());
+  } else {
+    // @ts-ignore - JSZip is loaded via CDN
+    const zip = await window.JSZip.loadAsync(file);
+    const manifestFile = zip.file('project.json');
+    if (!manifestFile) throw new Error('Arquivo de projeto inválido: project.json não encontrado.');
+    manifest = JSON.parse(await manifestFile.async('string'));
+    readAudio = async (path) => {
+      const entry = zip.file(path);
+      return entry ? parseWav(await entry.async('uint8array')) : undefined;
+    };
+  }
+
+  if (manifest.format !== 'edson-tts-project' || !Array.isArray(manifest.blocks)) {
+    throw new Error('Arquivo de projeto inválido.');
+  }
+
+  const blocks = await Promise.all(manifest.blocks.map(async ({ audioFile, takes, ...block }) => {
+    const audioData = audioFile ? (await readAudio(audioFile))?.pcmData : undefined;
+    const restoredTakes: AudioTake[] = [];
+    for (const { audioFile: takeFile, ...take } of takes ?? []) {
+      const takeAudio = takeFile === audioFile ? audioData : (await readAudio(takeFile))?.pcmData;
+      if (takeAudio) restoredTakes.push({ ...take, audioData: takeAudio });
+    }
+    return { ...block, audioData, takes: takes ? restoredTakes : undefined };
+  }));
+
+  let music: Project['music'];
+  if (manifest.music) {
+    const musicWav = await readAudio(manifest.music.audioFile);
+    if (musicWav) music = { name: manifest.music.name, pcmData: musicWav.pcmData, sampleRate: musicWav.sampleRate };
+  }
+
+  const now = Date.now();
+  return {
+    id: uuidv4(),
+    name: manifest.name,
+    createdAt: manifest.createdAt ?? now,
+    updatedAt: now,
+    sampleRate: manifest.sampleRate ?? 24000,
+    settings: manifest.settings,
+    speakers: manifest.speakers ?? [],
+    blocks,
+    mix: manifest.mix,
+    music,
+    lexicon: manifest.lexicon ?? [],
+    budget: manifest.budget,
+  };
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { packPcm, quantize, resample } from './sampleFormat';
+
+function sine(frequency: number, sampleRate: number, length: number, amplitude: number = 0.5): Float32Array {
+  return Float32Array.from({ length }, (_, i) => amplitude * Math.sin((2 * Math.PI * frequency * i) / sampleRate));
+}
+
+function rms(samples: Float32Array): number {
+  return Math.sqrt(samples.reduce((sum, s) => sum + s * s, 0) / samples.length);
+}
+
+/** Skips the filter's edge transients. */
+const middle = (samples: Float32Array) => samples.subarray(Math.floor(samples.length / 4), Math.floor((samples.length * 3) / 4));
+
+describe('resample', () => {
+  it('returns the input when the rate does not change', () => {
+    const samples = sine(440, 24000, 100);
+    expect(resample(samples, 24000, 24000)).toBe(samples);
+  });
+
+  it('scales the length by the rate ratio', () => {
+    expect(resample(new Float32Array(24000), 24000, 48000)).toHaveLength(48000);
+    expect(resample(new Float32Array(24000), 24000, 44100)).toHaveLength(44100);
+    expect(resample(new Float32Array(1000), 48000, 16000)).toHaveLength(333);
+  });
+
+  it('keeps a constant signal at unity gain', () => {
+    const result = middle(resample(new Float32Array(2400).fill(0.5), 24000, 44100));
+    expect(Math.max(...result.map(s => Math.abs(s - 0.5)))).toBeLessThan(1e-3);
+  });
+
+  it('reproduces an in-band tone at the new rate', () => {
+    const result = resample(sine(1000, 24000, 4800), 24000, 44100);
+    const expected = sine(1000, 44100, result.length);
+    const error = middle(result).map((s, i) => s - middle(expected)[i]);
+    expect(rms(error)).toBeLessThan(1e-3);
+  });
+
+  it('filters out content above the new Nyquist frequency when downsampling', () => {
+    const result = resample(sine(20000, 48000, 9600), 48000, 24000);
+    expect(rms(middle(result))).toBeLessThan(1e-3);
+  });
+});
+
+describe('quantize', () => {
+  it('scales to the bit depth with at most a little over one step of dither error', () => {
+    const samples = Float32Array.from({ length: 1000 }, (_, i) => Math.sin(i / 10) * 0.9);
+    const pcm16 = quantize(samples, 16);
+    const pcm24 = quantize(samples, 24);
+    expect(pcm16).toBeInstanceOf(Int16Array);
+    expect(pcm24).toBeInstanceOf(Int32Array);
+    samples.forEach((s, i) => {
+      expect(Math.abs(pcm16[i] - s * 32768)).toBeLessThanOrEqual(1.5);
+      expect(Math.abs(pcm24[i] - s * 8388608)).toBeLessThanOrEqual(1.5);
+    });
+  });
+
+  it('is deterministic and clips to the integer range', () => {
+    const samples = Float32Array.from([1, -1, 2, -2, 0, 0, 0]);
+    const first = quantize(samples, 16);
+    expect(Array.from(first.subarray(0, 4))).toEqual([32767, -32768, 32767, -32768]);
+    expect(Array.from(first.subarray(4)).every(v => Math.abs(v) <= 1)).toBe(true);
+    expect(quantize(samples, 16)).toEqual(first);
+  });
+});
+
+describe('packPcm', () => {
+  it('reuses the bytes of 16-bit mono', () => {
+    const samples = Int16Array.from([1, -2]);
+    const bytes = packPcm([samples], 16);
+    expect(bytes.buffer).toBe(samples.buffer);
+    expect(Array.from(bytes)).toEqual([1, 0, 0xfe, 0xff]);
+  });
+
+  it('interleaves 24-bit channels little-endian', () => {
+    const left = Int32Array.from([0x123456, -1]);
+    const right = Int32Array.from([-0x800000, 1]);
+    expect(Array.from(packPcm([left, right], 24))).toEqual([
+      0x56, 0x34, 0x12, 0x00, 0x00, 0x80,
+      0xff, 0xff, 0xff, 0x01, 0x00, 0x00,
+    ]);
+  });
+});
@@ -0,0 +1,119 @@
+/** Zero crossings of the sinc kernel on each side, at the lower of the two rates. */
+const ZERO_CROSSINGS = 16;
+const KAISER_BETA = 9;
+/** Passband edge as a fraction of the lower Nyquist frequency; the rest is the transition band. */
+const ROLLOFF = 0.94;
+/** Rate pairs with more polyphase branches than this (no small common divisor) round the phase to the nearest one. */
+const MAX_PHASES = 1024;
+
+function gcd(a: number, b: number): number {
+  return b === 0 ? a : gcd(b, a % b);
+}
+
+function besselI0(x: number): number {
+  let sum = 1;
+  let term = 1;
+  for (let k = 1; k < 50 && term > 1e-12 * sum; k++) {
+    term *= (x / (2 * k)) ** 2;
+    sum += term;
+  }
+  return sum;
+}
+
+function sinc(x: number): number {
+  return x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+}
+
+/**
+ * Band-limited resampling with a Kaiser-windowed sinc, evaluated as a polyphase filter. The cutoff follows the
+ * lower rate, so downsampling doesn't alias; each branch is normalized to unity gain at DC.
+ */
+export function resample(samples: Float32Array, fromRate: number, toRate: number): Float32Array {
+  if (fromRate === toRate || samples.length === 0) return samples;
+  const divisor = gcd(fromRate, toRate);
+  const up = toRate / divisor;
+  const down = fromRate / divisor;
+  const phases = Math.min(up, MAX_PHASES);
+  const cutoff = Math.min(1, toRate / fromRate) * ROLLOFF;
+  const halfWidth = Math.ceil(ZERO_CROSSINGS / cutoff);
+  const taps = 2 * halfWidth;
+
+  const kernel = new Float32Array(phases * taps);
+  const windowNorm = besselI0(KAISER_BETA);
+  for (let phase = 0; phase < phases; phase++) {
+    const row = phase * taps;
+    let sum = 0;
+    for (let k = 0; k < taps; k++) {
+      const x = k - halfWidth + 1 - phase / phases;
+      const t = x / halfWidth;
+      const window = Math.abs(t) >= 1 ? 0 : besselI0(KAISER_BETA * Math.sqrt(1 - t * t)) / windowNorm;
+      kernel[row + k] = cutoff * sinc(cutoff * x) * window;
+      sum += kernel[row + k];
+    }
+    for (let k = 0; k < taps; k++) kernel[row + k] /= sum;
+  }
+
+  const result = new Float32Array(Math.round((samples.length * toRate) / fromRate));
+  for (let n = 0; n < result.length; n++) {
+    const position = n * down;
+    let base = Math.floor(position / up);
+    let phase = phases === up ? position - base * up : Math.round(((position - base * up) * phases) / up);
+    if (phase === phases) {
+      phase = 0;
+      base++;
+    }
+    const first = base - halfWidth + 1;
+    const row = phase * taps;
+    const from = Math.max(0, -first);
+    const to = Math.min(taps, samples.length - first);
+    let acc = 0;
+    for (let k = from; k < to; k++) acc += samples[first + k] * kernel[row + k];
+    result[n] = acc;
+  }
+  return result;
+}
+
+/** xorshift32 in [0, 1): a fixed seed keeps repeated exports byte-identical. */
+function createNoise(seed: number = 0x9e3779b9): () => number {
+  let state = seed >>> 0 || 1;
+  return () => {
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    return (state >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Float samples (±1) to signed integers of `bitDepth` bits, with triangular (TPDF) dither of ±1 LSB so the
+ * rounding error becomes a constant noise floor instead of distortion that follows the signal.
+ */
+export function quantize(samples: Float32Array, bitDepth: number): Int16Array | Int32Array {
+  const scale = 2 ** (bitDepth - 1);
+  const result = bitDepth <= 16 ? new Int16Array(samples.length) : new Int32Array(samples.length);
+  const noise = createNoise();
+  for (let i = 0; i < samples.length; i++) {
+    const value = Math.round(samples[i] * scale + noise() - noise());
+    result[i] = Math.max(-scale, Math.min(scale - 1, value));
+  }
+  return result;
+}
+
+/**
+ * Interleaves integer channels into little-endian PCM bytes, 16 or 24 bits per sample.
+ */
+export function packPcm(channels: (Int16Array | Int32Array)[], bitDepth: number): Uint8Array {
+  const [first] = channels;
+  if (channels.length === 1 && first instanceof Int16Array) return new Uint8Array(first.buffer, first.byteOffset, first.byteLength);
+  const bytesPerSample = bitDepth / 8;
+  const frameBytes = bytesPerSample * channels.length;
+  const result = new Uint8Array(first.length * frameBytes);
+  channels.forEach((samples, c) => {
+    for (let i = 0; i < samples.length; i++) {
+      const offset = i * frameBytes + c * bytesPerSample;
+      const value = samples[i];
+      for (let b = 0; b < bytesPerSample; b++) result[offset + b] = (value >> (8 * b)) & 0xff;
+    }
+  });
+  return result;
+}
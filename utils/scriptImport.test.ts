@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_IMPORT_OPTIONS, detectScriptFormat, packByChars, parseScript, splitSentences } from './scriptImport';
+
+const options = (overrides = {}) => ({ ...DEFAULT_IMPORT_OPTIONS, ...overrides });
+
+describe('detectScriptFormat', () => {
+  it('trusts the extension first', () => {
+    expect(detectScriptFormat('WEBVTT', 'roteiro.txt')).toBe('text');
+    expect(detectScriptFormat('', 'legenda.SRT')).toBe('srt');
+    expect(detectScriptFormat('', 'notas.md')).toBe('markdown');
+  });
+
+  it('sniffs subtitles without an extension', () => {
+    expect(detectScriptFormat('WEBVTT\n\n00:00.000 --> 00:01.000\nOi')).toBe('vtt');
+    expect(detectScriptFormat('1\n00:00:00,000 --> 00:00:01,000\nOi')).toBe('srt');
+    expect(detectScriptFormat('Só texto.')).toBe('text');
+  });
+});
+
+describe('splitSentences', () => {
+  it('keeps the closing punctuation and quotes with each sentence', () => {
+    expect(splitSentences('Olá. Tudo bem? "Sim!" E você…')).toEqual(['Olá.', 'Tudo bem?', '"Sim!"', 'E você…']);
+  });
+});
+
+describe('packByChars', () => {
+  it('packs whole sentences up to the limit', () => {
+    expect(packByChars('Um dois. Três quatro. Cinco.', 20)).toEqual(['Um dois.', 'Três quatro. Cinco.']);
+  });
+
+  it('breaks an overlong sentence at word boundaries', () => {
+    const chunks = packByChars('palavra '.repeat(10).trim(), 20);
+    expect(chunks.every(c => c.length <= 20)).toBe(true);
+    expect(chunks.join(' ')).toBe('palavra '.repeat(10).trim());
+  });
+});
+
+describe('parseScript', () => {
+  it('splits paragraphs and detects speaker prefixes', () => {
+    const segments = parseScript('Ana: Bom dia.\nContinua aqui.\n\nBruno: Olá!\n\nSem locutor.', options());
+    expect(segments).toEqual([
+      { speakerName: 'Ana', text: 'Bom dia. Continua aqui.' },
+      { speakerName: 'Bruno', text: 'Olá!' },
+      { text: 'Sem locutor.', speakerName: undefined },
+    ]);
+  });
+
+  it('leaves prefixes alone when speaker detection is off', () => {
+    expect(parseScript('Ana: Bom dia.', options({ detectSpeakers: false }))).toEqual([{ text: 'Ana: Bom dia.', speakerName: undefined }]);
+  });
+
+  it('splits by sentence', () => {
+    expect(parseScript('Um. Dois.', options({ mode: 'sentence' })).map(s => s.text)).toEqual(['Um.', 'Dois.']);
+  });
+
+  it('groups consecutive turns of the same speaker up to the limit in chars mode', () => {
+    const segments = parseScript('Ana: Um.\n\nAna: Dois.\n\nBruno: Três.', options({ mode: 'chars', maxChars: 100 }));
+    expect(segments).toEqual([{ speakerName: 'Ana', text: 'Um. Dois.' }, { speakerName: 'Bruno', text: 'Três.' }]);
+  });
+
+  it('strips Markdown syntax', () => {
+    const segments = parseScript('# Título\n\n- Item com **negrito** e [link](http://x).\n\n```\ncódigo\n```', options({ format: 'markdown' }));
+    expect(segments.map(s => s.text)).toEqual(['Título', 'Item com negrito e link.']);
+  });
+
+  it('reads subtitle cues and turns VTT voice tags into speakers', () => {
+    const vtt = 'WEBVTT\n\n1\n00:00.000 --> 00:01.000\n<v Ana>Oi, <i>tudo</i> bem?\n\n2\n00:01.000 --> 00:02.000\nTudo.';
+    expect(parseScript(vtt, options({ format: 'vtt' }))).toEqual([
+      { speakerName: 'Ana', text: 'Oi, tudo bem?' },
+      { text: 'Tudo.', speakerName: undefined },
+    ]);
+  });
+});
@@ -0,0 +1,171 @@
+
+export type ScriptFormat = 'text' | 'markdown' | 'srt' | 'vtt';
+export type SplitMode = 'paragraph' | 'sentence' | 'chars';
+
+export interface ScriptImportOptions {
+  format: ScriptFormat;
+  mode: SplitMode;
+  maxChars: number;
+  detectSpeakers: boolean;
+}
+
+export interface ScriptSegment {
+  text: string;
+  speakerName?: string;
+}
+
+export const DEFAULT_IMPORT_OPTIONS: ScriptImportOptions = {
+  format: 'text',
+  mode: 'paragraph',
+  maxChars: 1500,
+  detectSpeakers: true,
+};
+
+const SPEAKER_PREFIX = /^([A-ZÀ-Ý][\p{L}\p{N}.'-]*(?: [\p{L}\p{N}.'-]+){0,2})\s*:\s+(.+)$/u;
+const SUBTITLE_TIMING = /^(\d{1,2}:)?\d{1,2}:\d{2}[.,]\d{3}\s*-->/;
+
+/**
+ * Guesses the format from the file name, falling back to sniffing the content.
+ */
+export function detectScriptFormat(content: string, fileName?: string): ScriptFormat {
+  const ext = fileName?.split('.').pop()?.toLowerCase();
+  if (ext === 'srt') return 'srt';
+  if (ext === 'vtt') return 'vtt';
+  if (ext === 'md' || ext === 'markdown') return 'markdown';
+  if (ext === 'txt') return 'text';
+
+  const head = content.trimStart();
+  if (head.startsWith('WEBVTT')) return 'vtt';
+  if (/^\d+\r?\n(\d{1,2}:)?\d{1,2}:\d{2},\d{3}\s*-->/.test(head)) return 'srt';
+  return 'text';
+}
+
+function stripMarkdown(content: string): string {
+  return content
+    .replace(/```[\s\S]*?```/g, '')
+    .replace(/^[ \t]{0,3}#{1,6}[ \t]+/gm, '')
+    .replace(/^[ \t]{0,3}>[ \t]?/gm, '')
+    .replace(/^[ \t]*([-*+]|\d+[.)])[ \t]+/gm, '')
+    .replace(/^[ \t]*([-*_][ \t]*){3,}$/gm, '')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/(\*|_)(.+?)\1/g, '$2')
+    .replace(/`([^`]*)`/g, '$1');
+}
+
+/**
+ * Turns SRT/VTT cues into paragraphs. VTT `<v Name>` voice tags become `Name:` prefixes.
+ */
+function subtitlesToParagraphs(content: string): string {
+  const cues = content.replace(/\r/g, '').split(/\n{2,}/);
+  const paragraphs: string[] = [];
+
+  cues.forEach(cue => {
+    const lines = cue.split('\n');
+    const timingIndex = lines.findIndex(line => SUBTITLE_TIMING.test(line.trim()));
+    if (timingIndex === -1) return;
+    const text = lines.slice(timingIndex + 1)
+      .join(' ')
+      .replace(/<v(?:\.[^ >]+)?\s+([^>]+)>/g, '$1: ')
+      .replace(/<[^>]+>/g, '')
+      .replace(/\{[^}]*\}/g, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+    if (text) paragraphs.push(text);
+  });
+
+  return paragraphs.join('\n\n');
+}
+
+export function splitSentences(text: string): string[] {
+  const matches = text.match(/[^.!?…]+(?:[.!?…]+["'”»)]*|$)/g) || [];
+  return matches.map(s => s.trim()).filter(Boolean);
+}
+
+/**
+ * Packs sentences into chunks of at most `maxChars`, breaking overlong sentences at word boundaries.
+ */
+export function packByChars(text: string, maxChars: number): string[] {
+  const chunks: string[] = [];
+  let current = '';
+
+  const push = () => {
+    if (current.trim()) chunks.push(current.trim());
+    current = '';
+  };
+
+  splitSentences(text).forEach(sentence => {
+    if (sentence.length > maxChars) {
+      push();
+      sentence.split(/\s+/).forEach(word => {
+        if (current && current.length + 1 + word.length > maxChars) push();
+        current = current ? `${current} ${word}` : word;
+      });
+      return;
+    }
+    if (current && current.length + 1 + sentence.length > maxChars) push();
+    current = current ? `${current} ${sentence}` : sentence;
+  });
+  push();
+
+  return chunks;
+}
+
+/**
+ * Splits a paragraph into speaker turns. Unprefixed lines continue the previous turn.
+ */
+function paragraphTurns(paragraph: string, detectSpeakers: boolean): ScriptSegment[] {
+  const turns: ScriptSegment[] = [];
+  paragraph.split('\n').forEach(rawLine => {
+    const line = rawLine.trim();
+    if (!line) return;
+    const match = detectSpeakers ? line.match(SPEAKER_PREFIX) : null;
+    if (match) {
+      turns.push({ speakerName: match[1].trim(), text: match[2].trim() });
+    } else if (turns.length > 0) {
+      turns[turns.length - 1].text += ` ${line}`;
+    } else {
+      turns.push({ text: line });
+    }
+  });
+  return turns;
+}
+
+/**
+ * Converts a raw script into block-sized segments according to the chosen split mode.
+ */
+export function parseScript(content: string, options: ScriptImportOptions): ScriptSegment[] {
+  let normalized = content.replace(/\r\n?/g, '\n');
+  if (options.format === 'markdown') normalized = stripMarkdown(normalized);
+  if (options.format === 'srt' || options.format === 'vtt') normalized = subtitlesToParagraphs(normalized);
+
+  const turns = normalized
+    .split(/\n\s*\n/)
+    .flatMap(paragraph => paragraphTurns(paragraph, options.detectSpeakers));
+
+  const maxChars = Math.max(50, options.maxChars);
+  const segments: ScriptSegment[] = [];
+
+  turns.forEach(turn => {
+    const text = turn.text.replace(/\s+/g, ' ').trim();
+    if (!text) return;
+    let pieces: string[];
+    if (options.mode === 'sentence') pieces = splitSentences(text);
+    else if (options.mode === 'chars' || text.length > maxChars) pieces = packByChars(text, maxChars);
+    else pieces = [text];
+    pieces.forEach(piece => segments.push({ text: piece, speakerName: turn.speakerName }));
+  });
+
+  // Em modo "chars", turnos consecutivos do mesmo locutor são agrupados até o limite.
+  if (options.mode !== 'chars') return segments;
+  return segments.reduce<ScriptSegment[]>((acc, segment) => {
+    const last = acc[acc.length - 1];
+    if (last && last.speakerName === segment.speakerName && last.text.length + 1 + segment.text.length <= maxChars) {
+      last.text = `${last.text} ${segment.text}`;
+    } else {
+      acc.push({ ...segment });
+    }
+    return acc;
+  }, []);
+}
@@ -0,0 +1,41 @@
+
+import { AudioBlock, GlobalSettings, SettingsOverrides, Speaker } from '../types';
+
+export const SPEAKER_COLORS = ['#ec4899', '#a855f7', '#38bdf8', '#34d399', '#facc15', '#fb923c', '#f87171', '#818cf8'];
+
+/**
+ * Drops unset and empty-string fields so they don't shadow lower levels.
+ */
+export function cleanOverrides(overrides: SettingsOverrides = {}): SettingsOverrides {
+  const isSet = (value: unknown) => value !== undefined && value !== '' && !(typeof value === 'number' && isNaN(value));
+  return Object.fromEntries(Object.entries(overrides).filter(([, value]) => isSet(value))) as SettingsOverrides;
+}
+
+export function hasOverrides(overrides?: SettingsOverrides): boolean {
+  return Object.keys(cleanOverrides(overrides)).length > 0;
+}
+
+export function findSpeaker(speakers: Speaker[], id?: string): Speaker | undefined {
+  return id ? speakers.find(s => s.id === id) : undefined;
+}
+
+/**
+ * Effective settings for a block: globals, then the block's speaker, then the block's own overrides.
+ */
+export function resolveBlockSettings(block: AudioBlock, speakers: Speaker[], globals: GlobalSettings): GlobalSettings {
+  const speaker = findSpeaker(speakers, block.speakerId);
+  return {
+    ...globals,
+    ...cleanOverrides(speaker?.settings),
+    ...cleanOverrides(block.overrides),
+  };
+}
+
+export function createSpeaker(name: string, id: string, existing: Speaker[]): Speaker {
+  return {
+    id,
+    name,
+    color: SPEAKER_COLORS[existing.length % SPEAKER_COLORS.length],
+    settings: {},
+  };
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { AudioBlock } from '../types';
+import { layoutTrack } from './audioUtils';
+import { buildSubtitleCues, formatSrt, formatVtt } from './subtitles';
+
+const SAMPLE_RATE = 1000;
+
+function block(id: string, text: string, seconds: number, extra: Partial<AudioBlock> = {}): AudioBlock {
+  return { id, text, audioData: new Uint8Array(seconds * SAMPLE_RATE * 2), isGenerating: false, isPlaying: false, ...extra };
+}
+
+describe('buildSubtitleCues', () => {
+  const speakers = [{ id: 's1', name: 'Ana', color: '#000', settings: {} }];
+
+  it('makes one cue per generated block, timed by the track layout', () => {
+    const blocks = [block('a', 'Primeiro trecho.', 2, { speakerId: 's1' }), block('x', 'Sem áudio.', 0, { audioData: undefined }), block('b', 'Segundo.', 1)];
+    const cues = buildSubtitleCues(blocks, layoutTrack(blocks, SAMPLE_RATE), 'block', speakers);
+    expect(cues).toEqual([
+      { start: 0, end: 2, text: 'Primeiro trecho.', speaker: 'Ana' },
+      { start: 2, end: 3, text: 'Segundo.', speaker: undefined },
+    ]);
+  });
+
+  it('splits a block by sentence in proportion to sentence length, without markup', () => {
+    const blocks = [block('a', 'Um dois. [pausa 1s] *Três* quatro fim.', 3)];
+    const cues = buildSubtitleCues(blocks, layoutTrack(blocks, SAMPLE_RATE), 'sentence');
+    expect(cues.map(c => c.text)).toEqual(['Um dois.', 'Três quatro fim.']);
+    expect(cues[0].start).toBe(0);
+    expect(cues[0].end).toBeCloseTo(1);
+    expect(cues[1].end).toBe(3);
+  });
+});
+
+describe('formatSrt', () => {
+  it('numbers cues, uses comma timestamps and wraps long text into two lines', () => {
+    const text = 'Uma frase bem comprida que não cabe numa única linha de legenda.';
+    const srt = formatSrt([{ start: 3661.5, end: 3663.25, text }]);
+    const [index, timing, ...lines] = srt.trimEnd().split('\n');
+    expect(index).toBe('1');
+    expect(timing).toBe('01:01:01,500 --> 01:01:03,250');
+    expect(lines).toHaveLength(2);
+    expect(lines.join(' ')).toBe(text);
+    expect(lines.every(line => line.length <= 42)).toBe(true);
+  });
+});
+
+describe('formatVtt', () => {
+  it('writes the header, dot timestamps and voice tags', () => {
+    expect(formatVtt([{ start: 0, end: 1.2, text: 'Olá.', speaker: 'Ana' }])).toBe('WEBVTT\n\n1\n00:00:00.000 --> 00:00:01.200\n<v Ana>Olá.\n');
+  });
+
+  it('escapes markup characters in text and speaker names', () => {
+    const vtt = formatVtt([{ start: 0, end: 1, text: 'A & B --> <c>', speaker: 'Ana <Narradora>' }]);
+    expect(vtt).toContain('<v Ana &lt;Narradora&gt;>A &amp; B --&gt; &lt;c&gt;');
+  });
+});
@@ -0,0 +1,91 @@
+
+import { AudioBlock, Speaker, SubtitleMode } from '../types';
+import { TrackLayout } from './audioUtils';
+import { splitSentences } from './scriptImport';
+import { findSpeaker } from './speakerUtils';
+import { stripMarkup } from './markup';
+
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  text: string;
+  speaker?: string;
+}
+
+const MAX_LINE_LENGTH = 42;
+
+/**
+ * Wraps cue text into at most two balanced lines, the usual limit for on-screen subtitles.
+ */
+function wrapCueText(text: string): string {
+  if (text.length <= MAX_LINE_LENGTH) return text;
+  const words = text.split(' ');
+  let best = text;
+  let bestDiff = Infinity;
+  for (let i = 1; i < words.length; i++) {
+    const first = words.slice(0, i).join(' ');
+    const second = words.slice(i).join(' ');
+    const diff = Math.abs(first.length - second.length);
+    if (diff < bestDiff) {
+      bestDiff = diff;
+      best = `${first}\n${second}`;
+    }
+  }
+  return best;
+}
+
+/**
+ * One cue per block, or per sentence with each block's duration split in proportion to sentence length.
+ */
+export function buildSubtitleCues(blocks: AudioBlock[], layout: TrackLayout, mode: Exclude<SubtitleMode, 'none'>, speakers: Speaker[] = []): SubtitleCue[] {
+  const cues: SubtitleCue[] = [];
+  layout.segments.forEach(segment => {
+    const block = blocks[segment.blockIndex];
+    const text = stripMarkup(block.text).replace(/\s+/g, ' ').trim();
+    if (!text) return;
+    const speaker = findSpeaker(speakers, block.speakerId)?.name;
+    const start = segment.startSample / layout.sampleRate;
+    const end = segment.endSample / layout.sampleRate;
+
+    const parts = mode === 'sentence' ? splitSentences(text) : [text];
+    const totalChars = parts.reduce((acc, p) => acc + p.length, 0) || 1;
+    let cursor = start;
+    parts.forEach((part, i) => {
+      const partEnd = i === parts.length - 1 ? end : cursor + ((end - start) * part.length) / totalChars;
+      cues.push({ start: cursor, end: partEnd, text: part, speaker });
+      cursor = partEnd;
+    });
+  });
+  return cues;
+}
+
+function formatTimestamp(seconds: number, separator: ',' | '.'): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const h = Math.floor(totalMs / 3600000);
+  const m = Math.floor((totalMs % 3600000) / 60000);
+  const s = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')}${separator}${String(ms).padStart(3, '0')}`;
+}
+
+export function formatSrt(cues: SubtitleCue[]): string {
+  return cues.map((cue, i) => [
+    String(i + 1),
+    `${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}`,
+    wrapCueText(cue.text),
+  ].join('\n')).join('\n\n') + '\n';
+}
+
+/** WebVTT cue text is markup: `&`, `<` and `>` must be escaped, which also breaks up any `-->`. */
+function escapeVtt(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+export function formatVtt(cues: SubtitleCue[]): string {
+  const body = cues.map((cue, i) => [
+    String(i + 1),
+    `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}`,
+    cue.speaker ? `<v ${escapeVtt(cue.speaker)}>${escapeVtt(wrapCueText(cue.text))}` : escapeVtt(wrapCueText(cue.text)),
+  ].join('\n')).join('\n\n');
+  return `WEBVTT\n\n${body}\n`;
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import { AudioBlock, AudioTake, DEFAULT_SETTINGS } from '../types';
+import { addTake, blockObjectUrls, createTake, findMatchingTake, pruneTakes, removeTake, restoreTakes, takeMatches } from './takes';
+
+const settings = { ...DEFAULT_SETTINGS };
+
+function take(id: string, extra: Partial<AudioTake> = {}): AudioTake {
+  return { id, audioData: new Uint8Array([id.charCodeAt(0), 0]), audioUrl: `blob:${id}`, text: 'Olá.', settings, providerId: 'gemini', createdAt: 0, ...extra };
+}
+
+function block(extra: Partial<AudioBlock> = {}): AudioBlock {
+  return { id: 'b', text: 'Olá.', isGenerating: false, isPlaying: false, ...extra };
+}
+
+describe('createTake', () => {
+  it('keeps a copy of the settings and an object URL for playback', () => {
+    const created = createTake('t', new Uint8Array(4), 24000, 'Olá.', settings, 'gemini');
+    expect(created.audioUrl).toMatch(/^blob:/);
+    expect(created.settings).toEqual(settings);
+    expect(created.settings).not.toBe(settings);
+    URL.revokeObjectURL(created.audioUrl!);
+  });
+});
+
+describe('takeMatches', () => {
+  it('requires the same text, settings and provider', () => {
+    const t = take('a');
+    expect(takeMatches(t, 'Olá.', { ...settings }, 'gemini')).toBe(true);
+    expect(takeMatches(t, 'Oi.', settings, 'gemini')).toBe(false);
+    expect(takeMatches(t, 'Olá.', { ...settings, speed: 1.5 }, 'gemini')).toBe(false);
+    expect(takeMatches(t, 'Olá.', settings, 'mock')).toBe(false);
+    expect(takeMatches(take('b', { providerId: undefined }), 'Olá.', settings, 'mock')).toBe(true);
+  });
+
+  it('finds the most recent matching take', () => {
+    const b = block({ takes: [take('a'), take('b'), take('c', { text: 'Outro.' })] });
+    expect(findMatchingTake(b, settings, 'gemini')?.id).toBe('b');
+  });
+});
+
+describe('addTake', () => {
+  it('chooses the new take by default', () => {
+    const { block: next, discarded } = addTake(block(), take('a'));
+    expect(next).toMatchObject({ takeId: 'a', audioUrl: 'blob:a', takes: [take('a')] });
+    expect(discarded).toEqual([]);
+  });
+
+  it('can keep the current choice', () => {
+    const { block: next } = addTake(addTake(block(), take('a')).block, take('b'), false);
+    expect(next.takeId).toBe('a');
+    expect(next.takes?.map(t => t.id)).toEqual(['a', 'b']);
+  });
+
+  it('drops the oldest unchosen takes beyond the limit, never the chosen one', () => {
+    let current = addTake(block(), take('a')).block;
+    current = addTake(current, take('b'), false, 2).block;
+    const { block: next, discarded } = addTake(current, take('c'), false, 2);
+    expect(next.takes?.map(t => t.id)).toEqual(['a', 'c']);
+    expect(discarded.map(t => t.id)).toEqual(['b']);
+  });
+});
+
+describe('removeTake and pruneTakes', () => {
+  const withTakes = block({ takes: [take('a'), take('b')], takeId: 'b', audioData: take('b').audioData, audioUrl: 'blob:b' });
+
+  it('leaves the block without audio when the chosen take is removed', () => {
+    const { block: next, discarded } = removeTake(withTakes, 'b');
+    expect(next).toMatchObject({ takeId: undefined, audioData: undefined, audioUrl: undefined });
+    expect(discarded.map(t => t.id)).toEqual(['b']);
+    expect(removeTake(withTakes, 'a').block.takeId).toBe('b');
+  });
+
+  it('keeps only the chosen take', () => {
+    const { block: next, discarded } = pruneTakes(withTakes);
+    expect(next.takes?.map(t => t.id)).toEqual(['b']);
+    expect(discarded.map(t => t.id)).toEqual(['a']);
+  });
+
+  it('lists every object URL once', () => {
+    expect(blockObjectUrls(withTakes)).toEqual(['blob:a', 'blob:b']);
+    expect(blockObjectUrls(block({ audioUrl: 'blob:x' }))).toEqual(['blob:x']);
+  });
+});
+
+describe('restoreTakes', () => {
+  it('turns audio saved before take history into the chosen take', () => {
+    const audioData = new Uint8Array(4);
+    const restored = restoreTakes(block({ audioData }), 24000, settings, () => 'novo');
+    expect(restored.takeId).toBe('novo');
+    expect(restored.takes).toHaveLength(1);
+    expect(restored.takes![0]).toMatchObject({ id: 'novo', audioData, text: 'Olá.', settings });
+    expect(restored.audioUrl).toBe(restored.takes![0].audioUrl);
+    restored.takes!.forEach(t => URL.revokeObjectURL(t.audioUrl!));
+  });
+
+  it('recreates URLs and keeps the saved choice', () => {
+    const restored = restoreTakes(block({ takes: [take('a'), take('b')], takeId: 'a' }), 24000, settings, () => 'novo');
+    expect(restored.takes?.map(t => t.id)).toEqual(['a', 'b']);
+    expect(restored.takeId).toBe('a');
+    expect(restored.audioUrl).not.toBe('blob:a');
+    expect(restored.audioUrl).toMatch(/^blob:/);
+    restored.takes!.forEach(t => URL.revokeObjectURL(t.audioUrl!));
+  });
+});
@@ -0,0 +1,101 @@
+import { AudioBlock, AudioTake, GlobalSettings } from '../types';
+import { createWavBlob } from './audioUtils';
+
+/** Oldest takes beyond this are dropped when a new one arrives (the chosen take is always kept). */
+export const MAX_TAKES = 10;
+
+export interface TakeChange {
+  block: AudioBlock;
+  /** Takes removed from the block, whose object URLs the caller should revoke. */
+  discarded: AudioTake[];
+}
+
+export function createTake(id: string, audioData: Uint8Array, sampleRate: number, text: string, settings: GlobalSettings, providerId: string): AudioTake {
+  return {
+    id,
+    audioData,
+    audioUrl: URL.createObjectURL(createWavBlob(audioData, sampleRate)),
+    text,
+    settings: { ...settings },
+    providerId,
+    createdAt: Date.now(),
+  };
+}
+
+function sameSettings(a: GlobalSettings, b: GlobalSettings): boolean {
+  return (Object.keys(a) as (keyof GlobalSettings)[]).every(key => a[key] === b[key]);
+}
+
+/**
+ * True when the take was generated from this exact text and settings, i.e. it is a valid audio for the block as it is now.
+ */
+export function takeMatches(take: AudioTake, text: string, settings: GlobalSettings, providerId: string): boolean {
+  return take.text === text && sameSettings(take.settings, settings) && (!take.providerId || take.providerId === providerId);
+}
+
+/** Most recent take valid for the current text and settings. */
+export function findMatchingTake(block: AudioBlock, settings: GlobalSettings, providerId: string): AudioTake | undefined {
+  return [...(block.takes ?? [])].reverse().find(t => takeMatches(t, block.text, settings, providerId));
+}
+
+export function chooseTake(block: AudioBlock, take: AudioTake): AudioBlock {
+  return { ...block, takeId: take.id, audioData: take.audioData, audioUrl: take.audioUrl, error: undefined, errorKind: undefined };
+}
+
+/**
+ * Adds a take, by default making it the chosen one, and drops the oldest unchosen takes beyond `limit`.
+ */
+export function addTake(block: AudioBlock, take: AudioTake, choose: boolean = true, limit: number = MAX_TAKES): TakeChange {
+  const takes = [...(block.takes ?? []), take];
+  const keep = choose ? take.id : block.takeId;
+  const discarded: AudioTake[] = [];
+  while (takes.length > limit) {
+    const index = takes.findIndex(t => t.id !== keep && t.id !== take.id);
+    discarded.push(...takes.splice(index, 1));
+  }
+  const next = { ...block, takes };
+  return { block: choose ? chooseTake(next, take) : next, discarded };
+}
+
+/**
+ * Removes a take. Removing the chosen take leaves the block without audio until another is chosen or generated.
+ */
+export function removeTake(block: AudioBlock, takeId: string): TakeChange {
+  const takes = block.takes ?? [];
+  const next = { ...block, takes: takes.filter(t => t.id !== takeId) };
+  const discarded = takes.filter(t => t.id === takeId);
+  return { block: block.takeId === takeId ? { ...next, takeId: undefined, audioData: undefined, audioUrl: undefined } : next, discarded };
+}
+
+/** Keeps only the chosen take. */
+export function pruneTakes(block: AudioBlock): TakeChange {
+  const takes = block.takes ?? [];
+  return { block: { ...block, takes: takes.filter(t => t.id === block.takeId) }, discarded: takes.filter(t => t.id !== block.takeId) };
+}
+
+export function revokeTakes(takes: AudioTake[]) {
+  takes.forEach(t => t.audioUrl && URL.revokeObjectURL(t.audioUrl));
+}
+
+/** Object URLs held by a block, for cleanup when it is removed or the project is closed. */
+export function blockObjectUrls(block: AudioBlock): string[] {
+  const urls = (block.takes ?? []).map(t => t.audioUrl).filter((url): url is string => !!url);
+  return block.audioUrl && !urls.includes(block.audioUrl) ? [...urls, block.audioUrl] : urls;
+}
+
+/**
+ * Recreates object URLs for a block loaded from storage. Audio saved before take history existed becomes
+ * the first take, with `settings` as the best guess of what produced it.
+ */
+export function restoreTakes(block: AudioBlock, sampleRate: number, settings: GlobalSettings, newId: () => string): AudioBlock {
+  const withUrl = (take: AudioTake): AudioTake => ({ ...take, audioUrl: URL.createObjectURL(createWavBlob(take.audioData, sampleRate)) });
+  let takes = (block.takes ?? []).map(withUrl);
+  let takeId = block.takeId;
+  if (block.audioData && !takes.some(t => t.id === takeId)) {
+    const legacy = withUrl({ id: newId(), audioData: block.audioData, text: block.text, settings: { ...settings }, createdAt: Date.now() });
+    takes = [...takes, legacy];
+    takeId = legacy.id;
+  }
+  const chosen = takes.find(t => t.id === takeId);
+  return { ...block, takes, takeId: chosen?.id, audioData: chosen?.audioData, audioUrl: chosen?.audioUrl };
+}
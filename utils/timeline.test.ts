@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { AudioBlock } from '../types';
+import { layoutTrack } from './audioUtils';
+import { buildTimelineClips, buildTimelineFiles, formatEdl, formatFcpxml, formatMarkerCsv, formatTimecode } from './timeline';
+
+const SAMPLE_RATE = 1000;
+const options = { title: 'Aula <1>', frameRate: 25, sampleRate: 48000, channels: 1 };
+const speakers = [{ id: 's1', name: 'Ana', color: '#000', settings: {} }];
+const fileName = (index: number) => `audio_${index + 1}.wav`;
+
+function block(id: string, text: string, seconds: number, extra: Partial<AudioBlock> = {}): AudioBlock {
+  return { id, text, audioData: new Uint8Array(seconds * SAMPLE_RATE * 2), isGenerating: false, isPlaying: false, ...extra };
+}
+
+describe('formatTimecode', () => {
+  it('writes non-drop-frame HH:MM:SS:FF', () => {
+    expect(formatTimecode(0, 25)).toBe('00:00:00:00');
+    expect(formatTimecode(3661 * 25 + 24, 25)).toBe('01:01:01:24');
+  });
+});
+
+describe('buildTimelineClips', () => {
+  it('places clips as in the single track and alternates lanes where they overlap', () => {
+    const blocks = [
+      block('a', 'Um [pausa 1s] *dois*.', 2, { speakerId: 's1', pauseAfterMs: 0 }),
+      block('b', 'Três.', 2, { pauseAfterMs: 0 }),
+      block('c', 'Quatro.', 1, { pauseAfterMs: 500 }),
+      block('d', 'Cinco.', 1),
+    ];
+    const layout = layoutTrack(blocks, SAMPLE_RATE, { mix: { defaultPauseMs: 0, crossfadeMs: 200 } });
+    const clips = buildTimelineClips(blocks, layout, fileName, speakers);
+    expect(clips.map(c => [c.fileName, c.start, c.end, c.lane])).toEqual([
+      ['audio_1.wav', 0, 2, 0],
+      ['audio_2.wav', 1.8, 3.8, 1],
+      ['audio_3.wav', 3.6, 4.6, 0],
+      ['audio_4.wav', 5.1, 6.1, 0],
+    ]);
+    expect(clips[0]).toMatchObject({ text: 'Um dois.', speaker: 'Ana' });
+  });
+});
+
+describe('timeline formats', () => {
+  const clips = [
+    { blockIndex: 0, blockId: 'a', fileName: 'audio_1.wav', start: 0, end: 2, lane: 0, text: 'Olá, "mundo" & <tudo>.', speaker: 'Ana' },
+    { blockIndex: 1, blockId: 'b', fileName: 'audio 2.wav', start: 1.9, end: 3.5, lane: 1, text: 'Segundo trecho ✓' },
+  ];
+
+  it('writes a CMX 3600 EDL with clip names and crossfades on A2', () => {
+    const edl = formatEdl(clips, options);
+    expect(edl).toBe([
+      'TITLE: Aula <1>',
+      'FCM: NON-DROP FRAME',
+      '',
+      '001  AX       A     C        00:00:00:00 00:00:02:00 00:00:00:00 00:00:02:00',
+      '* FROM CLIP NAME: audio_1.wav',
+      '* COMMENT: Trecho 01 (Ana): Olá, "mundo" & <tudo>.',
+      '',
+      '002  AX       A2    C        00:00:00:00 00:00:01:15 00:00:01:23 00:00:03:13',
+      '* FROM CLIP NAME: audio 2.wav',
+      '* COMMENT: Trecho 02: Segundo trecho ',
+      '',
+    ].join('\n'));
+  });
+
+  it('truncates long EDL comments', () => {
+    const edl = formatEdl([{ ...clips[1], text: 'palavra '.repeat(20) }], options);
+    const comment = edl.split('\n').find(line => line.startsWith('* COMMENT: '))!;
+    expect(comment.slice('* COMMENT: '.length)).toHaveLength(80);
+    expect(comment.endsWith('...')).toBe(true);
+  });
+
+  it('writes FCPXML with escaped names, encoded media paths, lanes and markers', () => {
+    const xml = formatFcpxml(clips, options);
+    expect(xml).toContain('<event name="Aula &lt;1&gt;">');
+    expect(xml).toContain('<media-rep kind="original-media" src="audio%202.wav"/>');
+    expect(xml).toContain('<asset-clip ref="a2" lane="-2" offset="48/25s" name="audio 2.wav" start="0s" duration="40/25s" audioRole="dialogue"/>');
+    expect(xml).toContain('<marker start="0s" duration="1/25s" value="Trecho 01 (Ana)" note="Olá, &quot;mundo&quot; &amp; &lt;tudo&gt;."/>');
+    expect(xml).toContain('<sequence format="r1" duration="88/25s" tcStart="0s" tcFormat="NDF" audioLayout="mono" audioRate="48k">');
+  });
+
+  it('writes a marker CSV with quoted fields', () => {
+    expect(formatMarkerCsv(clips, options).split('\n')).toEqual([
+      'index,file,start,end,start_seconds,end_seconds,speaker,text',
+      '1,audio_1.wav,00:00:00:00,00:00:02:00,0.000,2.000,Ana,"Olá, ""mundo"" & <tudo>."',
+      '2,audio 2.wav,00:00:01:23,00:00:03:13,1.900,3.500,,Segundo trecho ✓',
+      '',
+    ]);
+  });
+});
+
+describe('buildTimelineFiles', () => {
+  it('returns the three files, or none without generated blocks', () => {
+    const blocks = [block('a', 'Um.', 1)];
+    expect(buildTimelineFiles(blocks, layoutTrack(blocks, SAMPLE_RATE), fileName, options).map(f => f.name)).toEqual(['timeline.edl', 'timeline.fcpxml', 'marcadores.csv']);
+    expect(buildTimelineFiles([], layoutTrack([], SAMPLE_RATE), fileName, options)).toEqual([]);
+  });
+});
@@ -0,0 +1,180 @@
+import { AudioBlock, Speaker } from '../types';
+import { TrackLayout } from './audioUtils';
+import { findSpeaker } from './speakerUtils';
+import { stripMarkup } from './markup';
+
+/**
+ * One block file placed on the narration timeline. Times are in seconds from the start of the single track.
+ */
+export interface TimelineClip {
+  blockIndex: number;
+  blockId: string;
+  fileName: string;
+  start: number;
+  end: number;
+  /** 0 normally; crossfaded neighbours alternate between 0 and 1 so they don't overlap on one track. */
+  lane: number;
+  text: string;
+  speaker?: string;
+}
+
+export interface TimelineOptions {
+  title: string;
+  frameRate: number;
+  /** Rate and channel count of the exported block files. */
+  sampleRate: number;
+  channels: number;
+}
+
+export interface TimelineFile {
+  name: string;
+  data: string;
+}
+
+const EDL_COMMENT_LENGTH = 80;
+
+export function buildTimelineClips(blocks: AudioBlock[], layout: TrackLayout, fileNameFor: (blockIndex: number) => string, speakers: Speaker[] = []): TimelineClip[] {
+  const clips: TimelineClip[] = [];
+  layout.segments.forEach(segment => {
+    const block = blocks[segment.blockIndex];
+    const previous = clips[clips.length - 1];
+    const start = segment.startSample / layout.sampleRate;
+    clips.push({
+      blockIndex: segment.blockIndex,
+      blockId: segment.blockId,
+      fileName: fileNameFor(segment.blockIndex),
+      start,
+      end: segment.endSample / layout.sampleRate,
+      lane: previous && start < previous.end ? 1 - previous.lane : 0,
+      text: stripMarkup(block.text).replace(/\s+/g, ' ').trim(),
+      speaker: findSpeaker(speakers, block.speakerId)?.name,
+    });
+  });
+  return clips;
+}
+
+const toFrames = (seconds: number, frameRate: number) => Math.round(seconds * frameRate);
+
+/** Non-drop-frame timecode, HH:MM:SS:FF. */
+export function formatTimecode(frames: number, frameRate: number): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const totalSeconds = Math.floor(frames / frameRate);
+  return `${pad(Math.floor(totalSeconds / 3600))}:${pad(Math.floor(totalSeconds / 60) % 60)}:${pad(totalSeconds % 60)}:${pad(frames % frameRate)}`;
+}
+
+/** Clip start and length in whole frames: NLEs cut on frame boundaries. */
+function clipFrames(clip: TimelineClip, frameRate: number) {
+  const start = toFrames(clip.start, frameRate);
+  return { start, duration: Math.max(1, toFrames(clip.end, frameRate) - start) };
+}
+
+function clipLabel(clip: TimelineClip): string {
+  return `Trecho ${String(clip.blockIndex + 1).padStart(2, '0')}${clip.speaker ? ` (${clip.speaker})` : ''}`;
+}
+
+/**
+ * CMX 3600 EDL with one audio event per block. Crossfaded blocks go to track A2. Premiere and Resolve
+ * link the events to the files by the clip name.
+ */
+export function formatEdl(clips: TimelineClip[], options: TimelineOptions): string {
+  const { frameRate } = options;
+  const tc = (frames: number) => formatTimecode(frames, frameRate);
+  const events = clips.map((clip, i) => {
+    const { start, duration } = clipFrames(clip, frameRate);
+    const comment = `${clipLabel(clip)}: ${clip.text}`.replace(/[^\x20-\xff]/g, '');
+    return [
+      `${String(i + 1).padStart(3, '0')}  AX       ${(clip.lane === 0 ? 'A' : 'A2').padEnd(5)} C        ${tc(0)} ${tc(duration)} ${tc(start)} ${tc(start + duration)}`,
+      `* FROM CLIP NAME: ${clip.fileName}`,
+      `* COMMENT: ${comment.length > EDL_COMMENT_LENGTH ? `${comment.slice(0, EDL_COMMENT_LENGTH - 3)}...` : comment}`,
+    ].join('\n');
+  });
+  return `TITLE: ${options.title}\nFCM: NON-DROP FRAME\n\n${events.join('\n\n')}\n`;
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * FCPXML 1.9 for Final Cut Pro and Resolve: the block files as connected clips under a gap spanning the
+ * narration, plus one marker per block. Media paths are relative to the exported folder, so the editor
+ * may ask to relink them on import.
+ */
+export function formatFcpxml(clips: TimelineClip[], options: TimelineOptions): string {
+  const { frameRate, sampleRate, channels } = options;
+  const time = (frames: number) => frames === 0 ? '0s' : `${frames}/${frameRate}s`;
+  const placed = clips.map(clip => ({ clip, ...clipFrames(clip, frameRate) }));
+  const total = placed.reduce((max, p) => Math.max(max, p.start + p.duration), 0);
+  const title = escapeXml(options.title);
+
+  const assets = placed.map(({ clip, duration }, i) => [
+    `    <asset id="a${i + 1}" name="${escapeXml(clip.fileName)}" start="0s" duration="${time(duration)}" hasAudio="1" audioSources="1" audioChannels="${channels}" audioRate="${sampleRate}">`,
+    `      <media-rep kind="original-media" src="${escapeXml(encodeURI(clip.fileName))}"/>`,
+    `    </asset>`,
+  ].join('\n'));
+  const assetClips = placed.map(({ clip, start, duration }, i) =>
+    `            <asset-clip ref="a${i + 1}" lane="${-(clip.lane + 1)}" offset="${time(start)}" name="${escapeXml(clip.fileName)}" start="0s" duration="${time(duration)}" audioRole="dialogue"/>`);
+  const markers = placed.map(({ clip, start }) =>
+    `            <marker start="${time(start)}" duration="${time(1)}" value="${escapeXml(clipLabel(clip))}" note="${escapeXml(clip.text)}"/>`);
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE fcpxml>',
+    '<fcpxml version="1.9">',
+    '  <resources>',
+    `    <format id="r1" frameDuration="${time(1)}" width="1920" height="1080"/>`,
+    ...assets,
+    '  </resources>',
+    '  <library>',
+    `    <event name="${title}">`,
+    `      <project name="${title}">`,
+    `        <sequence format="r1" duration="${time(total)}" tcStart="0s" tcFormat="NDF" audioLayout="${channels === 1 ? 'mono' : 'stereo'}" audioRate="48k">`,
+    '          <spine>',
+    `            <gap name="${title}" offset="0s" start="0s" duration="${time(total)}">`,
+    ...assetClips.map(line => `  ${line}`),
+    ...markers.map(line => `  ${line}`),
+    '            </gap>',
+    '          </spine>',
+    '        </sequence>',
+    '      </project>',
+    '    </event>',
+    '  </library>',
+    '</fcpxml>',
+    '',
+  ].join('\n');
+}
+
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Plain marker list: block index, file, start/end as timecode and seconds, speaker and text. */
+export function formatMarkerCsv(clips: TimelineClip[], options: TimelineOptions): string {
+  const tc = (seconds: number) => formatTimecode(toFrames(seconds, options.frameRate), options.frameRate);
+  const header = ['index', 'file', 'start', 'end', 'start_seconds', 'end_seconds', 'speaker', 'text'];
+  const rows = clips.map(clip => [
+    clip.blockIndex + 1,
+    clip.fileName,
+    tc(clip.start),
+    tc(clip.end),
+    clip.start.toFixed(3),
+    clip.end.toFixed(3),
+    clip.speaker ?? '',
+    clip.text,
+  ].map(csvField).join(','));
+  return [header.join(','), ...rows].join('\n') + '\n';
+}
+
+/**
+ * The three timeline files for a set of exported block files laid out as in the single track.
+ */
+export function buildTimelineFiles(blocks: AudioBlock[], layout: TrackLayout, fileNameFor: (blockIndex: number) => string, options: TimelineOptions, speakers: Speaker[] = []): TimelineFile[] {
+  const clips = buildTimelineClips(blocks, layout, fileNameFor, speakers);
+  if (clips.length === 0) return [];
+  return [
+    { name: 'timeline.edl', data: formatEdl(clips, options) },
+    { name: 'timeline.fcpxml', data: formatFcpxml(clips, options) },
+    { name: 'marcadores.csv', data: formatMarkerCsv(clips, options) },
+  ];
+}
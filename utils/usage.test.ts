@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { ModelPrice, UsageRecord } from '../types';
+import { checkBudget, estimateRecordCost, estimateTextCost, formatUsageCsv, formatUsd, localDay, summarizeUsage, usageByBlock, usageByDay } from './usage';
+
+const prices: Record<string, ModelPrice> = { m: { inputPerMillionTokens: 1, outputPerMillionTokens: 10 } };
+
+function record(extra: Partial<UsageRecord> = {}): UsageRecord {
+  return { id: 'r', timestamp: new Date(2026, 0, 2, 10).getTime(), providerId: 'p', model: 'm', characters: 400, audioSeconds: 4, status: 'success', ...extra };
+}
+
+describe('estimateRecordCost', () => {
+  it('prices reported tokens', () => {
+    expect(estimateRecordCost(record({ tokens: { promptTokens: 1000, outputTokens: 2000, totalTokens: 3000 } }), prices)).toBeCloseTo(0.021);
+  });
+
+  it('estimates tokens from characters and audio when none are reported', () => {
+    expect(estimateRecordCost(record(), prices)).toBeCloseTo((100 + 100 * 10) / 1e6);
+  });
+
+  it('treats failures without tokens and unknown models as free', () => {
+    expect(estimateRecordCost(record({ status: 'error' }), prices)).toBe(0);
+    expect(estimateRecordCost(record({ model: 'outro' }), prices)).toBe(0);
+  });
+});
+
+describe('estimateTextCost', () => {
+  it('derives the audio length from the narration rate and speed', () => {
+    // 1500 caracteres a 15 por segundo: 100s de áudio em 1x, 50s em 2x.
+    expect(estimateTextCost(1500, 1, 'm', prices)).toBeCloseTo((375 + 2500 * 10) / 1e6);
+    expect(estimateTextCost(1500, 2, 'm', prices)).toBeCloseTo((375 + 1250 * 10) / 1e6);
+  });
+});
+
+describe('usage summaries', () => {
+  const day1 = new Date(2026, 0, 1, 23, 59).getTime();
+  const day2 = new Date(2026, 0, 2, 0, 1).getTime();
+  const records = [
+    record({ timestamp: day1, blockId: 'a', tokens: { totalTokens: 50, promptTokens: 10, outputTokens: 40 } }),
+    record({ timestamp: day2, blockId: 'a', status: 'error', audioSeconds: 0 }),
+    record({ timestamp: day2, blockId: 'b' }),
+    record({ timestamp: day2 }),
+  ];
+
+  it('totals requests, failures, characters, audio and tokens', () => {
+    expect(summarizeUsage(records, prices)).toMatchObject({ requests: 4, failures: 1, characters: 1600, audioSeconds: 12, tokens: 50 });
+    expect(summarizeUsage([], prices).costUsd).toBe(0);
+  });
+
+  it('groups by local day, most recent first', () => {
+    expect(localDay(day1)).toBe('2026-01-01');
+    expect(usageByDay(records, prices).map(d => [d.day, d.requests])).toEqual([['2026-01-02', 3], ['2026-01-01', 1]]);
+  });
+
+  it('groups by block, leaving out previews', () => {
+    const byBlock = usageByBlock(records, prices);
+    expect(Array.from(byBlock.keys())).toEqual(['a', 'b']);
+    expect(byBlock.get('a')).toMatchObject({ requests: 2, failures: 1 });
+  });
+});
+
+describe('checkBudget', () => {
+  it('flags spending past the limit only when there is one', () => {
+    expect(checkBudget({ limitUsd: 1, mode: 'warn' }, 0.8, 0.3).exceeded).toBe(true);
+    expect(checkBudget({ limitUsd: 1, mode: 'warn' }, 0.8, 0.2).exceeded).toBe(false);
+    expect(checkBudget({ limitUsd: 0, mode: 'block' }, 5, 5).exceeded).toBe(false);
+    expect(checkBudget(undefined, 5, 5)).toEqual({ spentUsd: 5, estimateUsd: 5, exceeded: false });
+  });
+});
+
+describe('formatUsd', () => {
+  it('shows more decimals for fractions of a cent', () => {
+    expect(formatUsd(1.5)).toBe('US$ 1.50');
+    expect(formatUsd(0.0011)).toBe('US$ 0.0011');
+    expect(formatUsd(0)).toBe('US$ 0.00');
+  });
+});
+
+describe('formatUsageCsv', () => {
+  it('writes one sorted row per request with project names and quoted fields', () => {
+    const csv = formatUsageCsv([
+      record({ timestamp: Date.UTC(2026, 0, 2), projectId: 'p2', blockId: 'b' }),
+      record({ timestamp: Date.UTC(2026, 0, 1), projectId: 'p1', status: 'error', errorKind: 'quota' }),
+    ], prices, { p1: 'Aula "1", parte A' });
+    const [header, first, second] = csv.trimEnd().split('\n');
+    expect(header.split(',')).toHaveLength(13);
+    expect(first).toBe('2026-01-01T00:00:00.000Z,"Aula ""1"", parte A",,p,m,400,4.00,,,,error,quota,0.000000');
+    expect(second).toBe('2026-01-02T00:00:00.000Z,p2,b,p,m,400,4.00,,,,success,,0.001100');
+  });
+});
@@ -0,0 +1,136 @@
+import { ModelPrice, UsageBudget, UsageRecord } from '../types';
+import { CHARS_PER_SECOND } from './chunking';
+
+/** Published list prices (USD per million tokens); editable in the usage panel. */
+export const DEFAULT_PRICE_TABLE: Record<string, ModelPrice> = {
+  'gemini-2.5-flash-preview-tts': { inputPerMillionTokens: 0.5, outputPerMillionTokens: 10 },
+  'mock-tone-v1': { inputPerMillionTokens: 0, outputPerMillionTokens: 0 },
+};
+
+/** Fallbacks when a provider doesn't report tokens: ~4 characters per text token, 25 tokens per second of audio. */
+const CHARS_PER_TOKEN = 4;
+const AUDIO_TOKENS_PER_SECOND = 25;
+
+export interface UsageTotals {
+  requests: number;
+  failures: number;
+  characters: number;
+  audioSeconds: number;
+  tokens: number;
+  costUsd: number;
+}
+
+export interface DailyUsage extends UsageTotals {
+  /** Local date as YYYY-MM-DD. */
+  day: string;
+}
+
+export function loadPriceTable(): Record<string, ModelPrice> {
+  return { ...DEFAULT_PRICE_TABLE, ...JSON.parse(localStorage.getItem('tts_price_table') || '{}') };
+}
+
+export function savePriceTable(table: Record<string, ModelPrice>) {
+  localStorage.setItem('tts_price_table', JSON.stringify(table));
+}
+
+function costOf(promptTokens: number, outputTokens: number, price?: ModelPrice): number {
+  if (!price) return 0;
+  return (promptTokens * price.inputPerMillionTokens + outputTokens * price.outputPerMillionTokens) / 1_000_000;
+}
+
+/**
+ * Estimated cost of a request: from the reported tokens when there are any, otherwise from the characters
+ * sent and the audio returned. Failed requests without reported tokens are assumed free.
+ */
+export function estimateRecordCost(record: UsageRecord, prices: Record<string, ModelPrice>): number {
+  const price = prices[record.model];
+  if (record.tokens) return costOf(record.tokens.promptTokens ?? 0, record.tokens.outputTokens ?? 0, price);
+  if (record.status === 'error') return 0;
+  return costOf(record.characters / CHARS_PER_TOKEN, record.audioSeconds * AUDIO_TOKENS_PER_SECOND, price);
+}
+
+/** Expected cost of generating `characters` of text at `speed`, before any request is sent. */
+export function estimateTextCost(characters: number, speed: number, model: string, prices: Record<string, ModelPrice>): number {
+  const audioSeconds = characters / CHARS_PER_SECOND / Math.max(0.5, speed);
+  return costOf(characters / CHARS_PER_TOKEN, audioSeconds * AUDIO_TOKENS_PER_SECOND, prices[model]);
+}
+
+export function summarizeUsage(records: UsageRecord[], prices: Record<string, ModelPrice>): UsageTotals {
+  return records.reduce<UsageTotals>((totals, r) => ({
+    requests: totals.requests + 1,
+    failures: totals.failures + (r.status === 'error' ? 1 : 0),
+    characters: totals.characters + r.characters,
+    audioSeconds: totals.audioSeconds + r.audioSeconds,
+    tokens: totals.tokens + (r.tokens?.totalTokens ?? 0),
+    costUsd: totals.costUsd + estimateRecordCost(r, prices),
+  }), { requests: 0, failures: 0, characters: 0, audioSeconds: 0, tokens: 0, costUsd: 0 });
+}
+
+export function localDay(timestamp: number): string {
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+function groupBy(records: UsageRecord[], keyOf: (record: UsageRecord) => string | undefined): Map<string, UsageRecord[]> {
+  const groups = new Map<string, UsageRecord[]>();
+  records.forEach(r => {
+    const key = keyOf(r);
+    if (key === undefined) return;
+    groups.set(key, [...(groups.get(key) ?? []), r]);
+  });
+  return groups;
+}
+
+/** Totals per local day, most recent first. */
+export function usageByDay(records: UsageRecord[], prices: Record<string, ModelPrice>): DailyUsage[] {
+  return Array.from(groupBy(records, r => localDay(r.timestamp)))
+    .map(([day, group]) => ({ day, ...summarizeUsage(group, prices) }))
+    .sort((a, b) => b.day.localeCompare(a.day));
+}
+
+export function usageByBlock(records: UsageRecord[], prices: Record<string, ModelPrice>): Map<string, UsageTotals> {
+  return new Map(Array.from(groupBy(records, r => r.blockId)).map(([blockId, group]) => [blockId, summarizeUsage(group, prices)]));
+}
+
+export interface BudgetCheck {
+  spentUsd: number;
+  estimateUsd: number;
+  exceeded: boolean;
+}
+
+/** Whether spending `estimateUsd` more would take the project past its budget (never, without a limit). */
+export function checkBudget(budget: UsageBudget | undefined, spentUsd: number, estimateUsd: number): BudgetCheck {
+  return { spentUsd, estimateUsd, exceeded: !!budget && budget.limitUsd > 0 && spentUsd + estimateUsd > budget.limitUsd };
+}
+
+export function formatUsd(value: number): string {
+  return `US$ ${value < 0.01 && value > 0 ? value.toFixed(4) : value.toFixed(2)}`;
+}
+
+function csvField(value: string | number | undefined): string {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * One line per request, with the estimated cost; `projectNames` maps ids to readable names.
+ */
+export function formatUsageCsv(records: UsageRecord[], prices: Record<string, ModelPrice>, projectNames: Record<string, string> = {}): string {
+  const header = ['timestamp', 'project', 'block_id', 'provider', 'model', 'characters', 'audio_seconds', 'prompt_tokens', 'output_tokens', 'total_tokens', 'status', 'error_kind', 'estimated_cost_usd'];
+  const rows = [...records].sort((a, b) => a.timestamp - b.timestamp).map(r => [
+    new Date(r.timestamp).toISOString(),
+    r.projectId ? projectNames[r.projectId] ?? r.projectId : '',
+    r.blockId,
+    r.providerId,
+    r.model,
+    r.characters,
+    r.audioSeconds.toFixed(2),
+    r.tokens?.promptTokens,
+    r.tokens?.outputTokens,
+    r.tokens?.totalTokens,
+    r.status,
+    r.errorKind,
+    estimateRecordCost(r, prices).toFixed(6),
+  ].map(csvField).join(','));
+  return [header.join(','), ...rows].join('\n') + '\n';
+}
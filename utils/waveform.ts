@@ -0,0 +1,47 @@
+import { pcmToInt16 } from './audioUtils';
+
+// Keyed by the PCM buffer itself, so peaks are dropped together with the audio they describe.
+const peaksCache = new WeakMap<Uint8Array, Map<number, Float32Array>>();
+
+/**
+ * Returns interleaved [min, max] pairs (range -1..1) for each of `buckets` equal slices of the PCM.
+ * Computed once per buffer and bucket count.
+ */
+export function computePeaks(pcmData: Uint8Array, buckets: number): Float32Array {
+  let byCount = peaksCache.get(pcmData);
+  if (!byCount) {
+    byCount = new Map();
+    peaksCache.set(pcmData, byCount);
+  }
+  const cached = byCount.get(buckets);
+  if (cached) return cached;
+
+  const samples = pcmToInt16(pcmData);
+  const peaks = new Float32Array(buckets * 2);
+  const perBucket = samples.length / buckets;
+  for (let b = 0; b < buckets; b++) {
+    const start = Math.floor(b * perBucket);
+    const end = Math.max(start + 1, Math.min(samples.length, Math.floor((b + 1) * perBucket)));
+    let min = 0;
+    let max = 0;
+    for (let i = start; i < end && i < samples.length; i++) {
+      const value = samples[i] / 32768;
+      if (value < min) min = value;
+      if (value > max) max = value;
+    }
+    peaks[b * 2] = min;
+    peaks[b * 2 + 1] = max;
+  }
+  byCount.set(buckets, peaks);
+  return peaks;
+}
+
+/**
+ * Formats seconds as m:ss.d for the player clock.
+ */
+export function formatClock(seconds: number): string {
+  const safe = Math.max(0, seconds);
+  const m = Math.floor(safe / 60);
+  const s = safe - m * 60;
+  return `${m}:${s.toFixed(1).padStart(4, '0')}`;
+}